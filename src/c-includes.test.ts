@@ -0,0 +1,86 @@
+import { extractCIncludes, splitCommandLine, getIncludeDirectories, resolveCInclude, clearCIncludeCache } from './c-includes';
+import { setConfig } from './global-state';
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+describe('extractCIncludes', () => {
+  it('should keep angle brackets on system includes and skip commented ones', () => {
+    const source = [
+      '#include <stdio.h>',
+      '#  include "util.h"',
+      '/* #include "ghost.h"',
+      '   #include "ghost2.h" */',
+      '#import <Foundation/Foundation.h>'
+    ].join('\n');
+    expect(extractCIncludes(source)).toEqual([
+      { specifier: '<stdio.h>', kind: 'static' },
+      { specifier: 'util.h', kind: 'static' },
+      { specifier: '<Foundation/Foundation.h>', kind: 'static' }
+    ]);
+  });
+});
+
+describe('compiler arguments', () => {
+  it('should split command lines with quotes and escapes', () => {
+    expect(splitCommandLine('cc -DNAME="a b" -I "my dir" \'-Iother\' x\\ y.c')).toEqual(['cc', '-DNAME=a b', '-I', 'my dir', '-Iother', 'x y.c']);
+  });
+
+  it('should collect include directories by flag', () => {
+    const dirs = getIncludeDirectories(['cc', '-Iinc', '-I', 'lib', '-iquote', 'q', '-isystem/opt/sys', '/Iwin'], '/work/build');
+    expect(dirs).toEqual({
+      quote: [path.resolve('/work/build', 'q')],
+      include: [path.resolve('/work/build', 'inc'), path.resolve('/work/build', 'lib'), path.resolve('/work/build', 'win')],
+      system: [path.resolve('/opt/sys')]
+    });
+  });
+});
+
+describe('resolveCInclude', () => {
+  let root: string;
+
+  const writeFile = (relativePath: string, content: string = '') => {
+    const fullPath = path.join(root, relativePath);
+    fs.mkdirSync(path.dirname(fullPath), { recursive: true });
+    fs.writeFileSync(fullPath, content);
+  };
+
+  beforeAll(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'filescope-c-'));
+    writeFile('src/main.c');
+    writeFile('src/util.h');
+    writeFile('include/lib/api.h');
+    writeFile('vendor/extra.h');
+    writeFile('build/compile_commands.json', JSON.stringify([
+      { directory: path.join(root, 'build'), arguments: ['cc', '-I../include', '-c', '../src/main.c'], file: '../src/main.c' }
+    ]));
+  });
+
+  afterAll(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  beforeEach(() => {
+    clearCIncludeCache();
+    setConfig({ baseDirectory: root, excludePatterns: [], includePaths: ['vendor'], version: '1.0.0' });
+  });
+
+  it('should resolve quoted includes next to the including file', () => {
+    expect(resolveCInclude('util.h', path.join(root, 'src/main.c'), root)).toEqual({ resolvedPath: path.join(root, 'src/util.h') });
+  });
+
+  it('should resolve includes through compile_commands.json and configured include paths', () => {
+    expect(resolveCInclude('<lib/api.h>', path.join(root, 'src/main.c'), root)).toEqual({ resolvedPath: path.join(root, 'include/lib/api.h') });
+    expect(resolveCInclude('extra.h', path.join(root, 'src/util.h'), root)).toEqual({ resolvedPath: path.join(root, 'vendor/extra.h') });
+  });
+
+  it('should not search the including directory for angle-bracket includes', () => {
+    expect(resolveCInclude('<util.h>', path.join(root, 'src/main.c'), root)).toEqual({ systemHeader: 'util.h' });
+  });
+
+  it('should report unresolved system includes and skip unresolved local ones', () => {
+    expect(resolveCInclude('<stdio.h>', path.join(root, 'src/main.c'), root)).toEqual({ systemHeader: 'stdio.h' });
+    expect(resolveCInclude('generated.h', path.join(root, 'src/main.c'), root)).toEqual({});
+  });
+});
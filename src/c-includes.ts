@@ -0,0 +1,211 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { ExtractedImport } from './import-extractor.js';
+import { getConfig } from './global-state.js';
+import { log } from './logger.js';
+
+/**
+ * Include search directories for one translation unit
+ */
+interface IncludeDirectories {
+  quote: string[];   // -iquote: searched for "..." includes only
+  include: string[]; // -I: searched for both forms
+  system: string[];  // -isystem / -idirafter: searched after -I
+}
+
+/**
+ * A C/C++ include resolved to a project file, or classified as a system header
+ */
+export interface CIncludeResolution {
+  resolvedPath?: string; // The project header the include refers to
+  systemHeader?: string; // The header name when it lives outside the project
+}
+
+// Where compile_commands.json is usually generated, relative to the project root
+const COMPILE_COMMANDS_LOCATIONS = ['compile_commands.json', 'build/compile_commands.json', 'out/compile_commands.json', 'cmake-build-debug/compile_commands.json'];
+
+// Include directories per source file, plus their union for headers, keyed by project root
+interface CompilationDatabase {
+  byFile: Map<string, IncludeDirectories>;
+  all: IncludeDirectories;
+}
+const compilationDatabaseCache = new Map<string, CompilationDatabase>();
+
+/**
+ * Clears cached compile_commands.json data. Called at the start of every full scan.
+ */
+export function clearCIncludeCache(): void {
+  compilationDatabaseCache.clear();
+}
+
+/**
+ * Extracts `#include`/`#import` directives from C/C++ source. Angle-bracket
+ * includes keep their brackets (`<stdio.h>`) so they can be told apart from
+ * quoted ones (`util.h`). Directives inside block comments are ignored.
+ */
+export function extractCIncludes(content: string): ExtractedImport[] {
+  // Blank out block comments but keep line breaks so directives stay on their own lines
+  const withoutComments = content.replace(/\/\*[\s\S]*?\*\//g, comment => comment.replace(/[^\n]/g, ' '));
+  const imports: ExtractedImport[] = [];
+
+  for (const line of withoutComments.split('\n')) {
+    const match = line.match(/^\s*#\s*(?:include|include_next|import)\s*(<([^>]+)>|"([^"]+)")/);
+    if (match) {
+      imports.push({ specifier: match[2] !== undefined ? `<${match[2]}>` : match[3], kind: 'static' });
+    }
+  }
+
+  return imports;
+}
+
+/**
+ * Splits a compiler command line into arguments, honoring quotes and escapes
+ */
+export function splitCommandLine(command: string): string[] {
+  const args: string[] = [];
+  let current = '';
+  let quote: string | null = null;
+  let hasArg = false;
+
+  for (let i = 0; i < command.length; i++) {
+    const char = command[i];
+    if (quote) {
+      if (char === quote) {
+        quote = null;
+      } else if (char === '\\' && quote === '"' && (command[i + 1] === '"' || command[i + 1] === '\\')) {
+        current += command[++i];
+      } else {
+        current += char;
+      }
+    } else if (char === '"' || char === "'") {
+      quote = char;
+      hasArg = true;
+    } else if (char === '\\' && i + 1 < command.length) {
+      current += command[++i];
+      hasArg = true;
+    } else if (/\s/.test(char)) {
+      if (hasArg) args.push(current);
+      current = '';
+      hasArg = false;
+    } else {
+      current += char;
+      hasArg = true;
+    }
+  }
+  if (hasArg) args.push(current);
+
+  return args;
+}
+
+/**
+ * Reads the include directories from compiler arguments (`-I`, `-iquote`,
+ * `-isystem`, `-idirafter` and MSVC `/I`), resolved against `directory`
+ */
+export function getIncludeDirectories(args: string[], directory: string): IncludeDirectories {
+  const dirs: IncludeDirectories = { quote: [], include: [], system: [] };
+  const flags: [string, keyof IncludeDirectories][] = [
+    ['-iquote', 'quote'], ['-isystem', 'system'], ['-idirafter', 'system'], ['-I', 'include'], ['/I', 'include']
+  ];
+
+  for (let i = 0; i < args.length; i++) {
+    for (const [flag, target] of flags) {
+      if (!args[i].startsWith(flag)) continue;
+      const value = args[i].length > flag.length ? args[i].slice(flag.length) : args[++i];
+      if (value) {
+        dirs[target].push(path.resolve(directory, value));
+      }
+      break;
+    }
+  }
+
+  return dirs;
+}
+
+// Load and index the project's compile_commands.json
+function loadCompilationDatabase(baseDir: string): CompilationDatabase {
+  const root = path.normalize(baseDir);
+  if (compilationDatabaseCache.has(root)) {
+    return compilationDatabaseCache.get(root)!;
+  }
+
+  const database: CompilationDatabase = { byFile: new Map(), all: { quote: [], include: [], system: [] } };
+  const configured = getConfig()?.compileCommandsPath;
+  const locations = configured ? [configured] : COMPILE_COMMANDS_LOCATIONS;
+
+  for (const location of locations) {
+    const databasePath = path.resolve(root, location);
+    if (!fs.existsSync(databasePath)) continue;
+
+    try {
+      const entries = JSON.parse(fs.readFileSync(databasePath, 'utf-8'));
+      for (const entry of Array.isArray(entries) ? entries : []) {
+        if (typeof entry?.file !== 'string') continue;
+        const directory = typeof entry.directory === 'string' ? entry.directory : path.dirname(databasePath);
+        const args: string[] = Array.isArray(entry.arguments) ? entry.arguments : splitCommandLine(entry.command ?? '');
+        const dirs = getIncludeDirectories(args, directory);
+
+        database.byFile.set(path.normalize(path.resolve(directory, entry.file)), dirs);
+        for (const key of ['quote', 'include', 'system'] as (keyof IncludeDirectories)[]) {
+          dirs[key].forEach(dir => {
+            if (!database.all[key].includes(dir)) database.all[key].push(dir);
+          });
+        }
+      }
+      log(`[c-includes] Loaded ${database.byFile.size} entries from ${databasePath}`);
+    } catch (error) {
+      log(`[c-includes] Failed to read ${databasePath}: ${error}`);
+    }
+    break;
+  }
+
+  compilationDatabaseCache.set(root, database);
+  return database;
+}
+
+function isFile(filePath: string): boolean {
+  try {
+    return fs.statSync(filePath).isFile();
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Resolves a C/C++ include the way the preprocessor searches for it.
+ * Quoted includes try the including file's directory first, then `-iquote`
+ * directories; both forms then try `-I` and `-isystem` directories from
+ * compile_commands.json (the file's own entry, or every entry's for headers)
+ * and the configured `includePaths`. Headers found outside the project, and
+ * unresolved angle-bracket includes, are reported as system headers.
+ * @param specifier The include as returned by extractCIncludes
+ * @param fromFile The absolute path of the including file
+ * @param baseDir The project root directory
+ */
+export function resolveCInclude(specifier: string, fromFile: string, baseDir: string): CIncludeResolution {
+  const isAngled = specifier.startsWith('<') && specifier.endsWith('>');
+  const header = isAngled ? specifier.slice(1, -1) : specifier;
+  const root = path.normalize(baseDir);
+
+  const database = loadCompilationDatabase(root);
+  const dirs = database.byFile.get(path.normalize(fromFile)) ?? database.all;
+  const configuredPaths = (getConfig()?.includePaths ?? []).map(includePath => path.resolve(root, includePath));
+
+  const searchDirs = [
+    ...(isAngled ? [] : [path.dirname(fromFile), ...dirs.quote]),
+    ...dirs.include,
+    ...configuredPaths,
+    ...dirs.system
+  ];
+
+  for (const dir of searchDirs) {
+    const candidate = path.normalize(path.join(dir, header));
+    if (isFile(candidate)) {
+      if (candidate.startsWith(root + path.sep)) {
+        return { resolvedPath: candidate };
+      }
+      return { systemHeader: header };
+    }
+  }
+
+  return isAngled ? { systemHeader: header } : {};
+}
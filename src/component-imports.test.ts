@@ -0,0 +1,63 @@
+import { extractScriptBlocks, extractComponentImports } from './component-imports';
+import { describe, it, expect } from 'vitest';
+
+describe('extractScriptBlocks', () => {
+  it('should read both Vue script blocks with their languages', () => {
+    const source = [
+      '<template><UserCard :user="user" /></template>',
+      '<script lang="ts">export default { name: "UserList" }</script>',
+      '<script setup lang="tsx">import UserCard from "./UserCard.vue";</script>',
+      '<!-- <script>import Old from "./Old.vue";</script> -->',
+      '<style scoped>.a {}</style>'
+    ].join('\n');
+    expect(extractScriptBlocks(source, '/app/UserList.vue')).toEqual([
+      { content: 'export default { name: "UserList" }', lang: 'ts' },
+      { content: 'import UserCard from "./UserCard.vue";', lang: 'tsx' }
+    ]);
+  });
+
+  it('should read Astro frontmatter and skip inline and non-JS scripts', () => {
+    const source = [
+      '---',
+      'import Layout from "../layouts/Layout.astro";',
+      '---',
+      '<Layout><h1>Hi</h1></Layout>',
+      '<script>import "../scripts/menu.ts";</script>',
+      '<script is:inline>import "./ignored.js";</script>',
+      '<script type="application/ld+json">{}</script>'
+    ].join('\n');
+    expect(extractScriptBlocks(source, '/app/pages/index.astro')).toEqual([
+      { content: 'import Layout from "../layouts/Layout.astro";', lang: 'ts' },
+      { content: 'import "../scripts/menu.ts";', lang: 'js' }
+    ]);
+  });
+});
+
+describe('extractComponentImports', () => {
+  it('should analyze Svelte module and instance scripts and external script sources', () => {
+    const source = [
+      '<script context="module" lang="ts">import type { Item } from "./types";</script>',
+      '<script>import Row from "./Row.svelte"; const lazy = () => import("./Chart.svelte");</script>',
+      '<script src="./legacy.js"></script>'
+    ].join('\n');
+    expect(extractComponentImports(source, '/app/List.svelte')).toEqual([
+      { specifier: './types', kind: 'type-only', symbols: ['Item'] },
+      { specifier: './Row.svelte', kind: 'static', symbols: ['default'] },
+      { specifier: './Chart.svelte', kind: 'dynamic' },
+      { specifier: './legacy.js', kind: 'static' }
+    ]);
+  });
+
+  it('should read style blocks as asset references', () => {
+    const source = [
+      '<template><img src="./logo.png" /></template>',
+      '<style lang="scss" scoped>@use "../styles/tokens"; .a { background: url(./bg.png); }</style>',
+      '<style src="./print.css"></style>'
+    ].join('\n');
+    expect(extractComponentImports(source, '/app/Header.vue')).toEqual([
+      { specifier: '../styles/tokens', kind: 'asset' },
+      { specifier: './bg.png', kind: 'asset' },
+      { specifier: './print.css', kind: 'asset' }
+    ]);
+  });
+});
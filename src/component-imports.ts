@@ -0,0 +1,108 @@
+import * as path from 'path';
+import { ExtractedImport, extractImports } from './import-extractor.js';
+import { extractStylesheetImports } from './stylesheet-imports.js';
+
+/**
+ * Single-file component formats whose script blocks are analyzed as JS/TS
+ */
+export const COMPONENT_EXTENSIONS = ['.vue', '.svelte', '.astro'];
+
+/**
+ * A script embedded in a component file
+ */
+export interface ScriptBlock {
+  content: string; // The script source ('' for external scripts)
+  lang: string;    // 'ts', 'tsx', 'js' or 'jsx'
+  src?: string;    // The `src` attribute of an external script
+}
+
+// Read the attributes of an opening tag; valueless attributes map to ''
+function parseAttributes(attributes: string): Map<string, string> {
+  const result = new Map<string, string>();
+  const pattern = /([\w:@.-]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'>]+)))?/g;
+  let match;
+  while ((match = pattern.exec(attributes)) !== null) {
+    result.set(match[1].toLowerCase(), match[2] ?? match[3] ?? match[4] ?? '');
+  }
+  return result;
+}
+
+// The script language from `lang="ts"` or `type="text/typescript"`
+function getScriptLang(attributes: Map<string, string>, defaultLang: string): string {
+  const lang = attributes.get('lang')?.toLowerCase();
+  if (lang === 'ts' || lang === 'typescript') return 'ts';
+  if (lang === 'tsx' || lang === 'jsx' || lang === 'js') return lang;
+  if (/typescript/i.test(attributes.get('type') ?? '')) return 'ts';
+  return defaultLang;
+}
+
+/**
+ * Extracts the script blocks of a Vue, Svelte or Astro component: every
+ * `<script>` element (including Vue `<script setup>` and Svelte
+ * `<script context="module">`) and Astro's `---` frontmatter. Scripts in
+ * HTML comments, non-JS script types and Astro `is:inline` scripts, which
+ * are not bundled, are skipped.
+ */
+export function extractScriptBlocks(content: string, filePath: string): ScriptBlock[] {
+  const blocks: ScriptBlock[] = [];
+  let markup = content;
+
+  if (path.extname(filePath).toLowerCase() === '.astro') {
+    const frontmatter = content.match(/^\uFEFF?\s*---\r?\n([\s\S]*?)\r?\n---/);
+    if (frontmatter) {
+      blocks.push({ content: frontmatter[1], lang: 'ts' });
+      markup = content.slice(frontmatter[0].length);
+    }
+  }
+
+  markup = markup.replace(/<!--[\s\S]*?-->/g, '');
+  const scriptPattern = /<script\b([^>]*)>([\s\S]*?)<\/script\s*>/gi;
+  let match;
+  while ((match = scriptPattern.exec(markup)) !== null) {
+    const attributes = parseAttributes(match[1]);
+    const type = attributes.get('type')?.toLowerCase();
+    if (attributes.has('is:inline') || (type && !/^(module|text\/(javascript|typescript)|application\/(javascript|typescript))$/.test(type))) {
+      continue;
+    }
+
+    const lang = getScriptLang(attributes, 'js');
+    const src = attributes.get('src');
+    blocks.push(src ? { content: '', lang, src } : { content: match[2], lang });
+  }
+
+  return blocks;
+}
+
+/**
+ * Extracts the imports of a component by running each script block through
+ * the JS/TS import extractor. External scripts (`<script src="...">`) are
+ * recorded as static imports of their source file. `<style>` blocks go
+ * through the stylesheet extractor, so their references are `asset` edges.
+ */
+export function extractComponentImports(content: string, filePath: string): ExtractedImport[] {
+  const imports: ExtractedImport[] = [];
+  for (const block of extractScriptBlocks(content, filePath)) {
+    if (block.src) {
+      imports.push({ specifier: block.src, kind: 'static' });
+    } else {
+      // The extension only selects how the block is parsed
+      imports.push(...extractImports(block.content, `${filePath}.${block.lang}`));
+    }
+  }
+
+  const markup = content.replace(/<!--[\s\S]*?-->/g, '');
+  const stylePattern = /<style\b([^>]*)>([\s\S]*?)<\/style\s*>/gi;
+  let match;
+  while ((match = stylePattern.exec(markup)) !== null) {
+    const attributes = parseAttributes(match[1]);
+    const src = attributes.get('src');
+    if (src) {
+      imports.push({ specifier: src, kind: 'asset' });
+    } else {
+      const lang = attributes.get('lang')?.toLowerCase() ?? 'css';
+      imports.push(...extractStylesheetImports(match[2], `${filePath}.${lang}`));
+    }
+  }
+
+  return imports;
+}
@@ -15,11 +15,25 @@ const FileWatchingSchema = z.object({
   watchForChanged: z.boolean().default(true)
 }).optional();
 
+// Define the ScanConfig schema
+const ScanSchema = z.object({
+  concurrency: z.number().int().positive().optional(),
+  workerThreads: z.number().int().nonnegative().optional(),
+  symlinks: z.enum(['ignore', 'follow', 'link']).optional()
+}).optional();
+
 // Define the config schema
 const ConfigSchema = z.object({
   baseDirectory: z.string(),
   excludePatterns: z.array(z.string()),
   fileWatching: FileWatchingSchema,
+  moduleResolution: z.enum(['auto', 'node10', 'node16', 'nodenext', 'bundler']).optional(),
+  includePaths: z.array(z.string()).optional(),
+  compileCommandsPath: z.string().optional(),
+  languageAnalyzers: z.array(z.string()).optional(),
+  scan: ScanSchema,
+  respectIgnoreFiles: z.boolean().optional(),
+  testPatterns: z.array(z.string()).optional(),
   version: z.string()
 });
 
@@ -39,6 +53,8 @@ const DEFAULT_CONFIG: Config = {
     watchForDeleted: true,
     watchForChanged: true
   },
+  moduleResolution: "auto",
+  respectIgnoreFiles: true,
   version: "1.0.0"
 };
 
@@ -0,0 +1,56 @@
+import { getDependentEdges, getEdgeWeight, getWeightedEdgeCount } from './dependency-edges';
+import { DependencyEdge, FileNode } from './types';
+import { describe, it, expect } from 'vitest';
+
+const file = (filePath: string, dependencyEdges: DependencyEdge[] = []): FileNode => ({
+  path: filePath,
+  name: filePath.split('/').pop()!,
+  isDirectory: false,
+  dependencies: [...new Set(dependencyEdges.map(edge => edge.path))],
+  dependencyEdges
+});
+
+describe('getWeightedEdgeCount', () => {
+  it('should count type-only and dynamic edges for less than static ones', () => {
+    expect(getWeightedEdgeCount([{ path: '/app/a.ts', kind: 'static' }])).toBe(1);
+    expect(getWeightedEdgeCount([{ path: '/app/a.ts', kind: 'type-only' }])).toBe(0.5);
+    expect(getWeightedEdgeCount([{ path: '/app/a.ts', kind: 'dynamic' }])).toBe(0.5);
+  });
+
+  it('should count each target once at its heaviest kind', () => {
+    const edges: DependencyEdge[] = [
+      { path: '/app/a.ts', kind: 'type-only' },
+      { path: '/app/a.ts', kind: 'static' },
+      { path: '/app/b.ts', kind: 'dynamic' }
+    ];
+    expect(getWeightedEdgeCount(edges)).toBe(1.5);
+    expect(getWeightedEdgeCount(edges, { weights: { dynamic: 1 } })).toBe(2);
+  });
+
+  it('should give excluded kinds no weight', () => {
+    expect(getEdgeWeight('type-only', { excludeKinds: ['type-only'] })).toBe(0);
+    expect(getWeightedEdgeCount([
+      { path: '/app/a.ts', kind: 'type-only' },
+      { path: '/app/b.ts', kind: 'static' }
+    ], { excludeKinds: ['type-only'] })).toBe(1);
+  });
+});
+
+describe('getDependentEdges', () => {
+  it('should drop dependents that only import through excluded kinds', () => {
+    const target = file('/app/types.ts');
+    const dependents = [
+      file('/app/a.ts', [{ path: '/app/types.ts', kind: 'type-only' }]),
+      file('/app/b.ts', [{ path: '/app/types.ts', kind: 'static' }, { path: '/app/types.ts', kind: 'type-only' }]),
+      file('/app/c.ts', [{ path: '/app/types.ts', kind: 'dynamic' }])
+    ];
+    expect(getDependentEdges(target, dependents)).toEqual([
+      { path: '/app/a.ts', kinds: ['type-only'] },
+      { path: '/app/b.ts', kinds: ['static', 'type-only'] },
+      { path: '/app/c.ts', kinds: ['dynamic'] }
+    ]);
+    expect(getDependentEdges(target, dependents, ['type-only', 'dynamic'])).toEqual([
+      { path: '/app/b.ts', kinds: ['static'] }
+    ]);
+  });
+});
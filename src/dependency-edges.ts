@@ -0,0 +1,104 @@
+import { FileNode, DependencyEdge, ImportKind } from './types.js';
+
+/**
+ * Default weight of each edge kind when counting dependencies for importance.
+ * Runtime imports count fully; type-only and lazily loaded imports, and
+ * references to stylesheets and assets, count less.
+ */
+export const DEFAULT_EDGE_KIND_WEIGHTS: Record<ImportKind, number> = {
+  'static': 1,
+  'side-effect': 1,
+  'require': 1,
+  're-export': 1,
+  'dynamic': 0.5,
+  'type-only': 0.5,
+  'asset': 0.5
+};
+
+/**
+ * Options for filtering and weighting dependency edges
+ */
+export interface EdgeFilterOptions {
+  excludeKinds?: ImportKind[];                   // Edge kinds to ignore entirely
+  weights?: Partial<Record<ImportKind, number>>; // Overrides for DEFAULT_EDGE_KIND_WEIGHTS
+}
+
+/**
+ * Returns the typed dependency edges of a file node. Trees saved before edge
+ * kinds were recorded only have `dependencies`, so those are treated as static.
+ */
+export function getDependencyEdges(node: FileNode): DependencyEdge[] {
+  if (node.dependencyEdges && node.dependencyEdges.length > 0) {
+    return node.dependencyEdges;
+  }
+  return (node.dependencies ?? []).map(depPath => ({ path: depPath, kind: 'static' as ImportKind }));
+}
+
+/**
+ * Filters out edges whose kind is excluded
+ */
+export function filterEdgesByKind(edges: DependencyEdge[], excludeKinds?: ImportKind[]): DependencyEdge[] {
+  if (!excludeKinds || excludeKinds.length === 0) {
+    return edges;
+  }
+  return edges.filter(edge => !excludeKinds.includes(edge.kind));
+}
+
+/**
+ * Returns the weight of a single edge kind
+ */
+export function getEdgeWeight(kind: ImportKind, options: EdgeFilterOptions = {}): number {
+  if (options.excludeKinds?.includes(kind)) {
+    return 0;
+  }
+  return options.weights?.[kind] ?? DEFAULT_EDGE_KIND_WEIGHTS[kind] ?? 1;
+}
+
+/**
+ * Sums edge weights, counting each target path once at its heaviest kind.
+ * A file imported both as a type and at runtime counts as a runtime import.
+ */
+export function getWeightedEdgeCount(edges: DependencyEdge[], options: EdgeFilterOptions = {}): number {
+  const heaviest = new Map<string, number>();
+  for (const edge of edges) {
+    const weight = getEdgeWeight(edge.kind, options);
+    heaviest.set(edge.path, Math.max(heaviest.get(edge.path) ?? 0, weight));
+  }
+
+  let total = 0;
+  heaviest.forEach(weight => total += weight);
+  return total;
+}
+
+/**
+ * Returns the kinds of the edges from one file to another
+ */
+export function getEdgeKindsBetween(from: FileNode, toPath: string): ImportKind[] {
+  return getDependencyEdges(from)
+    .filter(edge => edge.path === toPath)
+    .map(edge => edge.kind);
+}
+
+/**
+ * A file importing another file, with the kinds of its imports
+ */
+export interface DependentEdge {
+  path: string;
+  kinds: ImportKind[];
+}
+
+/**
+ * Returns the edges from dependents into a file, keeping only dependents that
+ * import it through at least one edge kind that is not excluded
+ * @param node The imported file
+ * @param dependents The nodes of the files listed in `node.dependents`
+ * @param excludeKinds Edge kinds to leave out
+ */
+export function getDependentEdges(node: FileNode, dependents: FileNode[], excludeKinds?: ImportKind[]): DependentEdge[] {
+  return dependents
+    .map(dependent => ({
+      path: dependent.path,
+      kinds: getEdgeKindsBetween(dependent, node.path).filter(kind => !excludeKinds?.includes(kind))
+    }))
+    .filter(edge => edge.kinds.length > 0);
+}
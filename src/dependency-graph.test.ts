@@ -0,0 +1,226 @@
+import { buildDependencyGraph, findCircularDependencies, findImportPath, findTransitiveDependencies, findTransitiveDependents } from './dependency-graph';
+import { MermaidGenerator } from './mermaid-generator';
+import { DependencyEdge, FileNode } from './types';
+import { describe, it, expect } from 'vitest';
+
+const file = (filePath: string, dependencyEdges: DependencyEdge[] = []): FileNode => ({
+  path: filePath,
+  name: filePath.split('/').pop()!,
+  isDirectory: false,
+  importance: 5,
+  dependencies: [...new Set(dependencyEdges.map(edge => edge.path))],
+  dependencyEdges,
+  dependents: []
+});
+
+const tree = (...files: FileNode[]): FileNode => ({ path: '/app', name: 'app', isDirectory: true, children: files });
+
+describe('buildDependencyGraph', () => {
+  it('should merge edge kinds per target and drop edges to files outside the tree', () => {
+    const graph = buildDependencyGraph(tree(
+      file('/app/a.ts', [{ path: '/app/b.ts', kind: 'static' }, { path: '/app/b.ts', kind: 'type-only' }, { path: '/elsewhere.ts', kind: 'static' }]),
+      file('/app/b.ts')
+    ));
+    expect(graph.edges.get('/app/a.ts')).toEqual([{ from: '/app/a.ts', to: '/app/b.ts', kinds: ['static', 'type-only'] }]);
+    expect(graph.edges.get('/app/b.ts')).toEqual([]);
+  });
+});
+
+describe('findCircularDependencies', () => {
+  // a -> b -> c -> a is a runtime cycle; d <-> e only through a type import; f is outside any cycle
+  const root = tree(
+    file('/app/a.ts', [{ path: '/app/b.ts', kind: 'static' }]),
+    file('/app/b.ts', [{ path: '/app/c.ts', kind: 'static' }, { path: '/app/f.ts', kind: 'static' }]),
+    file('/app/c.ts', [{ path: '/app/a.ts', kind: 're-export' }]),
+    file('/app/d.ts', [{ path: '/app/e.ts', kind: 'static' }]),
+    file('/app/e.ts', [{ path: '/app/d.ts', kind: 'type-only' }]),
+    file('/app/f.ts', [{ path: '/app/c.ts', kind: 'dynamic' }])
+  );
+
+  it('should return each strongly connected component with its internal edges', () => {
+    const cycles = findCircularDependencies(root);
+    expect(cycles.map(cycle => cycle.files)).toEqual([
+      ['/app/a.ts', '/app/b.ts', '/app/c.ts', '/app/f.ts'],
+      ['/app/d.ts', '/app/e.ts']
+    ]);
+    expect(cycles[1].edges).toEqual([
+      { from: '/app/d.ts', to: '/app/e.ts', kinds: ['static'] },
+      { from: '/app/e.ts', to: '/app/d.ts', kinds: ['type-only'] }
+    ]);
+  });
+
+  it('should leave out excluded edge kinds', () => {
+    const cycles = findCircularDependencies(root, { excludeKinds: ['type-only', 'dynamic'] });
+    expect(cycles.map(cycle => cycle.files)).toEqual([['/app/a.ts', '/app/b.ts', '/app/c.ts']]);
+    expect(cycles[0].edges.map(edge => `${edge.from}->${edge.to}`)).toEqual([
+      '/app/a.ts->/app/b.ts', '/app/b.ts->/app/c.ts', '/app/c.ts->/app/a.ts'
+    ]);
+  });
+
+  it('should handle long import chains without recursion', () => {
+    const files = Array.from({ length: 20000 }, (_, i) =>
+      file(`/app/m${i}.ts`, [{ path: `/app/m${(i + 1) % 20000}.ts`, kind: 'static' }]));
+    const cycles = findCircularDependencies(tree(...files));
+    expect(cycles).toHaveLength(1);
+    expect(cycles[0].files).toHaveLength(20000);
+  });
+});
+
+describe('findTransitiveDependents', () => {
+  // util <- api <- page <- app, util <- types (type-only) <- page, app <- app.test
+  const root = tree(
+    file('/app/util.ts'),
+    file('/app/api.ts', [{ path: '/app/util.ts', kind: 'static' }]),
+    file('/app/types.ts', [{ path: '/app/util.ts', kind: 'type-only' }]),
+    file('/app/page.ts', [{ path: '/app/api.ts', kind: 'static' }, { path: '/app/types.ts', kind: 'static' }]),
+    file('/app/app.ts', [{ path: '/app/page.ts', kind: 'static' }]),
+    file('/app/app.test.ts', [{ path: '/app/app.ts', kind: 'static' }])
+  );
+
+  it('should list dependents at their shortest distance with the files they reach the start through', () => {
+    expect(findTransitiveDependents(buildDependencyGraph(root), ['/app/util.ts'])).toEqual([
+      { path: '/app/api.ts', depth: 1, via: ['/app/util.ts'] },
+      { path: '/app/types.ts', depth: 1, via: ['/app/util.ts'] },
+      { path: '/app/page.ts', depth: 2, via: ['/app/api.ts', '/app/types.ts'] },
+      { path: '/app/app.ts', depth: 3, via: ['/app/page.ts'] },
+      { path: '/app/app.test.ts', depth: 4, via: ['/app/app.ts'] }
+    ]);
+  });
+
+  it('should stop at the maximum depth and skip excluded edge kinds', () => {
+    const graph = buildDependencyGraph(root, { excludeKinds: ['type-only'] });
+    expect(findTransitiveDependents(graph, ['/app/util.ts'], 2).map(file => file.path)).toEqual(['/app/api.ts', '/app/page.ts']);
+    expect(findTransitiveDependents(graph, ['/app/api.ts', '/app/page.ts']).map(file => [file.path, file.depth])).toEqual([
+      ['/app/app.ts', 1], ['/app/app.test.ts', 2]
+    ]);
+  });
+});
+
+describe('findTransitiveDependencies', () => {
+  // app -> page -> api -> util, page -> types -> util (type-only), util -> app is not followed back
+  const root = tree(
+    file('/app/util.ts'),
+    file('/app/api.ts', [{ path: '/app/util.ts', kind: 'static' }]),
+    file('/app/types.ts', [{ path: '/app/util.ts', kind: 'type-only' }]),
+    file('/app/page.ts', [{ path: '/app/api.ts', kind: 'static' }, { path: '/app/types.ts', kind: 'type-only' }]),
+    file('/app/app.ts', [{ path: '/app/page.ts', kind: 'static' }])
+  );
+
+  it('should list everything a file pulls in at its shortest distance', () => {
+    expect(findTransitiveDependencies(buildDependencyGraph(root), ['/app/app.ts'])).toEqual([
+      { path: '/app/page.ts', depth: 1, via: ['/app/app.ts'] },
+      { path: '/app/api.ts', depth: 2, via: ['/app/page.ts'] },
+      { path: '/app/types.ts', depth: 2, via: ['/app/page.ts'] },
+      { path: '/app/util.ts', depth: 3, via: ['/app/api.ts', '/app/types.ts'] }
+    ]);
+  });
+
+  it('should stop at the maximum depth and skip excluded edge kinds', () => {
+    expect(findTransitiveDependencies(buildDependencyGraph(root), ['/app/app.ts'], 1).map(file => file.path)).toEqual(['/app/page.ts']);
+    const graph = buildDependencyGraph(root, { excludeKinds: ['type-only'] });
+    expect(findTransitiveDependencies(graph, ['/app/page.ts']).map(file => file.path)).toEqual(['/app/api.ts', '/app/util.ts']);
+  });
+});
+
+describe('findImportPath', () => {
+  // a -> b -> c -> d and a -> e -> d; the chain through e is shorter
+  const root = tree(
+    file('/app/a.ts', [{ path: '/app/b.ts', kind: 'static' }, { path: '/app/e.ts', kind: 'type-only' }]),
+    file('/app/b.ts', [{ path: '/app/c.ts', kind: 'static' }]),
+    file('/app/c.ts', [{ path: '/app/d.ts', kind: 'static' }]),
+    file('/app/d.ts', [{ path: '/app/a.ts', kind: 'static' }]),
+    file('/app/e.ts', [{ path: '/app/d.ts', kind: 'static' }]),
+    file('/app/f.ts')
+  );
+
+  it('should return the shortest chain of edges to the target', () => {
+    const chain = findImportPath(buildDependencyGraph(root), '/app/a.ts', filePath => filePath === '/app/d.ts');
+    expect(chain).toEqual([
+      { from: '/app/a.ts', to: '/app/e.ts', kinds: ['type-only'] },
+      { from: '/app/e.ts', to: '/app/d.ts', kinds: ['static'] }
+    ]);
+  });
+
+  it('should follow only the remaining edge kinds', () => {
+    const graph = buildDependencyGraph(root, { excludeKinds: ['type-only'] });
+    expect(findImportPath(graph, '/app/a.ts', filePath => filePath === '/app/d.ts')?.map(edge => edge.to)).toEqual([
+      '/app/b.ts', '/app/c.ts', '/app/d.ts'
+    ]);
+  });
+
+  it('should return an empty chain at the target and null when the target is unreachable', () => {
+    const graph = buildDependencyGraph(root);
+    expect(findImportPath(graph, '/app/a.ts', filePath => filePath === '/app/a.ts')).toEqual([]);
+    expect(findImportPath(graph, '/app/a.ts', filePath => filePath === '/app/f.ts')).toBeNull();
+    expect(findImportPath(graph, '/app/missing.ts', () => true)).toBeNull();
+  });
+});
+
+describe('MermaidGenerator cycles', () => {
+  it('should count cycles and color their edges', () => {
+    const root = tree(
+      file('/app/a.ts', [{ path: '/app/b.ts', kind: 'static' }, { path: '/app/c.ts', kind: 'static' }]),
+      file('/app/b.ts', [{ path: '/app/a.ts', kind: 'static' }]),
+      file('/app/c.ts')
+    );
+    const diagram = new MermaidGenerator(root, { style: 'dependency' }).generate();
+    expect(diagram.stats.circularDeps).toBe(1);
+
+    const circularColor = diagram.style.edgeColors.circular;
+    const linkStyles = diagram.code.split('\n').filter(line => line.includes('linkStyle'));
+    expect(linkStyles.filter(line => line.includes(circularColor))).toHaveLength(2);
+    expect(linkStyles.filter(line => line.includes(diagram.style.edgeColors.dependency))).toHaveLength(1);
+  });
+
+  it('should only count cycles among the edges the diagram draws', () => {
+    // a <-> b is drawn; c <-> d is hidden by minImportance and e <-> f by excludeEdgeKinds
+    const root = tree(
+      file('/app/a.ts', [{ path: '/app/b.ts', kind: 'static' }]),
+      file('/app/b.ts', [{ path: '/app/a.ts', kind: 'static' }]),
+      { ...file('/app/c.ts', [{ path: '/app/d.ts', kind: 'static' }]), importance: 1 },
+      file('/app/d.ts', [{ path: '/app/c.ts', kind: 'static' }]),
+      file('/app/e.ts', [{ path: '/app/f.ts', kind: 'static' }]),
+      file('/app/f.ts', [{ path: '/app/e.ts', kind: 'type-only' }])
+    );
+    const diagram = new MermaidGenerator(root, { style: 'dependency', minImportance: 3, excludeEdgeKinds: ['type-only'] }).generate();
+    expect(diagram.stats.circularDeps).toBe(1);
+    const linkStyles = diagram.code.split('\n').filter(line => line.includes('linkStyle'));
+    expect(linkStyles.filter(line => line.includes(diagram.style.edgeColors.circular))).toHaveLength(2);
+
+    // With the full tree drawn, all three cycles count
+    expect(new MermaidGenerator(root, { style: 'dependency' }).generate().stats.circularDeps).toBe(3);
+  });
+
+  it('should not count cycles cut off by maxDepth', () => {
+    const root = tree(
+      file('/app/a.ts', [{ path: '/app/lib/b.ts', kind: 'static' }]),
+      { path: '/app/lib', name: 'lib', isDirectory: true, children: [file('/app/lib/b.ts', [{ path: '/app/a.ts', kind: 'static' }])] }
+    );
+    expect(new MermaidGenerator(root, { style: 'dependency', maxDepth: 2 }).generate().stats.circularDeps).toBe(0);
+    expect(new MermaidGenerator(root, { style: 'dependency', maxDepth: 3 }).generate().stats.circularDeps).toBe(1);
+  });
+});
+
+describe('MermaidGenerator edge kinds', () => {
+  const root = tree(
+    file('/app/a.ts', [{ path: '/app/b.ts', kind: 'static' }, { path: '/app/types.ts', kind: 'type-only' }, { path: '/app/lazy.ts', kind: 'dynamic' }]),
+    file('/app/b.ts'),
+    file('/app/types.ts'),
+    file('/app/lazy.ts')
+  );
+  const edgeLines = (code: string) => code.split('\n').filter(line => line.includes('-->'));
+
+  it('should draw type-only and dynamic edges dotted', () => {
+    const diagram = new MermaidGenerator(root, { style: 'dependency' }).generate();
+    expect(edgeLines(diagram.code)).toHaveLength(3);
+    expect(diagram.code.split('\n').filter(line => line.includes('stroke-dasharray:2,4'))).toHaveLength(2);
+  });
+
+  it('should leave out edges of excluded kinds', () => {
+    const diagram = new MermaidGenerator(root, { style: 'dependency', excludeEdgeKinds: ['type-only', 'dynamic'] }).generate();
+    expect(diagram.stats.edgeCount).toBe(1);
+    expect(edgeLines(diagram.code)).toHaveLength(1);
+    expect(diagram.code).not.toContain('types.ts');
+    expect(diagram.code).not.toContain('lazy.ts');
+  });
+});
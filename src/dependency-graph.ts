@@ -0,0 +1,272 @@
+import { FileNode, ImportKind } from './types.js';
+import { filterEdgesByKind, getDependencyEdges } from './dependency-edges.js';
+
+/**
+ * Options for building the file dependency graph
+ */
+export interface GraphOptions {
+  excludeKinds?: ImportKind[]; // Edge kinds left out of the graph (e.g. ['type-only'])
+}
+
+/**
+ * A dependency of one file on another, with every kind of import between them
+ */
+export interface GraphEdge {
+  from: string;
+  to: string;
+  kinds: ImportKind[];
+}
+
+/**
+ * The dependencies between the files of a tree, keyed by path.
+ * Only edges whose target is a file in the tree are included.
+ */
+export interface DependencyGraph {
+  files: Map<string, FileNode>;
+  edges: Map<string, GraphEdge[]>; // Outgoing edges per file
+}
+
+/**
+ * A set of files that import each other in a cycle, directly or indirectly
+ */
+export interface CircularDependency {
+  files: string[];     // Member files, sorted
+  edges: GraphEdge[];  // Edges between member files
+}
+
+function collectFileNodes(node: FileNode, files: Map<string, FileNode>): void {
+  if (!node.isDirectory) {
+    files.set(node.path, node);
+  }
+  node.children?.forEach(child => collectFileNodes(child, files));
+}
+
+/**
+ * Builds the dependency graph of a file tree
+ */
+export function buildDependencyGraph(root: FileNode, options: GraphOptions = {}): DependencyGraph {
+  const files = new Map<string, FileNode>();
+  collectFileNodes(root, files);
+
+  const edges = new Map<string, GraphEdge[]>();
+  files.forEach((node, filePath) => {
+    const byTarget = new Map<string, GraphEdge>();
+    for (const edge of filterEdgesByKind(getDependencyEdges(node), options.excludeKinds)) {
+      if (!files.has(edge.path)) continue;
+      const existing = byTarget.get(edge.path);
+      if (!existing) {
+        byTarget.set(edge.path, { from: filePath, to: edge.path, kinds: [edge.kind] });
+      } else if (!existing.kinds.includes(edge.kind)) {
+        existing.kinds.push(edge.kind);
+      }
+    }
+    edges.set(filePath, [...byTarget.values()]);
+  });
+
+  return { files, edges };
+}
+
+/**
+ * Finds the strongly connected components of the graph with Tarjan's
+ * algorithm, iteratively so deep import chains cannot overflow the stack.
+ * Components are returned in reverse topological order.
+ */
+function findStronglyConnectedComponents(graph: DependencyGraph): string[][] {
+  let nextIndex = 0;
+  const indices = new Map<string, number>();
+  const lowLinks = new Map<string, number>();
+  const stack: string[] = [];
+  const onStack = new Set<string>();
+  const components: string[][] = [];
+
+  const visit = (filePath: string) => {
+    indices.set(filePath, nextIndex);
+    lowLinks.set(filePath, nextIndex);
+    nextIndex++;
+    stack.push(filePath);
+    onStack.add(filePath);
+  };
+
+  for (const start of graph.files.keys()) {
+    if (indices.has(start)) continue;
+
+    // Each frame is a file on the current path and the next of its edges to follow
+    const frames: { path: string; edgeIndex: number }[] = [{ path: start, edgeIndex: 0 }];
+    visit(start);
+
+    while (frames.length > 0) {
+      const frame = frames[frames.length - 1];
+      const edges = graph.edges.get(frame.path) ?? [];
+
+      if (frame.edgeIndex < edges.length) {
+        const target = edges[frame.edgeIndex++].to;
+        if (!indices.has(target)) {
+          visit(target);
+          frames.push({ path: target, edgeIndex: 0 });
+        } else if (onStack.has(target)) {
+          lowLinks.set(frame.path, Math.min(lowLinks.get(frame.path)!, indices.get(target)!));
+        }
+        continue;
+      }
+
+      frames.pop();
+      if (frames.length > 0) {
+        const parent = frames[frames.length - 1].path;
+        lowLinks.set(parent, Math.min(lowLinks.get(parent)!, lowLinks.get(frame.path)!));
+      }
+
+      if (lowLinks.get(frame.path) === indices.get(frame.path)) {
+        const component: string[] = [];
+        let member: string;
+        do {
+          member = stack.pop()!;
+          onStack.delete(member);
+          component.push(member);
+        } while (member !== frame.path);
+        components.push(component);
+      }
+    }
+  }
+
+  return components;
+}
+
+/**
+ * Finds the circular dependencies of a file tree: every group of files that
+ * import each other, directly or through other members, with the edges
+ * between them. The largest cycles come first.
+ * @param root The file tree
+ * @param options Edge kinds to leave out, e.g. ['type-only'] for runtime cycles only
+ */
+export function findCircularDependencies(root: FileNode, options: GraphOptions = {}): CircularDependency[] {
+  return findGraphCycles(buildDependencyGraph(root, options));
+}
+
+/**
+ * Finds the circular dependencies formed by the edges of a graph, for callers
+ * that have already narrowed the graph (e.g. to the edges a diagram draws)
+ */
+export function findGraphCycles(graph: DependencyGraph): CircularDependency[] {
+  return findStronglyConnectedComponents(graph)
+    .filter(component => component.length > 1 ||
+      (graph.edges.get(component[0]) ?? []).some(edge => edge.to === component[0]))
+    .map(component => {
+      const members = new Set(component);
+      return {
+        files: [...component].sort(),
+        edges: component
+          .flatMap(filePath => graph.edges.get(filePath) ?? [])
+          .filter(edge => members.has(edge.to))
+          .sort((a, b) => a.from.localeCompare(b.from) || a.to.localeCompare(b.to))
+      };
+    })
+    .sort((a, b) => b.files.length - a.files.length || a.files[0].localeCompare(b.files[0]));
+}
+
+/**
+ * A file reached by walking the graph outward from one or more starting files
+ */
+export interface ReachedFile {
+  path: string;
+  depth: number;  // Imports between the file and the nearest starting file (1 = a direct dependency or dependent)
+  via: string[];  // Files one hop closer to the start that lead to this file
+}
+
+/**
+ * Returns the incoming edges of every file in the graph
+ */
+export function getIncomingEdges(graph: DependencyGraph): Map<string, GraphEdge[]> {
+  const incoming = new Map<string, GraphEdge[]>();
+  graph.files.forEach((_node, filePath) => incoming.set(filePath, []));
+  graph.edges.forEach(edges => edges.forEach(edge => incoming.get(edge.to)!.push(edge)));
+  return incoming;
+}
+
+// Breadth-first walk from the starting files, following `neighbors` of each file
+function walkBreadthFirst(graph: DependencyGraph, startPaths: string[], maxDepth: number, neighbors: (filePath: string) => string[]): ReachedFile[] {
+  const visited = new Set(startPaths);
+  const reachedFiles: ReachedFile[] = [];
+  let frontier = startPaths.filter(filePath => graph.files.has(filePath));
+
+  for (let depth = 1; depth <= maxDepth && frontier.length > 0; depth++) {
+    const reached = new Map<string, Set<string>>();
+    for (const filePath of frontier) {
+      for (const neighbor of neighbors(filePath)) {
+        if (visited.has(neighbor)) continue;
+        if (!reached.has(neighbor)) reached.set(neighbor, new Set());
+        reached.get(neighbor)!.add(filePath);
+      }
+    }
+
+    const level = [...reached.keys()].sort();
+    level.forEach(filePath => {
+      visited.add(filePath);
+      reachedFiles.push({ path: filePath, depth, via: [...reached.get(filePath)!].sort() });
+    });
+    frontier = level;
+  }
+
+  return reachedFiles;
+}
+
+/**
+ * Walks dependents breadth-first from the starting files and returns every
+ * file that imports one of them, directly or transitively, at its shortest
+ * hop distance. Starting files are not included.
+ * @param graph The dependency graph
+ * @param startPaths Paths of the starting files
+ * @param maxDepth Maximum hop distance to follow (default: unlimited)
+ */
+export function findTransitiveDependents(graph: DependencyGraph, startPaths: string[], maxDepth: number = Infinity): ReachedFile[] {
+  const incoming = getIncomingEdges(graph);
+  return walkBreadthFirst(graph, startPaths, maxDepth, filePath => (incoming.get(filePath) ?? []).map(edge => edge.from));
+}
+
+/**
+ * Walks dependencies breadth-first from the starting files and returns every
+ * local file they pull in, directly or transitively, at its shortest hop
+ * distance. Starting files are not included.
+ * @param graph The dependency graph
+ * @param startPaths Paths of the starting files
+ * @param maxDepth Maximum hop distance to follow (default: unlimited)
+ */
+export function findTransitiveDependencies(graph: DependencyGraph, startPaths: string[], maxDepth: number = Infinity): ReachedFile[] {
+  return walkBreadthFirst(graph, startPaths, maxDepth, filePath => (graph.edges.get(filePath) ?? []).map(edge => edge.to));
+}
+
+/**
+ * Finds a shortest chain of imports from one file to the nearest file that
+ * satisfies `isTarget`, as the edges to follow in order. Returns an empty
+ * chain when the starting file is itself a target, and null when no target
+ * is reachable.
+ * @param graph The dependency graph
+ * @param fromPath Path of the importing file
+ * @param isTarget Whether a file ends the search
+ */
+export function findImportPath(graph: DependencyGraph, fromPath: string, isTarget: (filePath: string) => boolean): GraphEdge[] | null {
+  if (!graph.files.has(fromPath)) return null;
+  if (isTarget(fromPath)) return [];
+
+  // Edge that first reached each file, to walk the chain back from the target
+  const reachedBy = new Map<string, GraphEdge | null>([[fromPath, null]]);
+  let frontier = [fromPath];
+  while (frontier.length > 0) {
+    const next: string[] = [];
+    for (const filePath of frontier) {
+      for (const edge of graph.edges.get(filePath) ?? []) {
+        if (reachedBy.has(edge.to)) continue;
+        reachedBy.set(edge.to, edge);
+        if (isTarget(edge.to)) {
+          const chain: GraphEdge[] = [];
+          for (let step: GraphEdge | null = edge; step; step = reachedBy.get(step.from)!) {
+            chain.unshift(step);
+          }
+          return chain;
+        }
+        next.push(edge.to);
+      }
+    }
+    frontier = next;
+  }
+  return null;
+}
@@ -1,5 +1,10 @@
-import { normalizePath, toPlatformPath, globToRegExp } from './file-utils';
-import { describe, it, expect } from 'vitest';
+import { normalizePath, toPlatformPath, expandDynamicImportPatterns, scanDirectory, getLastScanStats, buildDependentMap, updateChangedFileNode, calculateImportance } from './file-utils';
+import { globToRegExp, expandBraces, matchesGlobPatterns, isGlobPattern } from './glob-utils';
+import { setConfig } from './global-state';
+import { DependencyEdge, FileNode, SymlinkPolicy } from './types';
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
 import * as path from 'path';
 
 describe('normalizePath', () => {
@@ -114,12 +119,22 @@ describe('toPlatformPath', () => {
 });
 
 describe('globToRegExp', () => {
+  it('should match case, braces and extglobs literally when options turn them off', () => {
+    expect(globToRegExp('*.TS').test('a.ts')).toBe(true);
+    expect(globToRegExp('*.TS', { caseSensitive: true }).test('a.ts')).toBe(false);
+    expect(globToRegExp('*.{js,ts}', { braces: false }).test('a.js')).toBe(false);
+    expect(globToRegExp('*.{js,ts}', { braces: false }).test('a.{js,ts}')).toBe(true);
+    expect(globToRegExp('@(a|b).ts', { extglobs: false }).test('a.ts')).toBe(false);
+    expect(globToRegExp('x!(a).ts', { extglobs: false }).test('x!(a).ts')).toBe(true);
+    expect(globToRegExp('x!(a).ts', { extglobs: false }).test('xb.ts')).toBe(false);
+  });
+
   it('should convert basic wildcard *', () => {
     const regex = globToRegExp('*.ts');
     expect(regex.test('file.ts')).toBe(true);
     expect(regex.test('other.ts')).toBe(true);
     expect(regex.test('file.js')).toBe(false);
-    // The globToRegExp implementation has a (?:.*/)? prefix, making it match anywhere.
+    // Patterns without a leading '/' match at any depth
     expect(regex.test('directory/file.ts')).toBe(true); 
   });
 
@@ -133,10 +148,7 @@ describe('globToRegExp', () => {
   });
 
   it('should handle ** for directory globbing', () => {
-    // Referring to the actual implementation in file-utils.ts:
-    // If pattern starts with '**/', it's removed and prefix '(?:.*/)?' is added.
-    // Then '**' is replaced by '.*'
-    // So, '**/test/*.js' becomes regex /^(?:.*\/)?test\/[^/\\]*\.js$/i
+    // '**/' matches zero or more whole path segments
     let regex = globToRegExp('**/test/*.js');
     expect(regex.test('some/other/test/file.js')).toBe(true);
     expect(regex.test('test/file.js')).toBe(true); 
@@ -144,9 +156,8 @@ describe('globToRegExp', () => {
     expect(regex.test('file.js')).toBe(false); // Does not match because test/ is missing
     expect(regex.test('deep/down/test/app.js')).toBe(true);
 
-    // 'src/**/file.ts' becomes /^(?:.*\/)?src\/.*\/file\.ts$/i
     regex = globToRegExp('src/**/file.ts');
-    expect(regex.test('src/file.ts')).toBe(false); // This is false because '.*' needs to match something between 'src/' and '/file.ts' if there are two slashes.
+    expect(regex.test('src/file.ts')).toBe(true); // '**' also matches no directories
     expect(regex.test('src/sub/file.ts')).toBe(true);
     expect(regex.test('src/sub/sub2/file.ts')).toBe(true);
     expect(regex.test('project/src/sub/file.ts')).toBe(true); // Matches anywhere due to prefix
@@ -176,7 +187,7 @@ describe('globToRegExp', () => {
   it('should handle patterns with directory components', () => {
     let regex = globToRegExp('src/**/*.ts');
     expect(regex.test('src/component/file.ts')).toBe(true); // src/ANY/ANY.ts
-    expect(regex.test('src/file.ts')).toBe(false); // Fails: needs a segment for '*' after 'src/' and before '.ts', due to how ** and * are expanded
+    expect(regex.test('src/file.ts')).toBe(true); // '**' also matches no directories
     expect(regex.test('src/foo/file.ts')).toBe(true); // Example that should pass
     expect(regex.test('lib/file.ts')).toBe(false); 
     expect(regex.test('project/src/component/file.ts')).toBe(true); 
@@ -190,30 +201,21 @@ describe('globToRegExp', () => {
   });
 
   it('should handle more complex patterns', () => {
-    // Actual pattern: ^(?:.*\/)?src\/.*\/test[^/\\]*\/.*/[^/\\]*\.spec\.ts$
     let regex = globToRegExp('src/**/test*/**/*.spec.ts');
-    // This path does not have enough segments for all the glob parts:
-    // src / (seg for 1st **) / (seg for test*) / (seg for 2nd **) / (seg for *.spec.ts)
-    expect(regex.test('src/components/test-utils/button.spec.ts')).toBe(false);
-    // This one should work:
-    // src / (components) / (test-utils) / (core) / (button.spec.ts)
+    // Either '**' may match no directories
+    expect(regex.test('src/components/test-utils/button.spec.ts')).toBe(true);
     expect(regex.test('src/components/test-utils/core/button.spec.ts')).toBe(true);
-    
-    // Original tests that passed - let's re-verify their logic
-    // src/test/service/data.spec.ts
-    // src/test/service/data.spec.ts has 3 segments after src. Regex needs 4.
-    expect(regex.test('src/test/service/data.spec.ts')).toBe(false); 
-    
-    // src/core/testing/another.spec.ts has 3 segments after src. Regex needs 4.
-    expect(regex.test('src/core/testing/another.spec.ts')).toBe(false); 
+    expect(regex.test('src/test/service/data.spec.ts')).toBe(true); 
+    expect(regex.test('src/core/testing/another.spec.ts')).toBe(true); 
+    expect(regex.test('src/core/other/another.spec.ts')).toBe(false); 
 
     expect(regex.test('src/components/test-utils/button.spec.js')).toBe(false);
-    // other/src/components/test-utils/core/button.spec.ts has 4 segments after src (when considering the 'other/' part is stripped by (?:.*\/)?)
     expect(regex.test('other/src/components/test-utils/core/button.spec.ts')).toBe(true); 
   });
 
   it('should handle patterns that look like regex special characters by escaping them', () => {
-    let regex = globToRegExp('file.[name].ts'); 
+    // Brackets form a character class unless escaped
+    let regex = globToRegExp('file.\\[name\\].ts'); 
     expect(regex.test('file.[name].ts')).toBe(true);
     expect(regex.test('fileX[name].ts')).toBe(false); 
     expect(regex.test('file.name.ts')).toBe(false); 
@@ -259,11 +261,308 @@ describe('globToRegExp', () => {
     expect(regex.test('node_modules_extra')).toBe(false); 
   });
 
-  it('should handle leading slash in glob pattern', () => {
-    const regex = globToRegExp('/abs/path/*.txt');
-    expect(regex.test('/abs/path/file.txt')).toBe(true); 
-    expect(regex.test('abs/path/file.txt')).toBe(false); 
+  it('should anchor patterns with a leading slash to the root', () => {
+    let regex = globToRegExp('/abs/path/*.txt');
+    expect(regex.test('abs/path/file.txt')).toBe(true); 
     expect(regex.test('project/abs/path/file.txt')).toBe(false); 
-    expect(regex.test('project//abs/path/file.txt')).toBe(true); 
+    expect(regex.test('abs/path/sub/file.txt')).toBe(false); 
+
+    regex = globToRegExp('/logs');
+    expect(regex.test('logs')).toBe(true);
+    expect(regex.test('src/logs')).toBe(false);
+    expect(globToRegExp('logs').test('src/logs')).toBe(true);
+  });
+
+  it('should expand brace alternatives and ranges', () => {
+    const regex = globToRegExp('**/*.{ts,tsx}');
+    expect(regex.test('src/app.ts')).toBe(true);
+    expect(regex.test('src/App.tsx')).toBe(true);
+    expect(regex.test('src/app.js')).toBe(false);
+
+    expect(globToRegExp('{src,lib}/**/index.js').test('lib/a/index.js')).toBe(true);
+    expect(globToRegExp('{src,lib}/**/index.js').test('test/index.js')).toBe(false);
+    expect(globToRegExp('v{1..3}.md').test('v2.md')).toBe(true);
+    expect(globToRegExp('v{1..3}.md').test('v4.md')).toBe(false);
+    expect(expandBraces('a{b,c{d,e}}f')).toEqual(['abf', 'acdf', 'acef']);
+    expect(expandBraces('version_{10}.js')).toEqual(['version_{10}.js']);
+  });
+
+  it('should match character classes within one path segment', () => {
+    const regex = globToRegExp('[Tt]est*');
+    expect(regex.test('Test.ts')).toBe(true);
+    expect(regex.test('src/test-utils')).toBe(true);
+    expect(regex.test('best.ts')).toBe(false);
+
+    expect(globToRegExp('file[!0-9].ts').test('fileA.ts')).toBe(true);
+    expect(globToRegExp('file[!0-9].ts').test('file1.ts')).toBe(false);
+    expect(globToRegExp('a[!x]b').test('a/b')).toBe(false);
+    expect(globToRegExp('v[[:digit:]].md').test('v7.md')).toBe(true);
+    expect(globToRegExp('v[[:digit:]].md').test('vx.md')).toBe(false);
+  });
+
+  it('should support extglobs', () => {
+    expect(globToRegExp('*.@(js|ts)').test('a.ts')).toBe(true);
+    expect(globToRegExp('*.@(js|ts)').test('a.css')).toBe(false);
+    expect(globToRegExp('file?(.min).js').test('file.js')).toBe(true);
+    expect(globToRegExp('file?(.min).js').test('file.min.js')).toBe(true);
+    expect(globToRegExp('+(ab).txt').test('ababab.txt')).toBe(true);
+    expect(globToRegExp('+(ab).txt').test('.txt')).toBe(false);
+    expect(globToRegExp('*(ab).txt').test('.txt')).toBe(true);
+
+    const regex = globToRegExp('src/!(vendor|generated)/*.ts');
+    expect(regex.test('src/app/main.ts')).toBe(true);
+    expect(regex.test('src/vendor/lib.ts')).toBe(false);
+    expect(regex.test('src/generated/api.ts')).toBe(false);
+    expect(regex.test('src/vendored/lib.ts')).toBe(true);
+    expect(globToRegExp('!(foo).ts').test('foo.ts')).toBe(false);
+    expect(globToRegExp('!(foo).ts').test('bar.ts')).toBe(true);
+  });
+
+  it('should negate patterns with a leading !', () => {
+    const regex = globToRegExp('!**/*.ts');
+    expect(regex.test('src/app.ts')).toBe(false);
+    expect(regex.test('src/app.js')).toBe(true);
+  });
+});
+
+describe('matchesGlobPatterns', () => {
+  it('should let later negated patterns re-include paths', () => {
+    const patterns = ['**/generated/**', '!**/generated/keep.ts', '**/*.snap'];
+    expect(matchesGlobPatterns('src/generated/api.ts', patterns)).toBe(true);
+    expect(matchesGlobPatterns('src/generated/keep.ts', patterns)).toBe(false);
+    expect(matchesGlobPatterns('src\\__snapshots__\\a.snap', patterns)).toBe(true);
+    expect(matchesGlobPatterns('src/index.ts', patterns)).toBe(false);
+    expect(matchesGlobPatterns('src/index.ts', ['!src/index.ts'])).toBe(false);
+  });
+
+  it('should tell globs from literal paths', () => {
+    expect(isGlobPattern('src/**/*.ts')).toBe(true);
+    expect(isGlobPattern('src/*.{ts,tsx}')).toBe(true);
+    expect(isGlobPattern('src/index.ts')).toBe(false);
+  });
+});
+
+describe('expandDynamicImportPatterns', () => {
+  const file = (filePath: string, dynamicImportPatterns?: string[]): FileNode => ({
+    path: filePath, name: path.basename(filePath), isDirectory: false, dependencies: [], dependencyEdges: [], dependents: [],
+    ...(dynamicImportPatterns ? { dynamicImportPatterns } : {})
+  });
+
+  it('should add speculative dynamic edges to every matching file', () => {
+    const i18n = file('/app/src/i18n.ts', ['/app/src/locales/*.json']);
+    const en = file('/app/src/locales/en.json');
+    const de = file('/app/src/locales/de.json');
+    const nested = file('/app/src/locales/extra/fr.json');
+    const tree: FileNode = { path: '/app', name: 'app', isDirectory: true, children: [i18n, en, de, nested] };
+
+    expandDynamicImportPatterns(tree);
+    expandDynamicImportPatterns(tree);
+
+    expect(i18n.dependencies).toEqual(['/app/src/locales/en.json', '/app/src/locales/de.json']);
+    expect(i18n.dependencyEdges).toEqual([
+      { path: '/app/src/locales/en.json', kind: 'dynamic', speculative: true },
+      { path: '/app/src/locales/de.json', kind: 'dynamic', speculative: true }
+    ]);
+    expect(en.dependents).toEqual(['/app/src/i18n.ts']);
+    expect(nested.dependents).toEqual([]);
+  });
+});
+
+describe('calculateImportance', () => {
+  // Two importers each reach one library per kind: statically, as types only, and through a dynamic import
+  const createTree = (): FileNode => {
+    const file = (name: string, dependencyEdges: DependencyEdge[] = []): FileNode => ({
+      path: `/app/${name}`,
+      name,
+      isDirectory: false,
+      importance: 1,
+      dependencies: dependencyEdges.map(edge => edge.path),
+      dependencyEdges
+    });
+    const imports: DependencyEdge[] = [
+      { path: '/app/static.ts', kind: 'static' },
+      { path: '/app/types.ts', kind: 'type-only' },
+      { path: '/app/lazy.ts', kind: 'dynamic' }
+    ];
+    const tree: FileNode = {
+      path: '/app',
+      name: 'app',
+      isDirectory: true,
+      children: [file('a.ts', imports), file('b.ts', imports), file('static.ts'), file('types.ts'), file('lazy.ts')]
+    };
+    buildDependentMap(tree);
+    return tree;
+  };
+  const importanceOf = (tree: FileNode, name: string) => tree.children!.find(child => child.name === name)!.importance;
+
+  it('should count type-only and dynamic dependents for less than static ones', () => {
+    const tree = createTree();
+    calculateImportance(tree);
+    expect(importanceOf(tree, 'static.ts')).toBe(3);
+    expect(importanceOf(tree, 'types.ts')).toBe(2);
+    expect(importanceOf(tree, 'lazy.ts')).toBe(2);
+  });
+
+  it('should leave excluded kinds out of the score', () => {
+    const tree = createTree();
+    calculateImportance(tree, { excludeKinds: ['type-only', 'dynamic'] });
+    expect(importanceOf(tree, 'static.ts')).toBe(3);
+    expect(importanceOf(tree, 'types.ts')).toBe(1);
+    expect(importanceOf(tree, 'lazy.ts')).toBe(1);
+    // Only the static import is left for the importers: 1 + 1
+    expect(importanceOf(tree, 'a.ts')).toBe(2);
+  });
+});
+
+describe('incremental scans', () => {
+  let root: string;
+
+  const findFile = (tree: FileNode, name: string): FileNode =>
+    tree.children!.find(child => child.name === name)!;
+
+  beforeAll(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'filescope-incremental-'));
+    fs.writeFileSync(path.join(root, 'a.ts'), 'import { b } from "./b";\n');
+    fs.writeFileSync(path.join(root, 'b.ts'), 'export const b = 1;\n');
+    fs.writeFileSync(path.join(root, 'c.ts'), 'import { b } from "./b";\n');
+  });
+
+  afterAll(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  it('should only re-analyze files whose content changed', async () => {
+    const first = await scanDirectory(root);
+    expect(getLastScanStats()?.reanalyzed).toBe(3);
+    expect(findFile(first, 'a.ts').contentHash).toMatch(/^[0-9a-f]{40}$/);
+
+    // Same content with a new mtime is reused; new content is re-analyzed
+    const later = new Date(Date.now() + 60_000);
+    fs.utimesSync(path.join(root, 'b.ts'), later, later);
+    fs.writeFileSync(path.join(root, 'c.ts'), 'export const c = 3;\n');
+
+    const second = await scanDirectory(root, root, first);
+    expect(getLastScanStats()?.reanalyzedFiles).toEqual([path.join(root, 'c.ts')]);
+    expect(getLastScanStats()?.reused).toBe(2);
+    expect(findFile(second, 'a.ts').dependencies).toEqual([path.join(root, 'b.ts')]);
+    expect(findFile(second, 'b.ts').mtimeMs).toBe(fs.statSync(path.join(root, 'b.ts')).mtimeMs);
+    expect(findFile(second, 'c.ts').dependencies).toEqual([]);
+  });
+
+  it('should re-analyze a changed file on the watcher path and move its dependents', async () => {
+    const tree = await scanDirectory(root);
+    buildDependentMap(tree);
+    expect(await updateChangedFileNode(path.join(root, 'a.ts'), tree, root)).toBe(false);
+
+    fs.writeFileSync(path.join(root, 'a.ts'), 'import { c } from "./c";\n');
+    expect(await updateChangedFileNode(path.join(root, 'a.ts'), tree, root)).toBe(true);
+    expect(findFile(tree, 'a.ts').dependencies).toEqual([path.join(root, 'c.ts')]);
+    expect(findFile(tree, 'b.ts').dependents).toEqual([]);
+    expect(findFile(tree, 'c.ts').dependents).toEqual([path.join(root, 'a.ts')]);
+  });
+});
+
+describe('incremental scans after files are added or types move', () => {
+  let root: string;
+
+  const write = (relativePath: string, content: string) => {
+    fs.mkdirSync(path.dirname(path.join(root, relativePath)), { recursive: true });
+    fs.writeFileSync(path.join(root, relativePath), content);
+  };
+  const findFile = (tree: FileNode, relativePath: string): FileNode => {
+    let node = tree;
+    for (const name of relativePath.split('/')) {
+      node = node.children!.find(child => child.name === name)!;
+    }
+    return node;
+  };
+
+  beforeAll(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'filescope-incremental-added-'));
+  });
+
+  afterAll(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  it('should resolve an import to a target file added since the previous scan', async () => {
+    write('a.ts', 'import { b } from "./b";\n');
+    const first = await scanDirectory(root);
+    expect(findFile(first, 'a.ts').dependencies).toEqual([]);
+
+    write('b.ts', 'export const b = 1;\n');
+    const second = await scanDirectory(root, root, first);
+    expect(findFile(second, 'a.ts').dependencies).toEqual([path.join(root, 'b.ts')]);
+    expect(getLastScanStats()?.reanalyzedFiles).toEqual([path.join(root, 'a.ts'), path.join(root, 'b.ts')]);
+  });
+
+  it('should re-resolve Java imports when a type moves between existing files', async () => {
+    write('java/App.java', 'package app;\nimport app.model.User;\nclass App {}\n');
+    write('java/model/Old.java', 'package app.model;\npublic class User {}\n');
+    write('java/model/New.java', 'package app.model;\nclass Placeholder {}\n');
+    const first = await scanDirectory(root);
+    expect(findFile(first, 'java/App.java').dependencies).toEqual([path.join(root, 'java/model/Old.java')]);
+
+    write('java/model/Old.java', 'package app.model;\nclass Placeholder {}\n');
+    write('java/model/New.java', 'package app.model;\npublic class User {}\n');
+    const second = await scanDirectory(root, root, first);
+    expect(findFile(second, 'java/App.java').dependencies).toEqual([path.join(root, 'java/model/New.java')]);
+    // Files of other languages keep their stored edges
+    expect(getLastScanStats()?.reanalyzedFiles).not.toContain(path.join(root, 'a.ts'));
+  });
+});
+
+describe('symbolic links', () => {
+  let outside: string;
+  let root: string;
+
+  const scanWith = async (symlinks: SymlinkPolicy) => {
+    setConfig({ baseDirectory: root, excludePatterns: [], scan: { symlinks }, version: '1.0.0' });
+    const nodes: FileNode[] = [];
+    const collect = (node: FileNode) => {
+      if (!node.isDirectory) nodes.push(node);
+      node.children?.forEach(collect);
+    };
+    collect(await scanDirectory(root));
+    return new Map(nodes.map(node => [path.relative(root, node.path).split(path.sep).join('/'), node]));
+  };
+
+  beforeAll(() => {
+    outside = fs.mkdtempSync(path.join(os.tmpdir(), 'filescope-symlinks-'));
+    root = path.join(outside, 'project');
+    fs.mkdirSync(path.join(root, 'src', 'shared'), { recursive: true });
+    fs.mkdirSync(path.join(outside, 'ext'));
+    fs.writeFileSync(path.join(root, 'src', 'a.ts'), 'import { b } from "../linked/b";\n');
+    fs.writeFileSync(path.join(root, 'src', 'shared', 'b.ts'), 'export const b = 1;\n');
+    fs.writeFileSync(path.join(outside, 'ext', 'util.ts'), 'export const util = 1;\n');
+    fs.symlinkSync(path.join(root, 'src', 'shared'), path.join(root, 'linked'), 'dir');
+    fs.symlinkSync(path.join(root, 'src', 'a.ts'), path.join(root, 'alias.ts'), 'file');
+    fs.symlinkSync(path.join(outside, 'ext'), path.join(root, 'vendor'), 'dir');
+    fs.symlinkSync(path.join(outside, 'ext'), path.join(outside, 'ext', 'loop'), 'dir');
+  });
+
+  afterAll(() => {
+    fs.rmSync(outside, { recursive: true, force: true });
+  });
+
+  it('should skip links when ignoring them and resolve imports through links to the target', async () => {
+    const nodes = await scanWith('ignore');
+    expect([...nodes.keys()].sort()).toEqual(['src/a.ts', 'src/shared/b.ts']);
+    expect(nodes.get('src/a.ts')!.dependencies).toEqual([path.join(root, 'src', 'shared', 'b.ts')]);
+  });
+
+  it('should follow links outside the project once and leave links inside it to their targets', async () => {
+    const nodes = await scanWith('follow');
+    expect([...nodes.keys()].sort()).toEqual(['src/a.ts', 'src/shared/b.ts', 'vendor/util.ts']);
+    expect(nodes.get('src/a.ts')!.dependencies).toEqual([path.join(root, 'src', 'shared', 'b.ts')]);
+    expect(getLastScanStats()?.symlinks).toBe(4);
+  });
+
+  it('should record links as link nodes', async () => {
+    const nodes = await scanWith('link');
+    expect(nodes.get('linked')!.symlinkTarget).toBe(path.join(root, 'src', 'shared'));
+    expect(nodes.get('alias.ts')!.symlinkTarget).toBe(path.join(root, 'src', 'a.ts'));
+    expect(nodes.get('vendor')!.symlinkTarget).toBe(fs.realpathSync(path.join(outside, 'ext')));
+    expect(nodes.has('vendor/util.ts')).toBe(false);
   });
 });
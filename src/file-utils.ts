@@ -2,11 +2,18 @@ import * as fs from 'fs';
 import * as fsPromises from 'fs/promises';
 import * as path from 'path';
 import * as fsSync from "fs";
-import { FileNode, PackageDependency, FileTreeConfig } from "./types.js";
+import { FileNode, PackageDependency, FileTreeConfig, DependencyEdge, ImportKind, ExternalDependency, SymlinkPolicy } from "./types.js";
 import { normalizeAndResolvePath } from "./storage-utils.js";
 import { getProjectRoot, getConfig, addExclusionPattern } from './global-state.js';
 import { saveFileTree } from './storage-utils.js'; // Import saveFileTree
 import { log } from './logger.js'; // Import the logger
+import { ExtractedImport } from './import-extractor.js';
+import { getAnalyzerForFile, getLanguageAnalyzers, loadLanguageAnalyzers, ResolvedPackage } from './language-analyzers.js';
+import { createImportParser, createLimiter, createMainThreadParser, DEFAULT_SCAN_CONCURRENCY, hashContent, ImportParser, ScanStats } from './scan-pipeline.js';
+import { clearResolverCache, getCanonicalPath } from './module-resolver.js';
+import { clearIgnoreFileCache, isIgnoredByIgnoreFiles } from './ignore-files.js';
+import { isGlobPattern, matchesGlobPatterns } from './glob-utils.js';
+import { EdgeFilterOptions, getDependencyEdges, getEdgeKindsBetween, getEdgeWeight, getWeightedEdgeCount } from './dependency-edges.js';
 
 /**
  * Normalizes a file path for consistent comparison across platforms
@@ -46,27 +53,8 @@ export function toPlatformPath(normalizedPath: string): string {
 }
 
 const SUPPORTED_EXTENSIONS = [
-  ".py", ".c", ".cpp", ".h", ".rs", ".lua", ".js", ".jsx", ".ts",
-  ".tsx", ".zig", ".php", ".blade.php", ".phtml", ".cs", ".java" ];
-
-const IMPORT_PATTERNS: { [key: string]: RegExp } = {
-  '.js': /(?:import\s+(?:(?:[\w*\s{},]*)\s+from\s+)?["']([^"']+)["'])|(?:require\(["']([^"']+)["']\))|(?:import\s*\(["']([^"']+)["']\))/g,
-  '.jsx': /(?:import\s+(?:[^;]*?)\s+from\s+["']([^"']+)["'])|(?:import\s+["']([^"']+)["'])|(?:require\(["']([^"']+)["']\))|(?:import\s*\(["']([^"']+)["']\))/g,
-  '.ts': /(?:import\s+(?:(?:[\w*\s{},]*)\s+from\s+)?["']([^"']+)["'])|(?:require\(["']([^"']+)["']\))|(?:import\s*\(["']([^"']+)["']\))/g,
-  '.tsx': /(?:import\s+(?:[^;]*?)\s+from\s+["']([^"']+)["'])|(?:import\s+["']([^"']+)["'])|(?:require\(["']([^"']+)["']\))|(?:import\s*\(["']([^"']+)["']\))/g,
-  '.py': /(?:import\s+[\w.]+|from\s+[\w.]+\s+import\s+[\w*]+)/g,
-  '.c': /#include\s+["<][^">]+[">]/g,
-  '.cpp': /#include\s+["<][^">]+[">]/g,
-  '.h': /#include\s+["<][^">]+[">]/g,
-  '.rs': /use\s+[\w:]+|mod\s+\w+/g,
-  '.lua': /require\s*\(['"][^'"]+['"]\)/g,
-  '.zig': /@import\s*\(['"][^'"]+['"]\)|const\s+[\w\s,{}]+\s*=\s*@import\s*\(['"][^'"]+['"]\)/g,
-  '.php': /(?:(?:require|require_once|include|include_once)\s*\(?["']([^"']+)["']\)?)|(?:use\s+([A-Za-z0-9\\]+(?:\s+as\s+[A-Za-z0-9]+)?);)/g,
-  '.blade.php': /@(?:include|extends|component)\s*\(\s*["']([^"']+)["']\s*\)|@(?:include|extends|component)\s*\(\s*["']([^"']+)["']\s*,\s*\[.*?\]\s*\)|@(?:include|extends|component)\s*\(["']([^"']+)["']\)/g,
-  '.phtml': /(?:(?:require|require_once|include|include_once)\s*\(?["']([^"']+)["']\)?)|(?:use\s+([A-Za-z0-9\\]+(?:\s+as\s+[A-Za-z0-9]+)?);)/g,
-  '.cs': /using\s+[\w.]+;/g,
-  '.java': /import\s+[\w.]+;/g
-};
+  ".py", ".c", ".cpp", ".cc", ".cxx", ".h", ".hpp", ".hh", ".hxx", ".rs", ".lua", ".js", ".jsx", ".ts",
+  ".tsx", ".mjs", ".cjs", ".mts", ".cts", ".vue", ".svelte", ".astro", ".css", ".scss", ".sass", ".less", ".go", ".zig", ".php", ".blade.php", ".phtml", ".cs", ".java" ];
 
 /**
  * Utility function to detect unresolved template literals in strings
@@ -79,44 +67,6 @@ function isUnresolvedTemplateLiteral(str: string): boolean {
          str.includes('}');
 }
 
-// Helper to resolve TypeScript/JavaScript import paths
-function resolveImportPath(importPath: string, currentFilePath: string, baseDir: string): string {
-  log(`Resolving import path: ${importPath} from file: ${currentFilePath}`);
-  
-  // Check if the importPath is an unresolved template literal
-  if (isUnresolvedTemplateLiteral(importPath)) {
-    log(`Warning: Attempting to resolve unresolved template literal: ${importPath}`);
-    // We'll return a special path that's unlikely to exist or cause issues
-    return path.join(baseDir, '_UNRESOLVED_TEMPLATE_PATH_');
-  }
-  
-  // For TypeScript files, if the import ends with .js, convert it to .ts
-  if (currentFilePath.endsWith('.ts') || currentFilePath.endsWith('.tsx')) {
-    if (importPath.endsWith('.js')) {
-      importPath = importPath.replace(/\.js$/, '.ts');
-    }
-  }
-  
-  // Handle relative imports
-  if (importPath.startsWith('.')) {
-    const resolvedPath = path.resolve(path.dirname(currentFilePath), importPath);
-    log(`Resolved relative import to: ${resolvedPath}`);
-    return path.normalize(resolvedPath);
-  }
-
-  // Handle absolute imports (from project root)
-  if (importPath.startsWith('/')) {
-    const resolvedPath = path.join(baseDir, importPath);
-    log(`Resolved absolute import to: ${resolvedPath}`);
-    return path.normalize(resolvedPath);
-  }
-
-  // Handle package imports
-  const nodeModulesPath = path.join(baseDir, 'node_modules', importPath);
-  log(`Resolved package import to: ${nodeModulesPath}`);
-  return path.normalize(nodeModulesPath);
-}
-
 function calculateInitialImportance(filePath: string, baseDir: string): number {
   let importance = 0;
   const ext = path.extname(filePath);
@@ -124,32 +74,9 @@ function calculateInitialImportance(filePath: string, baseDir: string): number {
   const parts = relativePath.split(path.sep);
   const fileName = path.basename(filePath, ext);
 
-  // Base importance by file type
+  // Base importance by file type; source files are scored by their language analyzer
+  const analyzer = getAnalyzerForFile(filePath);
   switch (ext) {
-    case '.ts':
-    case '.tsx':
-      importance += 3;
-      break;
-    case '.js':
-    case '.jsx':
-      importance += 2;
-      break;
-    case '.php':
-      // PHP controllers and models are highly important
-      if (fileName.toLowerCase().includes('controller') || fileName.toLowerCase().includes('model')) {
-        importance += 3;
-      } else {
-        importance += 2;
-      }
-      break;
-    case '.blade.php':
-      // Blade layout files are more important than regular views
-      if (fileName.toLowerCase().includes('layout') || fileName.toLowerCase().includes('app')) {
-        importance += 3;
-      } else {
-        importance += 2;
-      }
-      break;
     case '.json':
       if (fileName === 'package' || fileName === 'tsconfig' || fileName === 'composer') {
         importance += 3;
@@ -165,7 +92,7 @@ function calculateInitialImportance(filePath: string, baseDir: string): number {
       }
       break;
     default:
-      importance += 0;
+      importance += analyzer?.getInitialImportance?.(filePath, baseDir) ?? 0;
   }
 
   // Importance by location
@@ -200,74 +127,8 @@ function calculateInitialImportance(filePath: string, baseDir: string): number {
   return Math.min(importance, 10);
 }
 
-// Helper to extract import path from different import styles
-function extractImportPath(importStatement: string): string | null {
-  // Try to match dynamic imports first
-  const dynamicMatch = importStatement.match(/import\s*\(["']([^"']+)["']\)/);
-  if (dynamicMatch) {
-    return dynamicMatch[1];
-  }
-  
-  // Try to match require statements
-  const requireMatch = importStatement.match(/require\(["']([^"']+)["']\)/);
-  if (requireMatch) {
-    return requireMatch[1];
-  }
-  
-  // Try to match regular imports
-  const importMatch = importStatement.match(/from\s+["']([^"']+)["']/);
-  if (importMatch) {
-    return importMatch[1];
-  }
-  
-  // Try to match direct imports (like import 'firebase/auth')
-  const directMatch = importStatement.match(/import\s+["']([^"']+)["']/);
-  if (directMatch) {
-    return directMatch[1];
-  }
-  
-  return null;
-}
-
-// Helper to extract package version from package.json if available
-async function extractPackageVersion(packageName: string, baseDir: string): Promise<string | undefined> {
-  try {
-    // Handle scoped packages by getting the basic package name
-    let basicPackageName = packageName;
-    if (packageName.startsWith('@')) {
-      // For scoped packages like @supabase/supabase-js, extract the scope part
-      const parts = packageName.split('/');
-      if (parts.length > 1) {
-        // Keep the scoped name as is
-        basicPackageName = packageName;
-      }
-    } else if (packageName.includes('/')) {
-      // For imports like 'firebase/auth', extract the base package
-      basicPackageName = packageName.split('/')[0];
-    }
-    
-    const packageJsonPath = path.join(baseDir, 'package.json');
-    const content = await fsPromises.readFile(packageJsonPath, 'utf-8');
-    const packageData = JSON.parse(content);
-    
-    // Check both dependencies and devDependencies
-    if (packageData.dependencies && packageData.dependencies[basicPackageName]) {
-      return packageData.dependencies[basicPackageName];
-    }
-    
-    if (packageData.devDependencies && packageData.devDependencies[basicPackageName]) {
-      return packageData.devDependencies[basicPackageName];
-    }
-    
-    return undefined;
-  } catch (error) {
-    log(`Failed to extract package version for ${packageName}: ${error}`);
-    return undefined;
-  }
-}
-
-// Helper function to check if a path matches any exclude pattern
-function isExcluded(filePath: string, baseDir: string): boolean {
+// Helper function to check if a path matches any exclude pattern or ignore file rule
+function isExcluded(filePath: string, baseDir: string, isDirectory?: boolean): boolean {
   // Add a failsafe check specifically for .git directory
   if (filePath.includes('.git') || path.basename(filePath) === '.git') {
     log(`🔴 SPECIAL CASE: .git directory/file detected: ${filePath}`);
@@ -289,6 +150,11 @@ function isExcluded(filePath: string, baseDir: string): boolean {
   log(`\n===== EXCLUDE CHECK for: ${filePath} =====`);
   
   const config = getConfig();
+  if (config?.respectIgnoreFiles !== false && isIgnoredByIgnoreFiles(filePath, baseDir, isDirectory)) {
+    log(`✅ MATCH! Path ${filePath} is ignored by .gitignore, .ignore, .filescopeignore or .git/info/exclude`);
+    return true;
+  }
+
   if (!config) {
     log('❌ ERROR: Config is null! Global state not initialized properly.');
     return false;
@@ -326,304 +192,558 @@ function isExcluded(filePath: string, baseDir: string): boolean {
     return true;
   }
   
-  // Check each exclude pattern
-  for (let i = 0; i < config.excludePatterns.length; i++) {
-    const pattern = config.excludePatterns[i];
-    log(`\n  [${i+1}/${config.excludePatterns.length}] Testing pattern: "${pattern}"`);
-    
+  // Check the exclude patterns; a later '!pattern' re-includes what an earlier pattern excluded
+  if (matchesGlobPatterns(relativePath, config.excludePatterns)) {
+    log(`✅ MATCH! Path ${relativePath} matches the exclude patterns`);
+    return true;
+  }
+  
+  log(`❌ No pattern matches found for ${relativePath}`);
+  log(`===== END EXCLUDE CHECK =====\n`);
+  return false;
+}
+
+// Build the PackageDependency for a package resolved by an analyzer without its own classification
+function createPackageDependency(pkg: ResolvedPackage, imported: ExtractedImport): PackageDependency {
+  const pkgDep = new PackageDependency();
+  pkgDep.name = pkg.name;
+  pkgDep.path = pkg.path ?? imported.specifier;
+  pkgDep.importKind = imported.kind;
+  if (pkg.version) pkgDep.version = pkg.version;
+  if (pkg.isDevDependency) pkgDep.isDevDependency = true;
+  if (imported.symbols) pkgDep.symbols = [...imported.symbols];
+  return pkgDep;
+}
+
+// Dependencies found in a single file
+interface FileDependencies {
+  dependencies: string[];
+  dependencyEdges: DependencyEdge[];
+  packageDependencies: PackageDependency[];
+  externalDependencies: ExternalDependency[];
+  dynamicImportPatterns: string[];
+  contentHash?: string; // Hash of the content that was analyzed
+}
+
+/**
+ * Analyzes a single file's imports and resolves them to local files and packages.
+ * Shared by the full directory scan and incremental updates.
+ * @param filePath The absolute path of the file to analyze.
+ * @param baseDir The project root directory.
+ * @param parser Reads the file and extracts its imports; the scan passes its worker pool.
+ */
+async function analyzeFileDependencies(filePath: string, baseDir: string, parser: ImportParser = createMainThreadParser()): Promise<FileDependencies> {
+  const dependencies: string[] = [];
+  const dependencyEdges: DependencyEdge[] = [];
+  const packageDependencies: PackageDependency[] = [];
+  const externalDependencies: ExternalDependency[] = [];
+  const dynamicImportPatterns: string[] = [];
+  const analyzer = getAnalyzerForFile(filePath);
+
+  if (!analyzer) {
+    return { dependencies, dependencyEdges, packageDependencies, externalDependencies, dynamicImportPatterns };
+  }
+
+  // Record a local dependency once per path, and an edge once per path and kind
+  const addDependency = (dependencyPath: string, kind: ImportKind, symbols?: string[]) => {
+    if (dependencyPath === filePath) {
+      return;
+    }
+    if (!dependencies.includes(dependencyPath)) {
+      dependencies.push(dependencyPath);
+    }
+    const existing = dependencyEdges.find(edge => edge.path === dependencyPath && edge.kind === kind);
+    if (!existing) {
+      dependencyEdges.push(symbols ? { path: dependencyPath, kind, symbols: [...symbols] } : { path: dependencyPath, kind });
+    } else if (symbols) {
+      existing.symbols = [...new Set([...(existing.symbols ?? []), ...symbols])];
+    }
+  };
+
+  // Record a package once per name and import kind
+  const addPackageDependency = (pkgDep: PackageDependency) => {
+    const existing = packageDependencies.find(dep => dep.name === pkgDep.name && dep.importKind === pkgDep.importKind);
+    if (!existing) {
+      packageDependencies.push(pkgDep);
+    } else if (pkgDep.symbols) {
+      existing.symbols = [...new Set([...(existing.symbols ?? []), ...pkgDep.symbols])];
+    }
+  };
+
+  // Record an external (non-package) dependency once per name
+  const addExternalDependency = (name: string, category: ExternalDependency['category']) => {
+    if (!externalDependencies.some(dep => dep.name === name && dep.category === category)) {
+      externalDependencies.push({ name, category });
+    }
+  };
+
+  let imports: ExtractedImport[];
+  let contentHash: string;
+  try {
+    // Also keeps indexed declarations of changed or added files current for later lookups
+    ({ imports, hash: contentHash } = await parser.parse(filePath, analyzer));
+    log(`Found ${imports.length} potential imports in ${filePath}`);
+  } catch (error) {
+    log(`Failed to read or process file ${filePath}:`, error);
+    return { dependencies, dependencyEdges, packageDependencies, externalDependencies, dynamicImportPatterns };
+  }
+
+  for (const imported of imports) {
+    const { specifier: importPath, kind, symbols, isPattern } = imported;
+    // Computed imports are kept as patterns and matched against the scanned tree afterwards
+    if (isPattern) {
+      if (importPath.startsWith('.') || importPath.startsWith('/')) {
+        const pattern = path.join(importPath.startsWith('/') ? baseDir : path.dirname(filePath), importPath);
+        if (!dynamicImportPatterns.includes(pattern)) {
+          dynamicImportPatterns.push(pattern);
+        }
+      } else {
+        log(`Skipping computed import that is not relative: ${importPath}`);
+      }
+      continue;
+    }
+
+    // Skip if the importPath looks like an unresolved template literal
+    if (isUnresolvedTemplateLiteral(importPath)) {
+      log(`Skipping unresolved template literal: ${importPath}`);
+      continue;
+    }
+
     try {
-      const regex = globToRegExp(pattern);
-      //log(`  - Converted to regex: ${regex}`); // Uncomment for debugging
-      
-      // Test against full relative path
-      const fullPathMatch = regex.test(relativePath);
-      //log(`  - Match against relative path: ${fullPathMatch ? '✅ YES' : '❌ NO'}`); // Uncomment for debugging
-      
-      if (fullPathMatch) {
-        log(`✅ MATCH! Path ${relativePath} matches exclude pattern ${pattern}`);
-        return true;
+      const resolution = await analyzer.resolveImport(imported, filePath, baseDir);
+      // Imports through linked directories point at the linked file's own node
+      for (const file of resolution.files ?? []) {
+        addDependency(await getCanonicalPath(file.path, baseDir), file.kind ?? kind, file.symbols);
       }
-      
-      // Also test against just the filename for file extension patterns
-      if (pattern.startsWith('**/*.') || pattern.includes('/*.')) {
-        const filenameMatch = regex.test(fileName);
-        //log(`  - Match against filename only: ${filenameMatch ? '✅ YES' : '❌ NO'}`); // Uncomment for debugging
-        
-        if (filenameMatch) {
-          log(`✅ MATCH! Filename ${fileName} matches exclude pattern ${pattern}`);
-          return true;
+      if (resolution.external) {
+        addExternalDependency(resolution.external.name, resolution.external.category);
+      }
+      if (resolution.package) {
+        const pkgDep = analyzer.classifyPackage
+          ? await analyzer.classifyPackage(resolution.package, imported, filePath, baseDir)
+          : createPackageDependency(resolution.package, imported);
+        if (pkgDep) {
+          addPackageDependency(pkgDep);
         }
       }
     } catch (error) {
-      log(`  - ❌ ERROR converting pattern to regex: ${error}`);
+      log(`Failed to resolve path for ${importPath}:`, error);
     }
   }
-  
-  log(`❌ No pattern matches found for ${relativePath}`);
-  log(`===== END EXCLUDE CHECK =====\n`);
-  return false;
+
+  log(`Found deps for ${filePath}: ${JSON.stringify({ dependencies, packageDependencies, externalDependencies })}`);
+  return { dependencies, dependencyEdges, packageDependencies, externalDependencies, dynamicImportPatterns, contentHash };
 }
 
-// Helper function to convert glob pattern to RegExp
-export function globToRegExp(pattern: string): RegExp {
-  //log(`  Converting glob pattern: ${pattern}`); // Uncomment for debugging
-
-  // Escape special regex characters except * and ?
-  const escaped = pattern.replace(/[.+^${}()|[\]\\]/g, '\\$&');
-  //log(`  - After escaping special chars: ${escaped}`); // Uncomment for debugging
-
-  // Handle patterns starting with **/
-  let prefix = '';
-  if (escaped.startsWith('**/')) {
-    // Make the initial part optional to match root level
-    prefix = '(?:.*/)?';
-    // Remove the leading **/ from the pattern being converted
-    pattern = escaped.substring(3);
-  } else {
-    // Make the initial part optional for patterns not starting with **/
-    prefix = '(?:.*/)?';
-    pattern = escaped;
-  }
+// Totals gathered while walking the tree
+interface WalkCounts {
+  directories: number;
+  excluded: number;
+  symlinks: number;
+}
 
-  // Convert glob patterns to regex patterns (applied to the potentially shortened pattern)
-  const converted = pattern
-    // Convert ** to special marker (use a different marker to avoid conflict)
-    .replace(/\*\*/g, '__GLOBSTAR__')
-    // Convert remaining * to [^/\\]*
-    .replace(/\*/g, '[^/\\\\]*')
-    // Convert ? to single character match
-    .replace(/\?/g, '[^/\\\\]')
-    // Convert globstar back to proper pattern
-    .replace(/__GLOBSTAR__/g, '.*');
-
-  //log(`  - After pattern conversion: ${converted}`); // Uncomment for debugging
-
-  // Create regex that matches entire path, adding the optional prefix
-  // Ensure the pattern is anchored correctly
-  const finalPattern = `^${prefix}${converted}$`;
-  const regex = new RegExp(finalPattern, 'i');
-  //log(`  - Final regex: ${regex}`); // Uncomment for debugging
-  return regex;
+// How the walk treats symbolic links, see ScanConfig.symlinks
+interface SymlinkWalk {
+  policy: SymlinkPolicy;
+  realRoot: string;            // Real path of the project root
+  visitedTargets: Set<string>; // Real paths of followed targets outside the project, each walked once
 }
 
-export async function scanDirectory(baseDir: string, currentDir: string = baseDir): Promise<FileNode> {
-  log(`\n📁 SCAN DIRECTORY: ${currentDir}`);
-  log(`  - Base dir: ${baseDir}`);
+// A file node awaiting analysis
+function createFileNode(filePath: string, baseDir: string): FileNode {
+  return {
+    path: filePath,
+    name: path.basename(filePath),
+    isDirectory: false,
+    importance: calculateInitialImportance(filePath, baseDir),
+    dependencies: [],
+    dependencyEdges: [],
+    packageDependencies: [],
+    externalDependencies: [],
+    dependents: [],
+    summary: undefined
+  };
+}
 
-  // Handle special case for current directory
-  const normalizedBaseDir = path.normalize(baseDir);
-  const normalizedDirPath = path.normalize(currentDir);
-  
-  log(`  - Normalized base dir: ${normalizedBaseDir}`);
-  log(`  - Normalized current dir: ${normalizedDirPath}`);
+// A node standing for a symbolic link itself, without analyzing its target
+function createLinkNode(linkPath: string, target: string): FileNode {
+  return {
+    path: linkPath,
+    name: path.basename(linkPath),
+    isDirectory: false,
+    symlinkTarget: target,
+    importance: 0,
+    dependencies: [],
+    dependencyEdges: [],
+    packageDependencies: [],
+    externalDependencies: [],
+    dependents: []
+  };
+}
 
-  // Create root node for this directory
-  const rootNode: FileNode = {
-    path: normalizedDirPath,
-    name: path.basename(normalizedDirPath),
+// Apply the symlink policy to one link. Targets inside the project are scanned at
+// their own path when following, so links never duplicate project files, and a
+// target outside the project is walked once, which also stops link loops.
+async function walkSymlink(linkPath: string, baseDir: string, limit: <T>(task: () => Promise<T>) => Promise<T>, files: FileNode[], counts: WalkCounts, symlinks: SymlinkWalk): Promise<FileNode | null> {
+  counts.symlinks++;
+  if (symlinks.policy === 'ignore') {
+    log(`  - Skipping symbolic link: ${linkPath}`);
+    return null;
+  }
+
+  let target: string;
+  let stat: fs.Stats;
+  try {
+    target = await limit(() => fsPromises.realpath(linkPath));
+    stat = await limit(() => fsPromises.stat(target));
+  } catch (error) {
+    log(`  - ❌ Skipping broken symbolic link ${linkPath}:`, error);
+    return null;
+  }
+
+  const relativeTarget = path.relative(symlinks.realRoot, target);
+  const insideProject = !relativeTarget.startsWith('..') && !path.isAbsolute(relativeTarget);
+  if (symlinks.policy === 'link') {
+    return createLinkNode(linkPath, insideProject ? path.join(baseDir, relativeTarget) : target);
+  }
+
+  if (insideProject) {
+    log(`  - Skipping symbolic link ${linkPath}: its target is scanned at ${path.join(baseDir, relativeTarget)}`);
+    return null;
+  }
+  const visited = [...symlinks.visitedTargets].some(visitedTarget => target === visitedTarget || target.startsWith(visitedTarget + path.sep));
+  if (visited) {
+    log(`  - Skipping symbolic link ${linkPath}: ${target} is already followed`);
+    return null;
+  }
+  symlinks.visitedTargets.add(target);
+
+  if (stat.isDirectory()) {
+    return walkDirectory(linkPath, baseDir, limit, files, counts, symlinks);
+  }
+  const fileNode = createFileNode(linkPath, baseDir);
+  files.push(fileNode);
+  return fileNode;
+}
+
+// Build the directory and file nodes below a directory, reading directories concurrently.
+// File nodes are collected for analysis; their dependencies are filled in afterwards.
+async function walkDirectory(dirPath: string, baseDir: string, limit: <T>(task: () => Promise<T>) => Promise<T>, files: FileNode[], counts: WalkCounts, symlinks: SymlinkWalk): Promise<FileNode> {
+  const dirNode: FileNode = {
+    path: dirPath,
+    name: path.basename(dirPath),
     isDirectory: true,
     children: []
   };
 
-  // Read directory entries
   let entries: fs.Dirent[];
   try {
-    entries = await fsPromises.readdir(normalizedDirPath, { withFileTypes: true });
-    log(`  - Read ${entries.length} entries in directory`);
+    entries = await limit(() => fsPromises.readdir(dirPath, { withFileTypes: true }));
   } catch (error) {
-    log(`  - ❌ Error reading directory ${normalizedDirPath}:`, error);
-    return rootNode;
+    log(`  - ❌ Error reading directory ${dirPath}:`, error);
+    return dirNode;
   }
-
-  // Process each entry
-  let excluded = 0;
-  let included = 0;
-  let dirProcessed = 0;
-  let fileProcessed = 0;
-  
-  log(`\n  Processing ${entries.length} entries in ${normalizedDirPath}...`);
-  
-  // ==================== CRITICAL CODE ====================
-  // Log the global config status before processing entries
-  log(`\n🔍 BEFORE PROCESSING: Is config loaded? ${getConfig() !== null ? 'YES ✅' : 'NO ❌'}`);
-  if (getConfig()) {
-    const excludePatternsLength = getConfig()?.excludePatterns?.length || 0;
-    log(`  - Exclude patterns count: ${excludePatternsLength}`);
-    if (excludePatternsLength > 0) {
-      log(`  - First few patterns: ${getConfig()?.excludePatterns?.slice(0, 3).join(', ')}`);
+  counts.directories++;
+
+  const children = await Promise.all(entries.map(async (entry): Promise<FileNode | null> => {
+    const fullPath = path.normalize(path.join(dirPath, entry.name));
+    if (isExcluded(fullPath, baseDir, entry.isDirectory())) {
+      log(`  - ✅ Skipping excluded path: ${fullPath}`);
+      counts.excluded++;
+      return null;
     }
-  }
-  // ======================================================
-  
-  for (const entry of entries) {
-    const fullPath = path.join(normalizedDirPath, entry.name);
-    const normalizedFullPath = path.normalize(fullPath);
-    
-    log(`\n  Entry: ${entry.name} (${entry.isDirectory() ? 'directory' : 'file'})`);
-    log(`  - Full path: ${normalizedFullPath}`);
 
-    // Here's the critical exclusion check
-    log(`  🔍 Checking if path should be excluded: ${normalizedFullPath}`);
-    const shouldExclude = isExcluded(normalizedFullPath, normalizedBaseDir);
-    log(`  🔍 Exclusion check result: ${shouldExclude ? 'EXCLUDE ✅' : 'INCLUDE ❌'}`);
-    
-    if (shouldExclude) {
-      log(`  - ✅ Skipping excluded path: ${normalizedFullPath}`);
-      excluded++;
-      continue;
+    if (entry.isSymbolicLink()) {
+      return walkSymlink(fullPath, baseDir, limit, files, counts, symlinks);
     }
-    
-    log(`  - ✅ Including path: ${normalizedFullPath}`);
-    included++;
 
     if (entry.isDirectory()) {
-      log(`  - Processing directory: ${normalizedFullPath}`);
-      const childNode = await scanDirectory(normalizedBaseDir, fullPath);
-      rootNode.children?.push(childNode);
-      dirProcessed++;
-    } else {
-      log(`  - Processing file: ${normalizedFullPath}`);
-      fileProcessed++;
-      const ext = path.extname(entry.name);
-      const importPattern = IMPORT_PATTERNS[ext];
-      const dependencies: string[] = [];
-      const packageDependencies: PackageDependency[] = [];
-
-      if (importPattern) {
-        try {
-          const content = await fsPromises.readFile(fullPath, 'utf-8');
-          const matches = content.match(importPattern);
-          log(`Found ${matches?.length || 0} potential imports in ${normalizedFullPath}`);
-
-          if (matches) {
-            for (const match of matches) {
-              const importPath = extractImportPath(match);
-              if (importPath) {
-                // Skip if the importPath looks like an unresolved template literal
-                if (isUnresolvedTemplateLiteral(importPath)) {
-                  log(`Skipping unresolved template literal: ${importPath}`);
-                  continue;
-                }
-                
-                try {
-                  let resolvedPath;
-                  if (['.js', '.jsx', '.ts', '.tsx'].includes(ext)) {
-                    resolvedPath = resolveImportPath(importPath, normalizedFullPath, normalizedBaseDir);
-                  } else {
-                    resolvedPath = path.resolve(path.dirname(fullPath), importPath);
-                  }
-                  log(`Resolved path: ${resolvedPath}`);
-                  
-                  // Handle package imports
-                  if (resolvedPath.includes('node_modules') || importPath.startsWith('@') || (!importPath.startsWith('.') && !importPath.startsWith('/'))) {
-                    // Create a package dependency object with more information
-                    const pkgDep = PackageDependency.fromPath(resolvedPath);
-                    
-                    // Set the package name directly from the import path if it's empty
-                    if (!pkgDep.name) {
-                      // Skip if the importPath looks like an unresolved template literal
-                      if (isUnresolvedTemplateLiteral(importPath)) {
-                        log(`Skipping package dependency with template literal name: ${importPath}`);
-                        continue;
-                      }
-                      
-                      // For imports like '@scope/package'
-                      if (importPath.startsWith('@')) {
-                        const parts = importPath.split('/');
-                        if (parts.length >= 2) {
-                          pkgDep.scope = parts[0];
-                          pkgDep.name = `${parts[0]}/${parts[1]}`;
-                        }
-                      } 
-                      // For imports like 'package'
-                      else if (importPath.includes('/')) {
-                        pkgDep.name = importPath.split('/')[0];
-                      } else {
-                        pkgDep.name = importPath;
-                      }
-                    }
-                    
-                    // Skip if the resolved package name is a template literal
-                    if (isUnresolvedTemplateLiteral(pkgDep.name)) {
-                      log(`Skipping package with template literal name: ${pkgDep.name}`);
-                      continue;
-                    }
-                    
-                    // Try to extract version information
-                    if (pkgDep.name) {
-                      const version = await extractPackageVersion(pkgDep.name, normalizedBaseDir);
-                      if (version) {
-                        pkgDep.version = version;
-                      }
-                      
-                      // Check if it's a dev dependency
-                      try {
-                        const packageJsonPath = path.join(normalizedBaseDir, 'package.json');
-                        const content = await fsPromises.readFile(packageJsonPath, 'utf-8');
-                        const packageData = JSON.parse(content);
-                        
-                        if (packageData.devDependencies && packageData.devDependencies[pkgDep.name]) {
-                          pkgDep.isDevDependency = true;
-                        }
-                      } catch (error) {
-                        // Ignore package.json errors
-                      }
-                    }
-                    
-                    packageDependencies.push(pkgDep);
-                    continue;
-                  }
-                  
-                  // Try with different extensions for TypeScript/JavaScript files
-                  const possibleExtensions = ['.ts', '.tsx', '.js', '.jsx', ''];
-                  for (const extension of possibleExtensions) {
-                    const pathToCheck = resolvedPath + extension;
-                    try {
-                      await fsPromises.access(pathToCheck);
-                      log(`Found existing path: ${pathToCheck}`);
-                      dependencies.push(pathToCheck);
-                      break;
-                    } catch {
-                      // File doesn't exist with this extension, try next one
-                    }
-                  }
-                } catch (error) {
-                  log(`Failed to resolve path for ${importPath}:`, error);
-                }
-              }
-            }
-          }
-        } catch (error) {
-          log(`Failed to read or process file ${fullPath}:`, error);
-        }
+      return walkDirectory(fullPath, baseDir, limit, files, counts, symlinks);
+    }
+
+    const fileNode = createFileNode(fullPath, baseDir);
+    files.push(fileNode);
+    return fileNode;
+  }));
+
+  dirNode.children = children.filter((child): child is FileNode => child !== null);
+  return dirNode;
+}
+
+// Files whose content changes how other files' imports resolve
+const MANIFEST_FILES = [
+  'package.json', 'tsconfig.json', 'jsconfig.json', 'pnpm-workspace.yaml', 'pyproject.toml', 'requirements.txt',
+  'Cargo.toml', 'go.mod', 'go.work', 'composer.json', 'composer.lock', 'compile_commands.json'
+];
+
+/**
+ * Returns whether a file is a manifest whose changes can alter the resolution of any import
+ */
+export function isManifestFile(filePath: string): boolean {
+  return MANIFEST_FILES.includes(path.basename(filePath)) || /^tsconfig\..+\.json$/.test(path.basename(filePath));
+}
+
+// Whether a file still has the size and mtime recorded on its previous node (both missing counts as unchanged)
+function isStatUnchanged(previous: FileNode | undefined, stat: fs.Stats | undefined): boolean {
+  if (!previous || !stat) {
+    return !previous && !stat;
+  }
+  return previous.size === stat.size && previous.mtimeMs === stat.mtimeMs;
+}
+
+// Whether a file is unchanged since its previous node was analyzed: same stat, or else same content hash
+async function isContentUnchanged(previous: FileNode, stat: fs.Stats | undefined): Promise<boolean> {
+  if (!previous.contentHash || !stat) {
+    // Files without a language analyzer have nothing to re-analyze
+    return !getAnalyzerForFile(previous.path) && !!stat;
+  }
+  if (isStatUnchanged(previous, stat)) {
+    return true;
+  }
+  try {
+    return hashContent(await fsPromises.readFile(previous.path, 'utf-8')) === previous.contentHash;
+  } catch {
+    return false;
+  }
+}
+
+// Copy the stored analysis of an unchanged file; speculative edges are expanded again after the scan
+function reuseFileAnalysis(fileNode: FileNode, previous: FileNode): void {
+  const edges = (previous.dependencyEdges ?? []).filter(edge => !edge.speculative);
+  fileNode.dependencies = (previous.dependencies ?? []).filter(dep =>
+    edges.some(edge => edge.path === dep) || !(previous.dependencyEdges ?? []).some(edge => edge.path === dep)
+  );
+  fileNode.dependencyEdges = edges;
+  fileNode.packageDependencies = previous.packageDependencies ?? [];
+  fileNode.externalDependencies = previous.externalDependencies ?? [];
+  if (previous.dynamicImportPatterns?.length) {
+    fileNode.dynamicImportPatterns = previous.dynamicImportPatterns;
+  }
+  if (previous.contentHash) {
+    fileNode.contentHash = previous.contentHash;
+  }
+}
+
+// Throughput of the most recent scan
+let lastScanStats: ScanStats | null = null;
+
+/**
+ * Returns the throughput stats of the most recent scan, or null before the first scan
+ */
+export function getLastScanStats(): ScanStats | null {
+  return lastScanStats;
+}
+
+/**
+ * Scans a directory into a file tree in two passes: the tree is walked with
+ * concurrent directory reads, then every file is read, parsed and resolved
+ * with bounded concurrency (`scan.concurrency` in config.json), optionally
+ * parsing in worker threads (`scan.workerThreads`). Throughput stats are
+ * logged and available from getLastScanStats.
+ *
+ * Given the previous tree, only files whose size, mtime and then content
+ * hash changed are re-analyzed; the others keep their stored edges. Files
+ * importing a deleted file are re-analyzed too, and so are all Java or C#
+ * files when one of them changed. Everything is re-analyzed when a manifest
+ * such as package.json or tsconfig.json changed, or when a file was added,
+ * since a previously unresolved import may now resolve to it.
+ * @param baseDir The project root directory.
+ * @param currentDir The directory to scan, the project root by default.
+ * @param previousTree The tree of an earlier scan, e.g. loaded from disk at startup.
+ */
+export async function scanDirectory(baseDir: string, currentDir: string = baseDir, previousTree?: FileNode): Promise<FileNode> {
+  const startTime = Date.now();
+  const normalizedBaseDir = path.normalize(baseDir);
+  const normalizedDirPath = path.normalize(currentDir);
+  const isRootScan = normalizedDirPath === normalizedBaseDir;
+  const config = getConfig();
+  const concurrency = config?.scan?.concurrency ?? DEFAULT_SCAN_CONCURRENCY;
+
+  log(`\n📁 SCAN DIRECTORY: ${normalizedDirPath}`);
+  log(`  - Base dir: ${normalizedBaseDir}`);
+  log(`  - Is config loaded? ${config !== null ? 'YES ✅' : 'NO ❌'}, exclude patterns: ${config?.excludePatterns?.length || 0}`);
+
+  // Pick up configuration and manifest changes made since the previous scan
+  if (isRootScan) {
+    await loadLanguageAnalyzers(config?.languageAnalyzers ?? [], normalizedBaseDir);
+    getLanguageAnalyzers().forEach(analyzer => analyzer.clearCache?.());
+    clearIgnoreFileCache();
+  }
+
+  const limit = createLimiter(concurrency);
+  const files: FileNode[] = [];
+  const counts: WalkCounts = { directories: 0, excluded: 0, symlinks: 0 };
+  const symlinks: SymlinkWalk = {
+    policy: config?.scan?.symlinks ?? 'ignore',
+    realRoot: await fsPromises.realpath(normalizedBaseDir).catch(() => normalizedBaseDir),
+    visitedTargets: new Set()
+  };
+  const rootNode = await walkDirectory(normalizedDirPath, normalizedBaseDir, limit, files, counts, symlinks);
+
+  // Imports may name types declared in files analyzed later, so index declarations up front
+  if (isRootScan) {
+    for (const analyzer of getLanguageAnalyzers()) {
+      if (analyzer.indexFiles) {
+        await analyzer.indexFiles(files.map(file => file.path).filter(filePath => getAnalyzerForFile(filePath) === analyzer));
       }
+    }
+  }
 
-      const fileNode: FileNode = {
-        path: normalizedFullPath,
-        name: entry.name,
-        isDirectory: false,
-        importance: calculateInitialImportance(normalizedFullPath, normalizedBaseDir),
-        dependencies: dependencies,
-        packageDependencies: packageDependencies,
-        dependents: [],
-        summary: undefined
-      };
-      rootNode.children?.push(fileNode);
+  const previousNodes = new Map(previousTree ? getAllFileNodes(previousTree).map(node => [node.path, node]) : []);
+  const currentPaths = new Set(files.map(file => file.path));
+  const fileStats = new Map<string, fs.Stats>();
+  await Promise.all(files.map(fileNode => limit(async () => {
+    try {
+      fileStats.set(fileNode.path, await fsPromises.stat(fileNode.path));
+    } catch (error) {
+      log(`Failed to stat ${fileNode.path}: ${error}`);
     }
+  })));
+
+  // Manifests decide how every import resolves, so a changed one invalidates all stored edges
+  const changedManifest = previousTree ? [...new Set([...files.map(file => file.path), ...previousNodes.keys()])].find(filePath =>
+    isManifestFile(filePath) && filePath.startsWith(normalizedDirPath) && !isStatUnchanged(previousNodes.get(filePath), fileStats.get(filePath))
+  ) : undefined;
+  // An import that did not resolve before may resolve to a new file, so a new path invalidates all stored edges too
+  const addedPath = previousTree ? files.find(file => !previousNodes.has(file.path))?.path : undefined;
+  const reanalyzeAll = !!(changedManifest || addedPath);
+  if (changedManifest) {
+    log(`  - Manifest ${changedManifest} changed, re-analyzing every file`);
+  } else if (addedPath) {
+    log(`  - ${addedPath} is new, re-analyzing every file`);
   }
-  
-  // Log summary for this directory
-  log(`\n  📊 DIRECTORY SCAN SUMMARY for ${normalizedDirPath}:`);
-  log(`    - Total entries: ${entries.length}`);
-  log(`    - Excluded: ${excluded}`);
-  log(`    - Included: ${included}`);
-  log(`    - Directories processed: ${dirProcessed}`);
-  log(`    - Files processed: ${fileProcessed}`);
-  log(`  📁 END SCAN DIRECTORY: ${currentDir}\n`);
-  
+
+  // Files whose content changed since the previous tree, checked before any stored edges are reused
+  const changedPaths = new Set<string>();
+  if (previousTree && !reanalyzeAll) {
+    await Promise.all(files.map(fileNode => limit(async () => {
+      const previous = previousNodes.get(fileNode.path);
+      if (!previous || !await isContentUnchanged(previous, fileStats.get(fileNode.path))) {
+        changedPaths.add(fileNode.path);
+      }
+    })));
+  }
+
+  // Analyzers that index declarations (Java, C#) resolve imports through the contents of other files,
+  // so a changed or removed file re-analyzes every file of its language: a type may have moved
+  const removedPaths = [...previousNodes.values()]
+    .filter(node => !node.symlinkTarget && node.path.startsWith(normalizedDirPath) && !currentPaths.has(node.path))
+    .map(node => node.path);
+  const reindexedAnalyzers = new Set([...changedPaths, ...removedPaths]
+    .map(filePath => getAnalyzerForFile(filePath))
+    .filter(analyzer => analyzer?.indexFiles));
+
+  const reanalyzedFiles: string[] = [];
+  let reused = 0;
+  const parser = createImportParser(config?.scan?.workerThreads ?? 0, config?.languageAnalyzers ?? [], normalizedBaseDir);
+  try {
+    await Promise.all(files.map(fileNode => limit(async () => {
+      const stat = fileStats.get(fileNode.path);
+      const previous = previousNodes.get(fileNode.path);
+      if (stat) {
+        fileNode.size = stat.size;
+        fileNode.mtimeMs = stat.mtimeMs;
+      }
+      if (previous?.summary) {
+        fileNode.summary = previous.summary;
+      }
+
+      if (previous && !reanalyzeAll && !changedPaths.has(fileNode.path) && !reindexedAnalyzers.has(getAnalyzerForFile(fileNode.path)) &&
+          (previous.dependencies ?? []).every(dep => currentPaths.has(dep))) {
+        reuseFileAnalysis(fileNode, previous);
+        reused++;
+        return;
+      }
+
+      const { dependencies, dependencyEdges, packageDependencies, externalDependencies, dynamicImportPatterns, contentHash } = await analyzeFileDependencies(fileNode.path, normalizedBaseDir, parser);
+      fileNode.dependencies = dependencies;
+      fileNode.dependencyEdges = dependencyEdges;
+      fileNode.packageDependencies = packageDependencies;
+      fileNode.externalDependencies = externalDependencies;
+      if (dynamicImportPatterns.length > 0) {
+        fileNode.dynamicImportPatterns = dynamicImportPatterns;
+      }
+      if (contentHash) {
+        fileNode.contentHash = contentHash;
+        reanalyzedFiles.push(fileNode.path);
+      }
+    })));
+  } finally {
+    await parser.close();
+  }
+
+  // Every file is known once the whole tree has been scanned
+  if (isRootScan) {
+    expandDynamicImportPatterns(rootNode);
+  }
+
+  const durationMs = Date.now() - startTime;
+  lastScanStats = {
+    files: files.length,
+    directories: counts.directories,
+    excluded: counts.excluded,
+    symlinks: counts.symlinks,
+    bytesRead: parser.bytesRead,
+    durationMs,
+    filesPerSecond: Math.round(files.length / Math.max(durationMs / 1000, 0.001)),
+    concurrency,
+    workerThreads: parser.workerThreads,
+    reanalyzed: reanalyzedFiles.length,
+    reused
+  };
+  if (previousTree) {
+    lastScanStats.reanalyzedFiles = reanalyzedFiles.sort();
+  }
+
+  log(`\n  📊 SCAN SUMMARY for ${normalizedDirPath}:`);
+  log(`    - Directories: ${counts.directories}, files: ${files.length}, excluded: ${counts.excluded}`);
+  log(`    - Re-analyzed ${reanalyzedFiles.length} files, reused ${reused} unchanged files`);
+  log(`    - Read ${parser.bytesRead} bytes in ${durationMs} ms (${lastScanStats.filesPerSecond} files/s, concurrency ${concurrency}, ${parser.workerThreads} worker threads)`);
+  log(`  📁 END SCAN DIRECTORY: ${normalizedDirPath}\n`);
+
   return rootNode;
 }
 
+// Glob of a computed import as a RegExp: each `*` stands for part of a single path segment
+function dynamicImportPatternToRegExp(pattern: string): RegExp {
+  const escaped = pattern.split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('[^/\\\\]*');
+  return new RegExp(`^${escaped}$`);
+}
+
+/**
+ * Expands the computed-import patterns recorded on file nodes (such as
+ * `import(`./locales/${lang}.json`)`) into speculative dynamic edges to every
+ * file of the tree they match. Safe to run again after the tree changes.
+ * @param root The root of the scanned tree
+ */
+export function expandDynamicImportPatterns(root: FileNode): void {
+  const files = getAllFileNodes(root);
+  const nodesByPath = new Map(files.map(file => [file.path, file]));
+
+  for (const file of files) {
+    for (const pattern of file.dynamicImportPatterns ?? []) {
+      const regex = dynamicImportPatternToRegExp(pattern);
+      for (const target of files) {
+        if (target === file || !regex.test(target.path)) continue;
+
+        file.dependencies = file.dependencies ?? [];
+        file.dependencyEdges = file.dependencyEdges ?? [];
+        if (!file.dependencies.includes(target.path)) {
+          file.dependencies.push(target.path);
+        }
+        if (!file.dependencyEdges.some(edge => edge.path === target.path && edge.kind === 'dynamic')) {
+          file.dependencyEdges.push({ path: target.path, kind: 'dynamic', speculative: true });
+        }
+
+        const targetNode = nodesByPath.get(target.path)!;
+        if (targetNode.dependents && !targetNode.dependents.includes(file.path)) {
+          targetNode.dependents.push(file.path);
+        }
+      }
+    }
+  }
+}
+
 // Find all file nodes in the tree
 function getAllFileNodes(root: FileNode): FileNode[] {
   const results: FileNode[] = [];
@@ -669,19 +789,88 @@ export function buildDependentMap(root: FileNode) {
   });
 }
 
-export function calculateImportance(node: FileNode): void {
+// A Go package is a directory: its files share importance, so they are grouped per lookup table
+const goPackageIndexes = new WeakMap<Map<string, FileNode>, Map<string, FileNode[]>>();
+
+function isGoSourceFile(filePath: string): boolean {
+  return path.extname(filePath) === '.go' && !filePath.endsWith('_test.go');
+}
+
+// The non-test files of the Go package (directory) containing a file
+function getGoPackageNodes(node: FileNode, nodesByPath: Map<string, FileNode>): FileNode[] {
+  let index = goPackageIndexes.get(nodesByPath);
+  if (!index) {
+    index = new Map();
+    nodesByPath.forEach(file => {
+      if (!file.isDirectory && isGoSourceFile(file.path)) {
+        const dir = path.dirname(file.path);
+        index!.set(dir, [...(index!.get(dir) ?? []), file]);
+      }
+    });
+    goPackageIndexes.set(nodesByPath, index);
+  }
+  return index.get(path.dirname(node.path)) ?? [node];
+}
+
+// Weighted number of files importing this node, using the kind of each importing edge.
+// For Go, every file importing the node's package counts, since imports name packages rather than files.
+function getWeightedDependentCount(node: FileNode, nodesByPath: Map<string, FileNode>, options: EdgeFilterOptions): number {
+  const isGoPackage = isGoSourceFile(node.path);
+  const targets = isGoPackage ? getGoPackageNodes(node, nodesByPath) : [node];
+  const packageDir = path.dirname(node.path);
+  const dependentPaths = new Set<string>();
+  targets.forEach(target => (target.dependents ?? []).forEach(dependentPath => {
+    // Files of the same package do not import each other
+    if (!isGoPackage || path.dirname(dependentPath) !== packageDir) {
+      dependentPaths.add(dependentPath);
+    }
+  }));
+
+  let total = 0;
+  for (const dependentPath of dependentPaths) {
+    const dependent = nodesByPath.get(dependentPath);
+    const kinds = dependent ? targets.flatMap(target => getEdgeKindsBetween(dependent, target.path)) : [];
+    total += kinds.length > 0 ? Math.max(...kinds.map(kind => getEdgeWeight(kind, options))) : 1;
+  }
+  return total;
+}
+
+// Dependency edges as counted for importance: a Go import of a package counts once, not once per file
+function getImportanceEdges(node: FileNode): DependencyEdge[] {
+  const edges = getDependencyEdges(node);
+  if (!isGoSourceFile(node.path)) {
+    return edges;
+  }
+  return edges.map(edge => isGoSourceFile(edge.path) ? { ...edge, path: path.dirname(edge.path) } : edge);
+}
+
+/**
+ * Calculates importance for every file in the tree from its dependency edges.
+ * @param node The root of the tree (or subtree) to calculate.
+ * @param options Edge kinds to ignore and per-kind weights; by default type-only
+ *                and dynamic imports count for less than runtime imports.
+ */
+export function calculateImportance(node: FileNode, options: EdgeFilterOptions = {}): void {
+  const nodesByPath = new Map<string, FileNode>();
+  getAllFileNodes(node).forEach(file => nodesByPath.set(file.path, file));
+  applyImportance(node, nodesByPath, options);
+}
+
+function applyImportance(node: FileNode, nodesByPath: Map<string, FileNode>, options: EdgeFilterOptions): void {
   if (!node.isDirectory) {
     // Start with initial importance
     let importance = node.importance || calculateInitialImportance(node.path, process.cwd());
     
     // Add importance based on number of dependents (files that import this file)
-    if (node.dependents && node.dependents.length > 0) {
-      importance += Math.min(node.dependents.length, 3);
+    const weightedDependents = getWeightedDependentCount(node, nodesByPath, options);
+    if (weightedDependents > 0) {
+      importance += Math.min(weightedDependents, 3);
     }
     
     // Add importance based on number of local dependencies (files this file imports)
-    if (node.dependencies && node.dependencies.length > 0) {
-      importance += Math.min(node.dependencies.length, 2);
+    const weightedDependencies = getWeightedEdgeCount(getImportanceEdges(node), options);
+    if (weightedDependencies > 0) {
+      importance += Math.min(weightedDependencies, 2);
     }
     
     // Add importance based on number of package dependencies
@@ -695,13 +884,13 @@ export function calculateImportance(node: FileNode): void {
     }
     
     // Cap importance at 10
-    node.importance = Math.min(importance, 10);
+    node.importance = Math.min(Math.round(importance), 10);
   }
   
   // Recursively calculate importance for children
   if (node.children) {
     for (const child of node.children) {
-      calculateImportance(child);
+      applyImportance(child, nodesByPath, options);
     }
   }
 }
@@ -846,70 +1035,6 @@ export function findNodeByPath(tree: FileNode | null, targetPath: string): FileN
 
 // --- New Functions for Incremental Updates ---
 
-// Placeholder for dependency analysis of a single new file
-// This needs to replicate the relevant logic from scanDirectory
-async function analyzeNewFile(filePath: string, projectRoot: string): Promise<{ dependencies: string[]; packageDependencies: PackageDependency[] }> {
-  log(`[analyzeNewFile] Analyzing ${filePath}`);
-  const dependencies: string[] = [];
-  const packageDependencies: PackageDependency[] = [];
-  const ext = path.extname(filePath);
-  const pattern = IMPORT_PATTERNS[ext];
-
-  if (pattern) {
-     try {
-       const content = await fsPromises.readFile(filePath, 'utf-8');
-       let match;
-       while ((match = pattern.exec(content)) !== null) {
-         const importPath = match[1] || match[2] || match[3]; // Adjust indices based on specific regex
-         if (importPath) {
-            // Skip if the importPath looks like an unresolved template literal
-            if (isUnresolvedTemplateLiteral(importPath)) {
-              log(`[analyzeNewFile] Skipping unresolved template literal: ${importPath}`);
-              continue;
-            }
-            
-            try {
-                const resolvedPath = resolveImportPath(importPath, filePath, projectRoot);
-                const normalizedResolvedPath = normalizePath(resolvedPath);
-
-                // Check if it's a package dependency (heuristic: includes node_modules or doesn't start with . or /)
-                if (normalizedResolvedPath.includes('node_modules') || (!importPath.startsWith('.') && !importPath.startsWith('/'))) {
-                    const pkgDep = PackageDependency.fromPath(normalizedResolvedPath);
-                    
-                    // Skip if the package name is a template literal
-                    if (isUnresolvedTemplateLiteral(pkgDep.name)) {
-                      log(`[analyzeNewFile] Skipping package with template literal name: ${pkgDep.name}`);
-                      continue;
-                    }
-                    
-                    const version = await extractPackageVersion(pkgDep.name, projectRoot);
-                    if (version) {
-                      pkgDep.version = version;
-                    }
-                    packageDependencies.push(pkgDep);
-                } else {
-                    // Attempt to confirm local file exists (you might need more robust checking like in scanDirectory)
-                    try {
-                      await fsPromises.access(normalizedResolvedPath);
-                      dependencies.push(normalizedResolvedPath);
-                    } catch {
-                      //console.warn(`[analyzeNewFile] Referenced local file not found: ${normalizedResolvedPath}`);
-                    }
-                }
-            } catch (resolveError) {
-                 log(`[analyzeNewFile] Error resolving import '${importPath}' in ${filePath}: ${resolveError}`);
-            }
-         }
-       }
-     } catch (readError) {
-       log(`[analyzeNewFile] Error reading file ${filePath}: ${readError}`);
-     }
-  }
-  log(`[analyzeNewFile] Found deps for ${filePath}: ${JSON.stringify({ dependencies, packageDependencies })}`);
-  return { dependencies, packageDependencies };
-}
-
-
 /**
  * Incrementally adds a new file node to the global file tree.
  * Analyzes the new file, calculates its importance, and updates relevant dependents.
@@ -945,6 +1070,20 @@ export async function addFileNode(
   }
 
   try {
+    // Symbolic links are skipped or recorded as link nodes unless scans follow them
+    const symlinkPolicy = getConfig()?.scan?.symlinks ?? 'ignore';
+    if (symlinkPolicy !== 'follow' && (await fsPromises.lstat(normalizedFilePath)).isSymbolicLink()) {
+      if (symlinkPolicy === 'link') {
+        const target = await getCanonicalPath(await fsPromises.realpath(normalizedFilePath), activeProjectRoot);
+        parentNode.children = [...(parentNode.children ?? []), createLinkNode(normalizedFilePath, target)]
+          .sort((a, b) => a.name.localeCompare(b.name));
+        log(`[addFileNode] Added link node: ${normalizedFilePath} -> ${target}`);
+      } else {
+        log(`[addFileNode] Skipping symbolic link: ${normalizedFilePath}`);
+      }
+      return;
+    }
+
     // 3. Create the new FileNode (Removed size, createdAt, modifiedAt)
     const newNode = new FileNode(); // Use class constructor
     newNode.path = normalizedFilePath;
@@ -955,11 +1094,20 @@ export async function addFileNode(
     newNode.dependents = [];
     newNode.summary = '';
 
-    // 4. Analyze the new file's content for dependencies
-    // Use the placeholder analysis function
-    const { dependencies, packageDependencies } = await analyzeNewFile(normalizedFilePath, activeProjectRoot);
+    // 4. Analyze the new file's content for dependencies; cached resolutions predate the new file
+    clearResolverCache();
+    const { dependencies, dependencyEdges, packageDependencies, externalDependencies, dynamicImportPatterns, contentHash } = await analyzeFileDependencies(normalizedFilePath, activeProjectRoot);
     newNode.dependencies = dependencies;
+    newNode.dependencyEdges = dependencyEdges;
     newNode.packageDependencies = packageDependencies;
+    newNode.externalDependencies = externalDependencies;
+    if (dynamicImportPatterns.length > 0) {
+      newNode.dynamicImportPatterns = dynamicImportPatterns;
+    }
+    const stat = await fsPromises.stat(normalizedFilePath);
+    newNode.contentHash = contentHash;
+    newNode.size = stat.size;
+    newNode.mtimeMs = stat.mtimeMs;
 
 
     // 5. Calculate initial importance for the new node
@@ -973,6 +1121,9 @@ export async function addFileNode(
     parentNode.children.push(newNode);
     parentNode.children.sort((a, b) => a.name.localeCompare(b.name)); // Keep sorted
 
+    // Match the new file against computed imports, and its own computed imports against the tree
+    expandDynamicImportPatterns(activeFileTree);
+
     // 7. Update dependents lists of the files imported by the new node
     await updateDependentsForNewNode(newNode, activeFileTree); // Pass active tree
 
@@ -1075,6 +1226,9 @@ export async function removeFileNode(
      // Continue removal process anyway, as the node might be detached elsewhere
   }
 
+  getAnalyzerForFile(nodeToRemove.path)?.removeFile?.(nodeToRemove.path);
+  clearResolverCache();
+
   // 5. Update the 'dependents' list of files the removed node imported
   await updateDependentsAfterRemoval(nodeToRemove, activeFileTree); // Pass active tree
 
@@ -1093,6 +1247,67 @@ export async function removeFileNode(
   log(`[removeFileNode] Successfully removed node: ${normalizedFilePath}`);
 }
 
+/**
+ * Incrementally re-analyzes a changed file of the global file tree. The file
+ * is only re-analyzed if its size or mtime and then its content hash differ
+ * from those recorded on its node; the dependents of its old and new
+ * dependencies are updated. Must be called with the currently active file tree.
+ * @param filePath The absolute path of the changed file.
+ * @param activeFileTree The currently active FileNode tree.
+ * @param activeProjectRoot The project root directory.
+ * @returns Whether the file was re-analyzed.
+ */
+export async function updateChangedFileNode(
+    filePath: string,
+    activeFileTree: FileNode,
+    activeProjectRoot: string
+): Promise<boolean> {
+  const normalizedFilePath = normalizePath(filePath);
+  const node = findNodeByPath(activeFileTree, normalizedFilePath);
+  if (!node || node.isDirectory) {
+    log(`[updateChangedFileNode] File node not found: ${normalizedFilePath}`);
+    return false;
+  }
+
+  let stat: fs.Stats;
+  try {
+    stat = await fsPromises.stat(node.path);
+  } catch (error) {
+    log(`[updateChangedFileNode] Failed to stat ${node.path}: ${error}`);
+    return false;
+  }
+
+  const unchanged = await isContentUnchanged(node, stat);
+  node.size = stat.size;
+  node.mtimeMs = stat.mtimeMs;
+  if (unchanged) {
+    log(`[updateChangedFileNode] Content unchanged, keeping stored edges: ${node.path}`);
+    return false;
+  }
+
+  // 1. Detach the file from the dependents lists of its old dependencies
+  const oldDependencies = [...(node.dependencies ?? [])];
+  await updateDependentsAfterRemoval(node, activeFileTree);
+
+  // 2. Re-analyze the new content
+  const { dependencies, dependencyEdges, packageDependencies, externalDependencies, dynamicImportPatterns, contentHash } = await analyzeFileDependencies(node.path, activeProjectRoot);
+  node.dependencies = dependencies;
+  node.dependencyEdges = dependencyEdges;
+  node.packageDependencies = packageDependencies;
+  node.externalDependencies = externalDependencies;
+  node.dynamicImportPatterns = dynamicImportPatterns.length > 0 ? dynamicImportPatterns : undefined;
+  node.contentHash = contentHash;
+
+  // 3. Attach it to its new dependencies, including those matched by computed imports
+  expandDynamicImportPatterns(activeFileTree);
+  await updateDependentsForNewNode(node, activeFileTree);
+
+  // 4. Recalculate importance for the file and its old and new dependencies
+  await recalculateImportanceForAffected([node.path, ...oldDependencies, ...(node.dependencies ?? [])].map(d => normalizePath(d)), activeFileTree, activeProjectRoot);
+
+  log(`[updateChangedFileNode] Re-analyzed changed file: ${node.path}`);
+  return true;
+}
 
 // --- Helper / Placeholder Functions for Incremental Updates ---
 
@@ -1100,18 +1315,18 @@ export async function removeFileNode(
  * Calculates the importance of a node, considering dependents and dependencies.
  * This adapts the existing `calculateImportance` logic for targeted recalculation.
  */
-function calculateNodeImportance(node: FileNode, projectRoot: string): number {
+function calculateNodeImportance(node: FileNode, projectRoot: string, nodesByPath: Map<string, FileNode>): number {
    // Use existing initial calculation
    let importance = calculateInitialImportance(node.path, projectRoot);
 
    // Add importance based on number of dependents (files that import this file)
-   const dependentsCount = node.dependents?.length ?? 0;
+   const dependentsCount = getWeightedDependentCount(node, nodesByPath, {});
    if (dependentsCount > 0) {
        importance += Math.min(dependentsCount, 3);
    }
 
    // Add importance based on number of local dependencies (files this file imports)
-   const localDepsCount = node.dependencies?.length ?? 0;
+   const localDepsCount = getWeightedEdgeCount(getImportanceEdges(node));
    if (localDepsCount > 0) {
        importance += Math.min(localDepsCount, 2);
    }
@@ -1204,6 +1419,10 @@ async function updateDependersAfterRemoval(removedNode: FileNode, activeFileTree
                    log(`[updateDependersAfterRemoval] Removed dependency on ${removedNode.path} from ${dependerNode.path}`);
                }
            }
+           if (dependerNode.dependencyEdges) {
+               const normalizedRemovedPath = normalizePath(removedNode.path);
+               dependerNode.dependencyEdges = dependerNode.dependencyEdges.filter(edge => normalizePath(edge.path) !== normalizedRemovedPath);
+           }
        }
    }
 }
@@ -1224,13 +1443,15 @@ async function recalculateImportanceForAffected(
   // Removed reliance on getConfig()
 
   const uniquePaths = [...new Set(affectedPaths)]; // Ensure uniqueness
+  const nodesByPath = new Map<string, FileNode>();
+  getAllFileNodes(activeFileTree).forEach(file => nodesByPath.set(file.path, file));
 
   for (const filePath of uniquePaths) {
     const node = findNodeByPath(activeFileTree, filePath);
     if (node && !node.isDirectory) {
        const oldImportance = node.importance;
        // Use the corrected importance calculation function
-       node.importance = calculateNodeImportance(node, activeProjectRoot);
+       node.importance = calculateNodeImportance(node, activeProjectRoot, nodesByPath);
        if(oldImportance !== node.importance) {
           log(`[recalculateImportanceForAffected] Importance for ${node.path} changed from ${oldImportance} to ${node.importance}`);
           // Potential future enhancement: trigger recursive recalculation if importance changed significantly
@@ -1250,6 +1471,19 @@ async function recalculateImportanceForAffected(
  */
 
 export async function excludeAndRemoveFile(filePath: string, activeFileTree: FileNode, activeProjectRoot: string): Promise<void> {
+  // A glob is excluded as written, and every file it matches is removed
+  if (isGlobPattern(filePath)) {
+    log(`[excludeAndRemoveFile] Adding exclusion pattern: ${filePath}`);
+    addExclusionPattern(filePath);
+    const matchingFiles = getAllFileNodes(activeFileTree)
+      .filter(node => matchesGlobPatterns(path.relative(activeProjectRoot, node.path), [filePath]));
+    for (const node of matchingFiles) {
+      await removeFileNode(node.path, activeFileTree, activeProjectRoot);
+    }
+    log(`[excludeAndRemoveFile] Removed ${matchingFiles.length} files matching ${filePath}`);
+    return;
+  }
+
   // Normalize the file path
   let absoluteFilePath = filePath;
   if (!path.isAbsolute(filePath)) {
@@ -1,8 +1,11 @@
 import * as chokidar from 'chokidar';
+import * as fs from 'fs';
 import * as path from 'path';
 import { FileWatchingConfig } from './types.js';
 import { getConfig, getProjectRoot } from './global-state.js';
 import { normalizePath } from './file-utils.js';
+import { clearIgnoreFileCache, isIgnoredByIgnoreFiles } from './ignore-files.js';
+import { matchesGlobPatterns } from './glob-utils.js';
 
 /**
  * Types of file events that the watcher can emit
@@ -14,6 +17,11 @@ export type FileEventType = 'add' | 'change' | 'unlink';
  */
 export type FileEventCallback = (filePath: string, eventType: FileEventType) => void;
 
+/**
+ * A path pattern the watcher ignores: a regex or a predicate
+ */
+type IgnoredPattern = RegExp | ((filePath: string, stats?: fs.Stats) => boolean);
+
 /**
  * File watcher class that monitors file system changes
  */
@@ -57,10 +65,11 @@ export class FileWatcher {
       ignorePermissionErrors: true,
       depth: 99, // Maximum depth for directory traversal
       disableGlobbing: false,
-      followSymlinks: false
+      followSymlinks: getConfig()?.scan?.symlinks === 'follow' // Match how scans treat symbolic links
     };
     
     console.error(`FileWatcher: Starting on ${this.baseDir}`);
+    clearIgnoreFileCache();
     
     try {
       this.watcher = chokidar.watch(this.baseDir, watchOptions);
@@ -170,13 +179,21 @@ export class FileWatcher {
    * Get patterns to ignore based on config
    * @returns Array of patterns to ignore
    */
-  private getIgnoredPatterns(): (string | RegExp)[] {
-    const patterns: (string | RegExp)[] = [];
+  private getIgnoredPatterns(): IgnoredPattern[] {
+    const patterns: IgnoredPattern[] = [];
     
-    // Add patterns from excludePatterns in config
+    // Add excludePatterns from config, matched by the same glob engine as scans
     const config = getConfig();
-    if (config?.excludePatterns) {
-      patterns.push(...config.excludePatterns);
+    const excludePatterns = config?.excludePatterns ?? [];
+    if (excludePatterns.length > 0) {
+      patterns.push((filePath: string) =>
+        matchesGlobPatterns(path.relative(this.baseDir, path.resolve(this.baseDir, filePath)), excludePatterns));
+    }
+
+    // Add .gitignore, .ignore, .filescopeignore and .git/info/exclude rules unless disabled
+    if (config?.respectIgnoreFiles !== false) {
+      patterns.push((filePath: string, stats?: fs.Stats) =>
+        isIgnoredByIgnoreFiles(path.resolve(this.baseDir, filePath), this.baseDir, stats?.isDirectory()));
     }
     
     // Add dot files if configured
@@ -204,8 +221,7 @@ export class FileWatcher {
 
     // Check if the file should be ignored
     const shouldIgnore = ignoredPatterns.some(pattern => {
-      const regex = typeof pattern === 'string' ? new RegExp(pattern) : pattern;
-      return regex.test(relativePath);
+      return typeof pattern === 'function' ? pattern(filePath) : pattern.test(relativePath);
     });
 
     console.error(`FileWatcher: Should ignore ${relativePath}? ${shouldIgnore ? 'YES' : 'NO'}`);
@@ -0,0 +1,106 @@
+import { getChangedFiles, parseNameStatus } from './git-diff';
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { execFileSync } from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+describe('parseNameStatus', () => {
+  it('should read statuses, renames and copies into absolute paths', () => {
+    const output = ['M', 'src/a.ts', 'A', 'src/new.ts', 'D', 'old.ts', 'R087', 'src/b.ts', 'src/c.ts', 'C100', 'x.ts', 'y.ts', 'T', 'link', ''].join('\0');
+    expect(parseNameStatus(output, '/repo')).toEqual([
+      { path: path.join('/repo', 'src', 'a.ts'), status: 'modified' },
+      { path: path.join('/repo', 'src', 'new.ts'), status: 'added' },
+      { path: path.join('/repo', 'old.ts'), status: 'deleted' },
+      { path: path.join('/repo', 'src', 'c.ts'), status: 'renamed', previousPath: path.join('/repo', 'src', 'b.ts') },
+      { path: path.join('/repo', 'y.ts'), status: 'copied', previousPath: path.join('/repo', 'x.ts') },
+      { path: path.join('/repo', 'link'), status: 'type-changed' }
+    ]);
+  });
+
+  it('should drop paths outside the project', () => {
+    const output = ['M', '../other/a.ts', 'R100', '../other/b.ts', 'b.ts', ''].join('\0');
+    expect(parseNameStatus(output, '/repo')).toEqual([{ path: path.join('/repo', 'b.ts'), status: 'renamed' }]);
+  });
+});
+
+describe('getChangedFiles', () => {
+  let repo: string;
+  let project: string;
+
+  const git = (...args: string[]) => execFileSync('git', ['-c', 'user.name=test', '-c', 'user.email=test@example.com', ...args], { cwd: repo, stdio: 'pipe' });
+  const write = (relativePath: string, content = '') => {
+    const filePath = path.join(repo, relativePath);
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, content);
+  };
+
+  beforeAll(() => {
+    repo = fs.mkdtempSync(path.join(os.tmpdir(), 'filescope-git-'));
+    project = path.join(repo, 'app');
+    git('init', '-q');
+    write('.gitignore', '*.log\n');
+    write('app/a.ts', 'export const a = 1;\n');
+    write('app/b.ts', 'export const b = 1;\n');
+    write('app/gone.ts', 'export const gone = 1;\n');
+    write('other/c.ts', 'export const c = 1;\n');
+    git('add', '-A');
+    git('commit', '-q', '-m', 'initial');
+
+    write('app/a.ts', 'export const a = 2;\n');
+    git('commit', '-q', '-am', 'change a');
+
+    write('app/b.ts', 'export const b = 2;\n');
+    write('other/c.ts', 'export const c = 2;\n');
+    fs.rmSync(path.join(repo, 'app/gone.ts'));
+    git('add', 'app/b.ts');
+    write('app/new.ts');
+    write('app/debug.log');
+  });
+
+  afterAll(() => {
+    fs.rmSync(repo, { recursive: true, force: true });
+  });
+
+  it('should list working tree changes inside the project, including untracked files', async () => {
+    const changes = await getChangedFiles(project);
+    expect(changes.map(change => [path.relative(repo, change.path), change.status])).toEqual([
+      ['app/b.ts', 'modified'],
+      ['app/gone.ts', 'deleted'],
+      ['app/new.ts', 'untracked']
+    ]);
+  });
+
+  it('should list only staged changes', async () => {
+    const changes = await getChangedFiles(project, { staged: true });
+    expect(changes.map(change => path.relative(repo, change.path))).toEqual(['app/b.ts']);
+  });
+
+  it('should compare revisions', async () => {
+    const changes = await getChangedFiles(project, { base: 'HEAD~1', head: 'HEAD' });
+    expect(changes).toEqual([{ path: path.join(project, 'a.ts'), status: 'modified' }]);
+  });
+
+  it('should compare the sides of a range', async () => {
+    expect((await getChangedFiles(project, { base: 'HEAD~1..HEAD' })).map(change => change.path)).toEqual([path.join(project, 'a.ts')]);
+    expect((await getChangedFiles(project, { base: 'HEAD~1...' })).map(change => change.path)).toEqual([path.join(project, 'a.ts')]);
+  });
+
+  it('should reject revisions git could read as options', async () => {
+    const output = path.join(os.tmpdir(), `filescope-git-output-${process.pid}`);
+    await expect(getChangedFiles(project, { base: `--output=${output}` })).rejects.toThrow('Invalid revision');
+    await expect(getChangedFiles(project, { base: 'HEAD', head: `--output=${output}` })).rejects.toThrow('Invalid revision');
+    await expect(getChangedFiles(project, { base: `HEAD..--output=${output}` })).rejects.toThrow('Invalid revision');
+    await expect(getChangedFiles(project, { base: 'no-such-branch' })).rejects.toThrow();
+    expect(fs.existsSync(output)).toBe(false);
+  });
+
+  it('should reject outside a repository', async () => {
+    const outside = fs.mkdtempSync(path.join(os.tmpdir(), 'filescope-nogit-'));
+    try {
+      await expect(getChangedFiles(outside)).rejects.toThrow();
+    } finally {
+      fs.rmSync(outside, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,131 @@
+import { execFile } from 'child_process';
+import * as path from 'path';
+import { promisify } from 'util';
+import { log } from './logger.js';
+
+const execFileAsync = promisify(execFile);
+
+// Large diffs list many paths; allow far more output than the 1 MB default
+const GIT_MAX_BUFFER = 64 * 1024 * 1024;
+
+export type ChangeStatus = 'added' | 'modified' | 'deleted' | 'renamed' | 'copied' | 'type-changed' | 'unmerged' | 'untracked';
+
+/**
+ * A file changed in the working tree or a revision range
+ */
+export interface ChangedFile {
+  path: string;          // Absolute path inside the project
+  status: ChangeStatus;
+  previousPath?: string; // Absolute path before a rename or copy, when it was inside the project
+}
+
+/**
+ * Which changes to read from git
+ */
+export interface GitDiffOptions {
+  base?: string;              // Revision or range to compare against (e.g. 'main', 'HEAD~3' or 'main...HEAD'); default: HEAD
+  head?: string;              // Revision to compare a single base revision with; default: the working tree
+  staged?: boolean;           // Only staged changes (ignored when comparing two commits)
+  includeUntracked?: boolean; // Include untracked files that are not ignored when comparing with the working tree (default: true)
+}
+
+const STATUS_CODES: Record<string, ChangeStatus> = {
+  A: 'added',
+  M: 'modified',
+  D: 'deleted',
+  R: 'renamed',
+  C: 'copied',
+  T: 'type-changed',
+  U: 'unmerged'
+};
+
+async function runGit(args: string[], cwd: string): Promise<string> {
+  const { stdout } = await execFileAsync('git', args, { cwd, maxBuffer: GIT_MAX_BUFFER });
+  return stdout;
+}
+
+/**
+ * Resolves a revision to a commit hash. Revisions come from tool parameters,
+ * so anything git could read as an option is rejected before git sees it.
+ */
+async function resolveCommit(revision: string, cwd: string): Promise<string> {
+  if (revision.startsWith('-')) {
+    throw new Error(`Invalid revision: ${revision}`);
+  }
+  return (await runGit(['rev-parse', '--verify', '--end-of-options', `${revision}^{commit}`], cwd)).trim();
+}
+
+// Resolve a revision or a range such as 'main..HEAD' or 'main...HEAD' (an empty side means HEAD)
+async function resolveRevisionArgs(revision: string, cwd: string): Promise<string[]> {
+  const range = revision.match(/^(.*?)(\.\.\.?)(.*)$/);
+  if (!range) {
+    return [await resolveCommit(revision, cwd)];
+  }
+  const from = await resolveCommit(range[1] || 'HEAD', cwd);
+  const to = await resolveCommit(range[3] || 'HEAD', cwd);
+  // 'a..b' compares the two commits; 'a...b' compares b with the merge base of a and b
+  return range[2] === '...' ? [`${from}...${to}`] : [from, to];
+}
+
+/**
+ * Parses the output of `git diff --name-status -z --relative` run in the
+ * project root into absolute paths. Paths outside the project are dropped.
+ */
+export function parseNameStatus(output: string, projectRoot: string): ChangedFile[] {
+  const toProjectPath = (gitPath: string | undefined) => gitPath && !gitPath.startsWith('../')
+    ? path.join(projectRoot, ...gitPath.split('/'))
+    : undefined;
+
+  const fields = output.split('\0');
+  const changes: ChangedFile[] = [];
+  for (let i = 0; i < fields.length && fields[i] !== ''; ) {
+    const code = fields[i++];
+    const status = STATUS_CODES[code[0]] ?? 'modified';
+    // Renames and copies list the old path before the new one
+    const previousPath = status === 'renamed' || status === 'copied' ? toProjectPath(fields[i++]) : undefined;
+    const filePath = toProjectPath(fields[i++]);
+    if (!filePath) continue;
+    changes.push(previousPath ? { path: filePath, status, previousPath } : { path: filePath, status });
+  }
+  return changes;
+}
+
+/**
+ * Lists the files changed in a git revision range, or in the working tree,
+ * by running the local `git`. Only files inside the project are returned.
+ * Throws when git is missing or the project is not in a repository.
+ * @param projectRoot The project root directory, anywhere inside a worktree
+ * @param options The revisions to compare
+ */
+export async function getChangedFiles(projectRoot: string, options: GitDiffOptions = {}): Promise<ChangedFile[]> {
+  // Fails with a clear message outside a repository, where `git diff` would compare files instead
+  await runGit(['rev-parse', '--is-inside-work-tree'], projectRoot);
+
+  const revisions = await resolveRevisionArgs(options.base ?? 'HEAD', projectRoot);
+  if (options.head) {
+    if (revisions.length > 1 || revisions[0].includes('...')) {
+      throw new Error(`Cannot combine the range ${options.base} with head ${options.head}`);
+    }
+    revisions.push(await resolveCommit(options.head, projectRoot));
+  }
+  // A range compares two commits, like an explicit head
+  const againstWorkingTree = revisions.length === 1 && !revisions[0].includes('...');
+
+  // --relative limits the diff to the project directory and prints paths relative to it
+  const args = ['diff', '--name-status', '-z', '-M', '--relative', '--no-color'];
+  if (options.staged && againstWorkingTree) args.push('--cached');
+  args.push(...revisions, '--');
+
+  log(`[git] git ${args.join(' ')} in ${projectRoot}`);
+  const changes = parseNameStatus(await runGit(args, projectRoot), projectRoot);
+
+  if (againstWorkingTree && !options.staged && options.includeUntracked !== false) {
+    const untracked = await runGit(['ls-files', '--others', '--exclude-standard', '-z', '--', '.'], projectRoot);
+    for (const relativePath of untracked.split('\0').filter(Boolean)) {
+      // ls-files prints paths relative to its working directory
+      changes.push({ path: path.join(projectRoot, ...relativePath.split('/')), status: 'untracked' });
+    }
+  }
+
+  return changes;
+}
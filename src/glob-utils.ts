@@ -0,0 +1,289 @@
+// Glob matching shared by exclude patterns, the file watcher and pattern-taking tools.
+//
+// Patterns match '/'-separated paths relative to the project root, ignoring case:
+//   *, ?          any characters / one character within a path segment
+//   **            any number of path segments, including none
+//   [abc], [!a-z] character classes, including POSIX classes such as [[:digit:]]
+//   {a,b}, {1..3} brace alternatives and ranges
+//   @(a|b), ?(a|b), +(a|b), *(a|b), !(a|b)  extglobs
+//   \x            a literal x
+// A pattern starting with '/' is anchored to the root; others match at any depth.
+// A pattern starting with '!' matches the paths the rest of the pattern does not.
+// GlobOptions turn off case folding, braces and extglobs for formats without them,
+// such as .gitignore files.
+
+// Ranges longer than this are treated as literal text
+const MAX_BRACE_RANGE = 1000;
+
+const POSIX_CLASSES: Record<string, string> = {
+  alnum: 'a-zA-Z0-9',
+  alpha: 'a-zA-Z',
+  blank: ' \\t',
+  digit: '0-9',
+  lower: 'a-z',
+  punct: '!-\\/:-@\\[-`{-~',
+  space: '\\s',
+  upper: 'A-Z',
+  word: '\\w',
+  xdigit: '0-9a-fA-F'
+};
+
+const EXTGLOB_PREFIXES = '?*+@!';
+
+/**
+ * Variations on the default glob syntax
+ */
+export interface GlobOptions {
+  caseSensitive?: boolean; // Match case exactly (default: false)
+  braces?: boolean;        // Expand {a,b} and {1..3} (default: true)
+  extglobs?: boolean;      // Read @(a|b) and the other extglobs (default: true)
+}
+
+// Compiled patterns, reused across the many paths a scan checks
+const regexCache = new Map<string, RegExp>();
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+}
+
+/**
+ * Checks whether a string uses any glob syntax, as opposed to naming a path literally
+ */
+export function isGlobPattern(pattern: string): boolean {
+  return /[*?[\]{}!]|[@+]\(/.test(pattern);
+}
+
+// Index of the bracket or parenthesis closing the one at `start`, or -1
+function findClosing(pattern: string, start: number, open: string, close: string): number {
+  let depth = 0;
+  for (let i = start; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === '\\') {
+      i++;
+    } else if (char === open) {
+      depth++;
+    } else if (char === close && --depth === 0) {
+      return i;
+    }
+  }
+  return -1;
+}
+
+// Split on a separator at the top level, outside braces, brackets and parentheses
+function splitTopLevel(text: string, separator: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let current = '';
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (char === '\\') {
+      current += char + (text[i + 1] ?? '');
+      i++;
+      continue;
+    }
+    if (char === '{' || char === '(' || char === '[') depth++;
+    if (char === '}' || char === ')' || char === ']') depth--;
+    if (char === separator && depth === 0) {
+      parts.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  parts.push(current);
+  return parts;
+}
+
+// Expand a numeric or single-letter range such as '1..3' or 'a..c', or return null
+function expandRange(body: string): string[] | null {
+  const numeric = body.match(/^(-?\d+)\.\.(-?\d+)$/);
+  const alphabetic = body.match(/^([a-zA-Z])\.\.([a-zA-Z])$/);
+  if (!numeric && !alphabetic) return null;
+
+  const start = numeric ? parseInt(numeric[1], 10) : alphabetic![1].charCodeAt(0);
+  const end = numeric ? parseInt(numeric[2], 10) : alphabetic![2].charCodeAt(0);
+  if (Math.abs(end - start) >= MAX_BRACE_RANGE) return null;
+
+  const step = start <= end ? 1 : -1;
+  const values: string[] = [];
+  for (let value = start; value !== end + step; value += step) {
+    values.push(numeric ? String(value) : String.fromCharCode(value));
+  }
+  return values;
+}
+
+/**
+ * Expands brace alternatives and ranges into separate patterns, e.g.
+ * 'src/*.{ts,tsx}' into ['src/*.ts', 'src/*.tsx'].
+ * Braces without a top-level comma or a range, such as '{10}', stay literal.
+ */
+export function expandBraces(pattern: string): string[] {
+  for (let i = 0; i < pattern.length; i++) {
+    if (pattern[i] === '\\') {
+      i++;
+      continue;
+    }
+    if (pattern[i] !== '{') continue;
+
+    const close = findClosing(pattern, i, '{', '}');
+    if (close === -1) return [pattern];
+
+    const body = pattern.slice(i + 1, close);
+    const alternatives = splitTopLevel(body, ',');
+    const options = alternatives.length > 1 ? alternatives : expandRange(body);
+    if (!options) continue;
+
+    const prefix = pattern.slice(0, i);
+    const suffix = pattern.slice(close + 1);
+    return options.flatMap(option => expandBraces(prefix + option + suffix));
+  }
+  return [pattern];
+}
+
+// Index of the ']' closing the character class opened at `start`, or -1
+function findClassEnd(pattern: string, start: number): number {
+  // A ']' right after the opening bracket (or its negation) is a member
+  let i = start + 1;
+  if (pattern[i] === '!' || pattern[i] === '^') i++;
+  if (pattern[i] === ']') i++;
+  for (; i < pattern.length; i++) {
+    const posix = pattern.slice(i).match(/^\[:\w+:\]/);
+    if (posix) {
+      i += posix[0].length - 1;
+    } else if (pattern[i] === '\\') {
+      i++;
+    } else if (pattern[i] === ']') {
+      return i;
+    }
+  }
+  return -1;
+}
+
+// Convert a character class body (between the brackets) into a regex class that never matches '/'
+function compileCharacterClass(body: string): string {
+  let negated = false;
+  if (body.startsWith('!') || body.startsWith('^')) {
+    negated = true;
+    body = body.slice(1);
+  }
+
+  let members = '';
+  for (let i = 0; i < body.length; i++) {
+    const posix = body.slice(i).match(/^\[:(\w+):\]/);
+    if (posix && POSIX_CLASSES[posix[1]]) {
+      members += POSIX_CLASSES[posix[1]];
+      i += posix[0].length - 1;
+    } else if (body[i] === '\\' && i + 1 < body.length) {
+      members += '\\' + body[++i];
+    } else {
+      members += /[\]\\^]/.test(body[i]) ? '\\' + body[i] : body[i];
+    }
+  }
+  return negated ? `[^/${members}]` : `(?:(?!/)[${members}])`;
+}
+
+// Convert a brace-free glob into regex source
+function compileGlob(pattern: string, extglobs: boolean = true): string {
+  let source = '';
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    const atSegmentStart = i === 0 || pattern[i - 1] === '/';
+
+    if (char === '\\') {
+      source += escapeRegExp(pattern[i + 1] ?? '\\');
+      i++;
+    } else if (extglobs && EXTGLOB_PREFIXES.includes(char) && pattern[i + 1] === '(' && findClosing(pattern, i + 1, '(', ')') !== -1) {
+      const close = findClosing(pattern, i + 1, '(', ')');
+      const alternatives = splitTopLevel(pattern.slice(i + 2, close), '|').map(alternative => compileGlob(alternative)).join('|');
+      const rest = pattern.slice(close + 1);
+      switch (char) {
+        case '@': source += `(?:${alternatives})`; break;
+        case '?': source += `(?:${alternatives})?`; break;
+        case '+': source += `(?:${alternatives})+`; break;
+        case '*': source += `(?:${alternatives})*`; break;
+        // Anything in the segment except the alternatives followed by the rest of the pattern
+        case '!': source += `(?:(?!(?:${alternatives})${compileGlob(rest)}$)[^/]*?)`; break;
+      }
+      i = close;
+    } else if (char === '*' && pattern[i + 1] === '*' && atSegmentStart && (pattern[i + 2] === '/' || i + 2 === pattern.length)) {
+      // '**/' matches zero or more leading segments; a final '**' matches everything below
+      if (pattern[i + 2] === '/') {
+        source += '(?:.*/)?';
+        i += 2;
+      } else {
+        source += '.*';
+        i += 1;
+      }
+    } else if (char === '/' && pattern.slice(i + 1) === '**') {
+      // 'dir/**' also matches 'dir' itself
+      source += '(?:/.*)?';
+      i += 2;
+    } else if (char === '*') {
+      source += '[^/]*';
+      while (pattern[i + 1] === '*') i++;
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (char === '[') {
+      const close = findClassEnd(pattern, i);
+      if (close === -1) {
+        source += '\\[';
+      } else {
+        source += compileCharacterClass(pattern.slice(i + 1, close));
+        i = close;
+      }
+    } else {
+      source += escapeRegExp(char);
+    }
+  }
+  return source;
+}
+
+/**
+ * Converts a glob pattern into a regular expression over '/'-separated paths
+ * relative to the project root. See the top of this file for the syntax.
+ */
+export function globToRegExp(pattern: string, options: GlobOptions = {}): RegExp {
+  const { caseSensitive = false, braces = true, extglobs = true } = options;
+  const cacheKey = `${caseSensitive ? 1 : 0}${braces ? 1 : 0}${extglobs ? 1 : 0}${pattern}`;
+  const cached = regexCache.get(cacheKey);
+  if (cached) return cached;
+
+  let body = pattern;
+  let negated = false;
+  while (body.startsWith('!') && !(extglobs && body.startsWith('!('))) {
+    negated = !negated;
+    body = body.slice(1);
+  }
+
+  const anchored = body.startsWith('/');
+  body = body.replace(/^\/+/, '');
+
+  const alternatives = (braces ? expandBraces(body) : [body]).map(alternative => compileGlob(alternative, extglobs)).join('|');
+  const prefix = anchored ? '' : '(?:.*/)?';
+  const source = negated ? `^(?!${prefix}(?:${alternatives})$).*$` : `^${prefix}(?:${alternatives})$`;
+
+  const regex = new RegExp(source, caseSensitive ? '' : 'i');
+  regexCache.set(cacheKey, regex);
+  return regex;
+}
+
+/**
+ * Checks a path against a list of patterns such as `excludePatterns`, where
+ * later patterns override earlier ones: a matching pattern selects the path,
+ * and a matching '!pattern' deselects it again.
+ * @param relativePath Path relative to the project root, with '/' or '\' separators
+ * @param patterns The glob patterns, in order
+ */
+export function matchesGlobPatterns(relativePath: string, patterns: string[]): boolean {
+  const normalizedPath = relativePath.replace(/\\/g, '/');
+  let matched = false;
+  for (const pattern of patterns) {
+    const negated = pattern.startsWith('!') && !pattern.startsWith('!(');
+    // Only a negation can change a match, and only a positive pattern can create one
+    if (matched !== negated) continue;
+    if (globToRegExp(negated ? pattern.slice(1) : pattern).test(normalizedPath)) {
+      matched = !negated;
+    }
+  }
+  return matched;
+}
@@ -0,0 +1,138 @@
+import { extractGoImports, parseGoMod, resolveGoImport, clearGoCache } from './go-imports';
+import { calculateImportance } from './file-utils';
+import { FileNode } from './types';
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+describe('extractGoImports', () => {
+  it('should read single imports and import blocks with aliases', () => {
+    const source = [
+      'package main',
+      '',
+      'import "fmt"',
+      'import (',
+      '    "net/http"',
+      '    log "github.com/sirupsen/logrus" // structured logging',
+      '    _ "github.com/lib/pq"',
+      '    . "example.com/app/internal/testutil"',
+      '    "C"',
+      ')',
+      '',
+      'func main() {}',
+      'var s = `import "fake"`'
+    ].join('\n');
+    expect(extractGoImports(source)).toEqual([
+      { specifier: 'fmt', kind: 'static' },
+      { specifier: 'net/http', kind: 'static' },
+      { specifier: 'github.com/sirupsen/logrus', kind: 'static' },
+      { specifier: 'github.com/lib/pq', kind: 'side-effect' },
+      { specifier: 'example.com/app/internal/testutil', kind: 'static' }
+    ]);
+  });
+
+  it('should ignore imports in comments', () => {
+    const source = 'package a\n// import "x"\n/* import (\n "y"\n) */\nimport "z"\n';
+    expect(extractGoImports(source)).toEqual([{ specifier: 'z', kind: 'static' }]);
+  });
+});
+
+describe('parseGoMod', () => {
+  it('should read the module path, requirements and replacements', () => {
+    const goMod = parseGoMod([
+      'module example.com/app',
+      '',
+      'go 1.22',
+      '',
+      'require github.com/spf13/cobra v1.8.0',
+      'require (',
+      '    github.com/sirupsen/logrus v1.9.3',
+      '    golang.org/x/sync v0.6.0 // indirect',
+      ')',
+      '',
+      'replace example.com/shared => ./shared',
+      'replace github.com/sirupsen/logrus v1.9.3 => github.com/fork/logrus v1.9.4'
+    ].join('\n'));
+    expect(goMod.modulePath).toBe('example.com/app');
+    expect(goMod.goVersion).toBe('1.22');
+    expect([...goMod.requires]).toEqual([
+      ['github.com/spf13/cobra', 'v1.8.0'],
+      ['github.com/sirupsen/logrus', 'v1.9.3'],
+      ['golang.org/x/sync', 'v0.6.0']
+    ]);
+    expect(goMod.replaces.get('example.com/shared')).toBe('./shared');
+  });
+});
+
+describe('resolveGoImport', () => {
+  let root: string;
+
+  const writeFile = (relativePath: string, content: string = '') => {
+    const fullPath = path.join(root, relativePath);
+    fs.mkdirSync(path.dirname(fullPath), { recursive: true });
+    fs.writeFileSync(fullPath, content);
+  };
+
+  const resolve = (importPath: string, from: string) => {
+    const result = resolveGoImport(importPath, path.join(root, from), root);
+    return result.files.length > 0 ? result.files.map(file => path.relative(root, file).split(path.sep).join('/')) : result;
+  };
+
+  beforeAll(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'filescope-go-'));
+    writeFile('go.mod', 'module example.com/app\n\ngo 1.22\n\nrequire (\n\tgithub.com/spf13/cobra v1.8.0\n\texample.com/shared v0.0.0\n)\n\nreplace example.com/shared => ./shared\n');
+    writeFile('main.go', 'package main\n');
+    writeFile('internal/db/db.go', 'package db\n');
+    writeFile('internal/db/query.go', 'package db\n');
+    writeFile('internal/db/db_test.go', 'package db\n');
+    writeFile('shared/go.mod', 'module example.com/shared\n');
+    writeFile('shared/strings/strings.go', 'package strings\n');
+    writeFile('tools/go.mod', 'module example.com/tools\n');
+    writeFile('tools/gen.go', 'package main\n');
+    writeFile('go.work', 'go 1.22\n\nuse (\n\t.\n\t./tools\n)\n');
+  });
+
+  afterAll(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  beforeEach(() => {
+    clearGoCache();
+  });
+
+  it('should resolve module packages to their non-test files', () => {
+    expect(resolve('example.com/app/internal/db', 'main.go')).toEqual(['internal/db/db.go', 'internal/db/query.go']);
+  });
+
+  it('should resolve local replacements and go.work modules', () => {
+    expect(resolve('example.com/shared/strings', 'main.go')).toEqual(['shared/strings/strings.go']);
+    expect(resolve('example.com/tools', 'main.go')).toEqual(['tools/gen.go']);
+  });
+
+  it('should report stdlib packages and third-party modules with versions', () => {
+    expect(resolve('net/http', 'main.go')).toEqual({ files: [], module: 'net/http', isStdlib: true });
+    expect(resolve('github.com/spf13/cobra/doc', 'main.go')).toEqual({ files: [], module: 'github.com/spf13/cobra', version: 'v1.8.0', isStdlib: false });
+  });
+});
+
+describe('Go package importance', () => {
+  const file = (filePath: string, dependencies: string[] = [], dependents: string[] = []): FileNode => ({
+    path: filePath, name: path.basename(filePath), isDirectory: false, importance: 1, dependencies, dependents
+  });
+
+  it('should count importers of any file in the package for every file in it', () => {
+    const db = file('/app/db/db.go', [], ['/app/a.go']);
+    const query = file('/app/db/query.go', [], ['/app/b.go']);
+    const a = file('/app/a.go', [db.path, query.path]);
+    const b = file('/app/b.go', [query.path]);
+    const tree: FileNode = { path: '/app', name: 'app', isDirectory: true, children: [a, b, { path: '/app/db', name: 'db', isDirectory: true, children: [db, query] }] };
+
+    calculateImportance(tree);
+
+    // Two importing files for both package files; one package dependency for a.go
+    expect(db.importance).toBe(3);
+    expect(query.importance).toBe(3);
+    expect(a.importance).toBe(2);
+  });
+});
@@ -0,0 +1,318 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { ExtractedImport } from './import-extractor.js';
+import { log } from './logger.js';
+
+/**
+ * The parts of a go.mod file that matter for import resolution
+ */
+export interface GoModFile {
+  modulePath: string;                    // The `module` directive
+  goVersion?: string;                    // The `go` directive
+  requires: Map<string, string>;         // Required module path -> version
+  replaces: Map<string, string>;         // Replaced module path -> replacement (a module path, or a ./local directory)
+}
+
+/**
+ * A Go module found in the project
+ */
+interface GoModule extends GoModFile {
+  dir: string; // Directory containing go.mod
+}
+
+/**
+ * A Go import resolved to the files of a local package, or classified as external
+ */
+export interface GoResolution {
+  files: string[];      // Non-test .go files of the imported package
+  module?: string;      // Module (third-party) or package (stdlib) path for unresolved imports
+  version?: string;     // Version required by go.mod
+  isStdlib: boolean;    // Whether the import is a standard library package
+}
+
+// Modules keyed by go.mod directory, nearest module directory keyed by directory, go.work modules keyed by root
+const moduleCache = new Map<string, GoModule | null>();
+const nearestModuleCache = new Map<string, string | null>();
+const workspaceModuleCache = new Map<string, GoModule[]>();
+
+/**
+ * Clears cached go.mod and go.work lookups. Called at the start of every full scan.
+ */
+export function clearGoCache(): void {
+  moduleCache.clear();
+  nearestModuleCache.clear();
+  workspaceModuleCache.clear();
+}
+
+// Remove // and /* */ comments while keeping string literals intact
+function stripGoComments(content: string): string {
+  let result = '';
+  let i = 0;
+  while (i < content.length) {
+    const char = content[i];
+    if (char === '/' && content[i + 1] === '/') {
+      while (i < content.length && content[i] !== '\n') i++;
+    } else if (char === '/' && content[i + 1] === '*') {
+      const end = content.indexOf('*/', i + 2);
+      const stop = end === -1 ? content.length : end + 2;
+      result += content.slice(i, stop).replace(/[^\n]/g, ' ');
+      i = stop;
+    } else if (char === '"' || char === '`' || char === "'") {
+      let j = i + 1;
+      while (j < content.length && content[j] !== char) {
+        if (content[j] === '\\' && char !== '`') j++;
+        j++;
+      }
+      result += content.slice(i, j + 1);
+      i = j + 1;
+    } else {
+      result += char;
+      i++;
+    }
+  }
+  return result;
+}
+
+/**
+ * Extracts import declarations from Go source, both single-line and
+ * parenthesized blocks. Blank imports (`_ "x"`) are side-effect imports and
+ * the cgo pseudo-package "C" is skipped.
+ */
+export function extractGoImports(content: string): ExtractedImport[] {
+  const source = stripGoComments(content);
+  const imports: ExtractedImport[] = [];
+  const specPattern = /^\s*([\w.]+\s+)?(?:"([^"]+)"|`([^`]+)`)\s*;?\s*$/;
+
+  const addSpec = (spec: string) => {
+    const match = spec.match(specPattern);
+    if (!match) return;
+    const importPath = match[2] ?? match[3];
+    if (importPath === 'C') return;
+    imports.push({ specifier: importPath, kind: match[1]?.trim() === '_' ? 'side-effect' : 'static' });
+  };
+
+  // Imports must come before any other declaration, so stop at the first one
+  const declarations = /^\s*(import\s*\(([\s\S]*?)\)|import\s+([^\n]+)|(func|type|var|const)\b)/gm;
+  let match;
+  while ((match = declarations.exec(source)) !== null) {
+    if (match[4]) break;
+    if (match[2] !== undefined) {
+      match[2].split(/\n|;/).forEach(addSpec);
+    } else if (match[3] !== undefined) {
+      addSpec(match[3]);
+    }
+  }
+
+  return imports;
+}
+
+/**
+ * Parses the module, go, require and replace directives of a go.mod file
+ */
+export function parseGoMod(content: string): GoModFile {
+  const goMod: GoModFile = { modulePath: '', requires: new Map(), replaces: new Map() };
+  const lines = content.split(/\r?\n/).map(line => line.replace(/\/\/.*$/, '').trim());
+  let block: string | null = null;
+
+  const unquote = (value: string) => value.replace(/^"(.*)"$/, '$1');
+
+  const handle = (directive: string, args: string) => {
+    if (directive === 'module') {
+      goMod.modulePath = unquote(args.trim());
+    } else if (directive === 'go') {
+      goMod.goVersion = args.trim();
+    } else if (directive === 'require') {
+      const [modulePath, version] = args.trim().split(/\s+/);
+      if (modulePath && version) goMod.requires.set(unquote(modulePath), version);
+    } else if (directive === 'replace') {
+      const [from, to] = args.split('=>').map(side => side.trim().split(/\s+/));
+      if (from?.[0] && to?.[0]) {
+        // Keep the replacement version when it is a module path: `=> example.com/fork v1.2.3`
+        goMod.replaces.set(unquote(from[0]), to.length > 1 ? `${unquote(to[0])} ${to[1]}` : unquote(to[0]));
+      }
+    }
+  };
+
+  for (const line of lines) {
+    if (!line) continue;
+    if (block) {
+      if (line === ')') {
+        block = null;
+      } else {
+        handle(block, line);
+      }
+      continue;
+    }
+
+    const match = line.match(/^(\w+)\s*(\(?)\s*(.*)$/);
+    if (!match) continue;
+    if (match[2] === '(') {
+      block = match[1];
+    } else {
+      handle(match[1], match[3]);
+    }
+  }
+
+  return goMod;
+}
+
+// Load the module whose go.mod is in a directory
+function loadGoModule(dir: string): GoModule | null {
+  if (moduleCache.has(dir)) {
+    return moduleCache.get(dir)!;
+  }
+
+  let module: GoModule | null = null;
+  try {
+    const goMod = parseGoMod(fs.readFileSync(path.join(dir, 'go.mod'), 'utf-8'));
+    if (goMod.modulePath) {
+      module = { ...goMod, dir };
+    }
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+      log(`[go] Failed to read go.mod in ${dir}: ${error}`);
+    }
+  }
+
+  moduleCache.set(dir, module);
+  return module;
+}
+
+// Find the module containing a file, searching upwards but not above the project root
+function findGoModule(filePath: string, baseDir: string): GoModule | null {
+  const root = path.normalize(baseDir);
+  let dir = path.dirname(path.normalize(filePath));
+  const visited: string[] = [];
+
+  while (true) {
+    if (nearestModuleCache.has(dir)) {
+      const cached = nearestModuleCache.get(dir)!;
+      visited.forEach(v => nearestModuleCache.set(v, cached));
+      return cached ? loadGoModule(cached) : null;
+    }
+    visited.push(dir);
+
+    if (fs.existsSync(path.join(dir, 'go.mod'))) {
+      visited.forEach(v => nearestModuleCache.set(v, dir));
+      return loadGoModule(dir);
+    }
+
+    const parent = path.dirname(dir);
+    if (dir === root || parent === dir || !dir.startsWith(root)) {
+      visited.forEach(v => nearestModuleCache.set(v, null));
+      return null;
+    }
+    dir = parent;
+  }
+}
+
+// Modules listed by `use` directives in the project's go.work
+function getWorkspaceModules(baseDir: string): GoModule[] {
+  const root = path.normalize(baseDir);
+  if (workspaceModuleCache.has(root)) {
+    return workspaceModuleCache.get(root)!;
+  }
+
+  const modules: GoModule[] = [];
+  try {
+    const content = fs.readFileSync(path.join(root, 'go.work'), 'utf-8');
+    const uses = content.replace(/\/\/.*$/gm, '').match(/^\s*use\s*(\(([\s\S]*?)\)|([^\n]+))/gm) ?? [];
+    for (const use of uses) {
+      const dirs = use.replace(/^\s*use\s*/, '').replace(/[()]/g, ' ').split(/\s+/).filter(Boolean);
+      for (const dir of dirs) {
+        const module = loadGoModule(path.resolve(root, dir.replace(/^"(.*)"$/, '$1')));
+        if (module) modules.push(module);
+      }
+    }
+  } catch {
+    // No go.work
+  }
+
+  workspaceModuleCache.set(root, modules);
+  return modules;
+}
+
+function matchesModule(importPath: string, modulePath: string): boolean {
+  return importPath === modulePath || importPath.startsWith(modulePath + '/');
+}
+
+/**
+ * Returns whether an import path belongs to the standard library: stdlib
+ * paths have no dot in their first element (e.g. `net/http`)
+ */
+export function isGoStdlibPackage(importPath: string): boolean {
+  return !importPath.split('/')[0].includes('.');
+}
+
+/**
+ * Lists the non-test .go files of a package directory
+ */
+export function getGoPackageFiles(packageDir: string): string[] {
+  try {
+    return fs.readdirSync(packageDir, { withFileTypes: true })
+      .filter(entry => entry.isFile() && entry.name.endsWith('.go') && !entry.name.endsWith('_test.go'))
+      .map(entry => path.join(packageDir, entry.name))
+      .sort();
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Resolves a Go import path. Paths under the importing file's module (or a
+ * go.work module, or a local `replace` target) resolve to the files of that
+ * package directory; other paths are standard library packages or
+ * third-party modules with the version required in go.mod.
+ * @param importPath The import path, e.g. `example.com/app/internal/db`
+ * @param fromFile The absolute path of the importing file
+ * @param baseDir The project root directory
+ */
+export function resolveGoImport(importPath: string, fromFile: string, baseDir: string): GoResolution {
+  const module = findGoModule(fromFile, baseDir);
+
+  // Local modules: this one, go.work members and `replace ... => ./dir` targets
+  const localModules: GoModule[] = module ? [module] : [];
+  localModules.push(...getWorkspaceModules(baseDir));
+  if (module) {
+    module.replaces.forEach((replacement, replaced) => {
+      if (replacement.startsWith('.') || path.isAbsolute(replacement)) {
+        const target = loadGoModule(path.resolve(module.dir, replacement));
+        if (target) localModules.push({ ...target, modulePath: replaced });
+      }
+    });
+  }
+
+  let bestLocal: GoModule | null = null;
+  for (const candidate of localModules) {
+    if (matchesModule(importPath, candidate.modulePath) &&
+        (!bestLocal || candidate.modulePath.length > bestLocal.modulePath.length)) {
+      bestLocal = candidate;
+    }
+  }
+
+  if (bestLocal) {
+    const packageDir = path.join(bestLocal.dir, importPath.slice(bestLocal.modulePath.length));
+    return { files: getGoPackageFiles(packageDir).map(file => path.normalize(file)), isStdlib: false };
+  }
+
+  if (isGoStdlibPackage(importPath)) {
+    return { files: [], module: importPath, isStdlib: true };
+  }
+
+  // Third-party: the longest required module path that prefixes the import
+  let requiredModule: string | undefined;
+  module?.requires.forEach((_version, modulePath) => {
+    if (matchesModule(importPath, modulePath) && (!requiredModule || modulePath.length > requiredModule.length)) {
+      requiredModule = modulePath;
+    }
+  });
+
+  if (!requiredModule) {
+    return { files: [], module: importPath, isStdlib: false };
+  }
+
+  // A non-local replace pins a different module version
+  const replacement = module!.replaces.get(requiredModule);
+  const version = replacement?.includes(' ') ? replacement.split(' ')[1] : module!.requires.get(requiredModule);
+  return { files: [], module: requiredModule, version, isStdlib: false };
+}
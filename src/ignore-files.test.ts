@@ -0,0 +1,139 @@
+import { clearIgnoreFileCache, isIgnoreFile, isIgnoredByIgnoreFiles, parseIgnoreFile } from './ignore-files';
+import { scanDirectory } from './file-utils';
+import { FileNode } from './types';
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+describe('parseIgnoreFile', () => {
+  const match = (content: string, relativePath: string) =>
+    parseIgnoreFile(content, '/repo').filter(rule => rule.regex.test(relativePath));
+
+  it('should skip comments and blank lines and read negation and directory-only flags', () => {
+    const rules = parseIgnoreFile('# comment\n\n!keep.log\nbuild/\n\\#literal\n', '/repo');
+    expect(rules.map(rule => [rule.pattern, rule.negated, rule.dirOnly])).toEqual([
+      ['!keep.log', true, false],
+      ['build/', false, true],
+      ['\\#literal', false, false]
+    ]);
+    expect(rules[2].regex.test('#literal')).toBe(true);
+  });
+
+  it('should match unanchored patterns at any depth and anchored patterns from the base directory', () => {
+    expect(match('*.log', 'a/b/debug.log')).toHaveLength(1);
+    expect(match('/dist', 'dist')).toHaveLength(1);
+    expect(match('/dist', 'packages/dist')).toHaveLength(0);
+    expect(match('docs/*.md', 'docs/intro.md')).toHaveLength(1);
+    expect(match('docs/*.md', 'docs/api/intro.md')).toHaveLength(0);
+    expect(match('**/fixtures', 'test/unit/fixtures')).toHaveLength(1);
+    expect(match('a/**/z', 'a/z')).toHaveLength(1);
+    expect(match('a/**/z', 'a/b/c/z')).toHaveLength(1);
+    expect(match('logs/**', 'logs/2024/app.txt')).toHaveLength(1);
+    expect(match('file[0-9].txt', 'file7.txt')).toHaveLength(1);
+    expect(match('file[!0-9].txt', 'file7.txt')).toHaveLength(0);
+  });
+
+  it('should match case-sensitively and read braces, parentheses and escaped "!" literally', () => {
+    expect(match('*.LOG', 'debug.log')).toHaveLength(0);
+    expect(match('*.LOG', 'debug.LOG')).toHaveLength(1);
+    expect(match('*.{js,ts}', 'a.js')).toHaveLength(0);
+    expect(match('*.{js,ts}', 'a.{js,ts}')).toHaveLength(1);
+    expect(match('@(a|b)', '@(a|b)')).toHaveLength(1);
+    expect(match('\\!important', '!important')).toHaveLength(1);
+  });
+
+  it('should match what is inside a directory for "dir/**" but not the directory itself', () => {
+    expect(match('logs/**', 'logs')).toHaveLength(0);
+    expect(match('logs/**', 'logs/app.txt')).toHaveLength(1);
+  });
+});
+
+describe('isIgnoreFile', () => {
+  it('should recognize ignore files at any level and .git/info/exclude', () => {
+    expect(isIgnoreFile('/repo/.gitignore')).toBe(true);
+    expect(isIgnoreFile('/repo/src/.filescopeignore')).toBe(true);
+    expect(isIgnoreFile('/repo/.git/info/exclude')).toBe(true);
+    expect(isIgnoreFile('/repo/src/exclude')).toBe(false);
+    expect(isIgnoreFile('/repo/.gitattributes')).toBe(false);
+  });
+});
+
+describe('isIgnoredByIgnoreFiles', () => {
+  let root: string;
+
+  const write = (relativePath: string, content = '') => {
+    const filePath = path.join(root, relativePath);
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, content);
+  };
+
+  beforeAll(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'filescope-ignore-'));
+    write('.git/info/exclude', 'secret.ts\n');
+    write('.gitignore', '*.log\n!important.log\nbuild/\n/generated.ts\n');
+    write('src/.gitignore', 'local.ts\n!*.log\n');
+    write('src/.filescopeignore', 'fixtures/\n');
+    write('src/index.ts', 'import "./local";\n');
+    write('src/local.ts');
+    write('src/debug.log');
+    write('src/fixtures/data.ts');
+    write('src/generated.ts');
+    write('generated.ts');
+    write('secret.ts');
+    write('important.log');
+    write('trace.log');
+    write('build/out.js');
+    write('build/keep/important.log');
+    clearIgnoreFileCache();
+  });
+
+  afterAll(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  it('should apply every level of ignore files with the deepest and last rule winning', () => {
+    const ignored = (relativePath: string) => isIgnoredByIgnoreFiles(path.join(root, relativePath), root);
+    expect(ignored('trace.log')).toBe(true);
+    expect(ignored('important.log')).toBe(false);
+    expect(ignored('src/debug.log')).toBe(false);
+    expect(ignored('src/local.ts')).toBe(true);
+    expect(ignored('src/fixtures')).toBe(true);
+    expect(ignored('src/fixtures/data.ts')).toBe(true);
+    expect(ignored('generated.ts')).toBe(true);
+    expect(ignored('src/generated.ts')).toBe(false);
+    expect(ignored('secret.ts')).toBe(true);
+    expect(ignored('src/index.ts')).toBe(false);
+  });
+
+  it('should keep files inside an ignored directory ignored', () => {
+    expect(isIgnoredByIgnoreFiles(path.join(root, 'build'), root, true)).toBe(true);
+    expect(isIgnoredByIgnoreFiles(path.join(root, 'build/keep/important.log'), root, false)).toBe(true);
+  });
+
+  it('should apply edited rules once the cache is cleared', () => {
+    const ignored = () => isIgnoredByIgnoreFiles(path.join(root, 'src/index.ts'), root, false);
+    expect(ignored()).toBe(false);
+    write('src/.ignore', 'index.ts\n');
+    try {
+      expect(ignored()).toBe(false);
+      clearIgnoreFileCache();
+      expect(ignored()).toBe(true);
+    } finally {
+      fs.rmSync(path.join(root, 'src/.ignore'));
+      clearIgnoreFileCache();
+    }
+  });
+
+  it('should leave ignored paths out of scans', async () => {
+    const tree = await scanDirectory(root);
+    const paths: string[] = [];
+    const collect = (node: FileNode) => {
+      if (!node.isDirectory) paths.push(path.relative(root, node.path).split(path.sep).join('/'));
+      node.children?.forEach(collect);
+    };
+    collect(tree);
+    // .gitignore files themselves are dropped by the .git failsafe in isExcluded
+    expect(paths.sort()).toEqual(['important.log', 'src/.filescopeignore', 'src/debug.log', 'src/generated.ts', 'src/index.ts']);
+  });
+});
@@ -0,0 +1,213 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { globToRegExp, GlobOptions } from './glob-utils.js';
+import { log } from './logger.js';
+
+// Ignore files read in every directory, lowest precedence first
+export const IGNORE_FILE_NAMES = ['.gitignore', '.ignore', '.filescopeignore'];
+
+/**
+ * One pattern line of an ignore file
+ */
+export interface IgnoreRule {
+  pattern: string;  // The line as written, for logging
+  regex: RegExp;    // Matches paths relative to baseDir
+  negated: boolean; // '!pattern' re-includes paths an earlier rule ignored
+  dirOnly: boolean; // 'pattern/' only matches directories
+  baseDir: string;  // Directory of the ignore file; anchored patterns are relative to it
+}
+
+// Rules per directory and ignored directories, kept until clearIgnoreFileCache
+const rulesByDirectory = new Map<string, IgnoreRule[]>();
+const ignoredDirectories = new Map<string, boolean>();
+const gitRoots = new Map<string, string | null>();
+
+/**
+ * Returns whether a file holds ignore rules: one of IGNORE_FILE_NAMES or .git/info/exclude
+ */
+export function isIgnoreFile(filePath: string): boolean {
+  return IGNORE_FILE_NAMES.includes(path.basename(filePath)) ||
+    filePath.split(/[\\/]/).slice(-3).join('/') === '.git/info/exclude';
+}
+
+/**
+ * Forgets the loaded ignore files so the next check reads them again
+ */
+export function clearIgnoreFileCache(): void {
+  rulesByDirectory.clear();
+  ignoredDirectories.clear();
+  gitRoots.clear();
+}
+
+// .gitignore patterns are case-sensitive and have no braces or extglobs
+const IGNORE_GLOB_OPTIONS: GlobOptions = { caseSensitive: true, braces: false, extglobs: false };
+
+/**
+ * Compiles a gitignore pattern body through the shared glob engine into a
+ * regular expression over '/'-separated paths relative to the ignore file's directory
+ */
+function ignorePatternToRegExp(body: string, anchored: boolean): RegExp {
+  // In git, 'dir/**' matches what is inside dir but not dir itself, so '!dir/file' can re-include a file
+  const glob = body.endsWith('/**') && !body.endsWith('\\/**') ? `${body}/*` : body;
+  return globToRegExp(anchored ? `/${glob}` : glob, IGNORE_GLOB_OPTIONS);
+}
+
+/**
+ * Parses the content of a .gitignore-style file.
+ * Blank lines and '#' comments are skipped. A leading '!' negates the pattern,
+ * a trailing '/' restricts it to directories, and a pattern with a '/' at the
+ * start or in the middle is anchored to baseDir; otherwise it matches at any depth.
+ * @param content The ignore file content
+ * @param baseDir Directory of the ignore file
+ */
+export function parseIgnoreFile(content: string, baseDir: string): IgnoreRule[] {
+  const rules: IgnoreRule[] = [];
+  for (const rawLine of content.split(/\r?\n/)) {
+    // Trailing spaces are dropped unless escaped with a backslash
+    let line = rawLine.replace(/(?<!\\)\s+$/, '');
+    if (line === '' || line.startsWith('#')) continue;
+
+    // '\!' and '\#' stay escaped, so the glob engine reads them as literal characters
+    let negated = false;
+    if (line.startsWith('!')) {
+      negated = true;
+      line = line.slice(1);
+    }
+
+    let dirOnly = false;
+    if (line.endsWith('/') && !line.endsWith('\\/')) {
+      dirOnly = true;
+      line = line.replace(/\/+$/, '');
+    }
+
+    const anchored = line.includes('/');
+    line = line.replace(/^\/+/, '');
+    if (line === '') continue;
+
+    try {
+      rules.push({ pattern: rawLine.trim(), regex: ignorePatternToRegExp(line, anchored), negated, dirOnly, baseDir });
+    } catch (error) {
+      log(`[ignore] Skipping invalid pattern "${rawLine}" in ${baseDir}: ${error}`);
+    }
+  }
+  return rules;
+}
+
+// Read the rules of the ignore files in one directory
+function getDirectoryRules(dirPath: string): IgnoreRule[] {
+  let rules = rulesByDirectory.get(dirPath);
+  if (rules) return rules;
+
+  rules = [];
+  for (const fileName of IGNORE_FILE_NAMES) {
+    const ignoreFile = path.join(dirPath, fileName);
+    try {
+      if (fs.existsSync(ignoreFile)) {
+        rules.push(...parseIgnoreFile(fs.readFileSync(ignoreFile, 'utf-8'), dirPath));
+      }
+    } catch (error) {
+      log(`[ignore] Could not read ${ignoreFile}: ${error}`);
+    }
+  }
+  rulesByDirectory.set(dirPath, rules);
+  return rules;
+}
+
+// The enclosing git worktree root, so ignore files above a project in a subdirectory apply too
+function findGitRoot(projectRoot: string): string | null {
+  if (gitRoots.has(projectRoot)) return gitRoots.get(projectRoot)!;
+
+  let gitRoot: string | null = null;
+  for (let dir = projectRoot; ; dir = path.dirname(dir)) {
+    if (fs.existsSync(path.join(dir, '.git'))) {
+      gitRoot = dir;
+      break;
+    }
+    if (path.dirname(dir) === dir) break;
+  }
+  gitRoots.set(projectRoot, gitRoot);
+  return gitRoot;
+}
+
+// Rules that apply to entries of a directory: .git/info/exclude, then the ignore files from the root down
+function getRulesFor(dirPath: string, root: string): IgnoreRule[] {
+  const rules: IgnoreRule[] = [];
+  const excludeFile = path.join(root, '.git', 'info', 'exclude');
+  const excludeKey = `${excludeFile}\0exclude`;
+  let excludeRules = rulesByDirectory.get(excludeKey);
+  if (!excludeRules) {
+    excludeRules = [];
+    try {
+      if (fs.existsSync(excludeFile)) {
+        excludeRules = parseIgnoreFile(fs.readFileSync(excludeFile, 'utf-8'), root);
+      }
+    } catch (error) {
+      log(`[ignore] Could not read ${excludeFile}: ${error}`);
+    }
+    rulesByDirectory.set(excludeKey, excludeRules);
+  }
+  rules.push(...excludeRules);
+
+  const relativeDir = path.relative(root, dirPath);
+  let current = root;
+  rules.push(...getDirectoryRules(current));
+  for (const segment of relativeDir ? relativeDir.split(path.sep) : []) {
+    current = path.join(current, segment);
+    rules.push(...getDirectoryRules(current));
+  }
+  return rules;
+}
+
+// Apply the rules to one path; the last matching rule decides
+function matchRules(filePath: string, isDirectory: boolean, root: string): boolean {
+  let ignored = false;
+  for (const rule of getRulesFor(path.dirname(filePath), root)) {
+    if (rule.dirOnly && !isDirectory) continue;
+    const relativePath = path.relative(rule.baseDir, filePath).split(path.sep).join('/');
+    if (rule.regex.test(relativePath)) {
+      ignored = !rule.negated;
+    }
+  }
+  return ignored;
+}
+
+/**
+ * Checks a path against .gitignore, .ignore and .filescopeignore files at
+ * every level from the git root (or the project root outside a repository)
+ * down to the path, and against .git/info/exclude.
+ * A path inside an ignored directory stays ignored, as in git.
+ * @param filePath Absolute path to check
+ * @param projectRoot The project root directory
+ * @param isDirectory Whether the path is a directory; checked on disk when omitted
+ */
+export function isIgnoredByIgnoreFiles(filePath: string, projectRoot: string, isDirectory?: boolean): boolean {
+  const resolvedPath = path.resolve(filePath);
+  const resolvedRoot = path.resolve(projectRoot);
+  const root = findGitRoot(resolvedRoot) ?? resolvedRoot;
+  const relativePath = path.relative(root, resolvedPath);
+  if (!relativePath || relativePath.startsWith('..') || path.isAbsolute(relativePath)) {
+    return false;
+  }
+
+  // Parent directories first: nothing below an ignored directory can be re-included
+  const segments = relativePath.split(path.sep);
+  let current = root;
+  for (const segment of segments.slice(0, -1)) {
+    current = path.join(current, segment);
+    let ignored = ignoredDirectories.get(current);
+    if (ignored === undefined) {
+      ignored = matchRules(current, true, root);
+      ignoredDirectories.set(current, ignored);
+    }
+    if (ignored) return true;
+  }
+
+  if (isDirectory === undefined) {
+    try {
+      isDirectory = fs.statSync(resolvedPath).isDirectory();
+    } catch {
+      isDirectory = false;
+    }
+  }
+  return matchRules(resolvedPath, isDirectory, root);
+}
@@ -0,0 +1,103 @@
+import { extractImports } from './import-extractor';
+import { describe, it, expect } from 'vitest';
+
+describe('extractImports', () => {
+  it('should handle multi-line static imports', () => {
+    const source = [
+      'import {',
+      '  a,',
+      '  b',
+      "} from './module';"
+    ].join('\n');
+    expect(extractImports(source, 'file.ts')).toEqual([{ specifier: './module', kind: 'static', symbols: ['a', 'b'] }]);
+  });
+
+  it('should classify re-exports', () => {
+    const source = [
+      "export * from './all';",
+      "export { x } from './named';",
+      "export * as ns from './namespace';"
+    ].join('\n');
+    expect(extractImports(source, 'file.ts')).toEqual([
+      { specifier: './all', kind: 're-export', symbols: ['*'] },
+      { specifier: './named', kind: 're-export', symbols: ['x'] },
+      { specifier: './namespace', kind: 're-export', symbols: ['*'] }
+    ]);
+  });
+
+  it('should classify type-only imports and exports', () => {
+    const source = [
+      "import type { A } from './a';",
+      "import { type B, type C } from './bc';",
+      "import { type D, e } from './de';",
+      "export type { F } from './f';",
+      "let g: typeof import('./g');"
+    ].join('\n');
+    expect(extractImports(source, 'file.ts')).toEqual([
+      { specifier: './a', kind: 'type-only', symbols: ['A'] },
+      { specifier: './bc', kind: 'type-only', symbols: ['B', 'C'] },
+      { specifier: './de', kind: 'static', symbols: ['D', 'e'] },
+      { specifier: './f', kind: 'type-only', symbols: ['F'] },
+      { specifier: './g', kind: 'type-only' }
+    ]);
+  });
+
+  it('should classify dynamic imports and require calls', () => {
+    const source = [
+      "const lazy = () => import('./lazy');",
+      "const fs = require('fs');",
+      "import legacy = require('./legacy');"
+    ].join('\n');
+    expect(extractImports(source, 'file.ts')).toEqual([
+      { specifier: './lazy', kind: 'dynamic' },
+      { specifier: 'fs', kind: 'require' },
+      { specifier: './legacy', kind: 'require' }
+    ]);
+  });
+
+  it('should ignore import text inside strings and comments', () => {
+    const source = [
+      "// import { a } from './commented';",
+      "/* require('./block-comment') */",
+      "const text = \"import b from './in-string'\";",
+      "import real from './real';"
+    ].join('\n');
+    expect(extractImports(source, 'file.js')).toEqual([{ specifier: './real', kind: 'static', symbols: ['default'] }]);
+  });
+
+  it('should turn computed specifiers into glob patterns', () => {
+    const source = [
+      "const m = import(`./locales/${lang}.json`);",
+      "const n = import(`./fixed`);",
+      "const p = require('./plugins/' + name + '/index.js');",
+      "const q = import(`${base}${file}`);",
+      "const r = import(moduleName);"
+    ].join('\n');
+    expect(extractImports(source, 'file.ts')).toEqual([
+      { specifier: './locales/*.json', kind: 'dynamic', isPattern: true },
+      { specifier: './fixed', kind: 'dynamic' },
+      { specifier: './plugins/*/index.js', kind: 'dynamic', isPattern: true }
+    ]);
+  });
+
+  it('should parse JSX files', () => {
+    const source = "import React from 'react';\nexport const App = () => <div>import x from 'y'</div>;";
+    expect(extractImports(source, 'App.jsx')).toEqual([{ specifier: 'react', kind: 'static', symbols: ['default'] }]);
+  });
+
+  it('should classify side-effect imports', () => {
+    const source = "import './polyfills';\nimport styles, * as all from './styles';";
+    expect(extractImports(source, 'file.ts')).toEqual([
+      { specifier: './polyfills', kind: 'side-effect' },
+      { specifier: './styles', kind: 'static', symbols: ['default', '*'] }
+    ]);
+  });
+
+  it('should record renamed and destructured symbols by their exported name', () => {
+    const source = "import { a as b } from './a';\nconst { c, d: e } = require('./cd');";
+    expect(extractImports(source, 'file.ts')).toEqual([
+      { specifier: './a', kind: 'static', symbols: ['a'] },
+      { specifier: './cd', kind: 'require', symbols: ['c', 'd'] }
+    ]);
+  });
+});
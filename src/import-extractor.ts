@@ -0,0 +1,191 @@
+import ts from 'typescript';
+import * as path from 'path';
+import { ImportKind } from './types.js';
+import { log } from './logger.js';
+
+/**
+ * A single import found in a source file, before resolution
+ */
+export interface ExtractedImport {
+  specifier: string;  // The module specifier as written, e.g. './utils' or 'react'
+  kind: ImportKind;   // How the module is imported
+  symbols?: string[]; // Imported names ('default' for default imports, '*' for namespace imports)
+  isPattern?: boolean; // The specifier is a glob built from a computed path, e.g. `./locales/*.json`
+}
+
+// Pick the script kind so the parser accepts JSX where appropriate
+function getScriptKind(filePath: string): ts.ScriptKind {
+  switch (path.extname(filePath).toLowerCase()) {
+    case '.tsx':
+      return ts.ScriptKind.TSX;
+    case '.jsx':
+      return ts.ScriptKind.JSX;
+    case '.js':
+    case '.mjs':
+    case '.cjs':
+      return ts.ScriptKind.JS;
+    default:
+      return ts.ScriptKind.TS;
+  }
+}
+
+// Only plain string specifiers can be resolved statically
+function getStringSpecifier(node: ts.Node | undefined): string | null {
+  if (node && (ts.isStringLiteral(node) || ts.isNoSubstitutionTemplateLiteral(node))) {
+    return node.text;
+  }
+  return null;
+}
+
+// Turn a computed specifier into a glob: `./locales/${lang}.json` and
+// './locales/' + lang + '.json' both become `./locales/*.json`
+function getPatternSpecifier(node: ts.Node | undefined): string | null {
+  if (!node) return null;
+
+  const parts: (string | null)[] = [];
+  const collect = (part: ts.Expression) => {
+    if (ts.isParenthesizedExpression(part)) {
+      collect(part.expression);
+    } else if (ts.isBinaryExpression(part) && part.operatorToken.kind === ts.SyntaxKind.PlusToken) {
+      collect(part.left);
+      collect(part.right);
+    } else if (ts.isTemplateExpression(part)) {
+      parts.push(part.head.text);
+      for (const span of part.templateSpans) {
+        parts.push(null, span.literal.text);
+      }
+    } else {
+      parts.push(getStringSpecifier(part));
+    }
+  };
+
+  if (!ts.isTemplateExpression(node) && !(ts.isBinaryExpression(node) && node.operatorToken.kind === ts.SyntaxKind.PlusToken)) {
+    return null;
+  }
+  collect(node);
+
+  // A pattern needs some fixed text to be worth matching
+  if (!parts.some(part => part)) return null;
+  return parts.map(part => part ?? '*').join('').replace(/\*+/g, '*');
+}
+
+// An import is type-only if the whole clause is `import type`, or every named binding is `type`
+function isTypeOnlyImport(importClause: ts.ImportClause | undefined): boolean {
+  if (!importClause) return false;
+  if (importClause.isTypeOnly) return true;
+  if (importClause.name) return false;
+
+  const bindings = importClause.namedBindings;
+  return !!bindings &&
+         ts.isNamedImports(bindings) &&
+         bindings.elements.length > 0 &&
+         bindings.elements.every(element => element.isTypeOnly);
+}
+
+// Names brought in by an import clause
+function getImportedSymbols(importClause: ts.ImportClause): string[] {
+  const symbols: string[] = [];
+  if (importClause.name) {
+    symbols.push('default');
+  }
+
+  const bindings = importClause.namedBindings;
+  if (bindings && ts.isNamespaceImport(bindings)) {
+    symbols.push('*');
+  } else if (bindings && ts.isNamedImports(bindings)) {
+    for (const element of bindings.elements) {
+      symbols.push((element.propertyName ?? element.name).text);
+    }
+  }
+  return symbols;
+}
+
+// Names re-exported by an export declaration
+function getReExportedSymbols(node: ts.ExportDeclaration): string[] {
+  const clause = node.exportClause;
+  if (!clause || ts.isNamespaceExport(clause)) {
+    return ['*'];
+  }
+  return clause.elements.map(element => (element.propertyName ?? element.name).text);
+}
+
+// Names destructured from a require call, e.g. `const { a, b } = require('x')`
+function getRequiredSymbols(node: ts.CallExpression): string[] | undefined {
+  const parent = node.parent;
+  if (parent && ts.isVariableDeclaration(parent) && ts.isObjectBindingPattern(parent.name)) {
+    return parent.name.elements.map(element => {
+      const name = element.propertyName ?? element.name;
+      return ts.isIdentifier(name) ? name.text : name.getText();
+    });
+  }
+  return undefined;
+}
+
+/**
+ * Extracts import specifiers from JavaScript/TypeScript source using the
+ * TypeScript parser, so multi-line imports are handled and text inside strings
+ * and comments is ignored.
+ * @param content The source text of the file
+ * @param filePath The file path, used to pick the right parser mode
+ * @returns Every import found, in source order
+ */
+export function extractImports(content: string, filePath: string): ExtractedImport[] {
+  const imports: ExtractedImport[] = [];
+  const sourceFile = ts.createSourceFile(filePath, content, ts.ScriptTarget.Latest, true, getScriptKind(filePath));
+
+  function addImport(specifierNode: ts.Node | undefined, kind: ImportKind, symbols?: string[]): void {
+    const specifier = getStringSpecifier(specifierNode);
+    if (specifier) {
+      imports.push(symbols && symbols.length > 0 ? { specifier, kind, symbols } : { specifier, kind });
+    }
+  }
+
+  function visit(node: ts.Node): void {
+    if (ts.isImportDeclaration(node)) {
+      if (!node.importClause) {
+        // import 'a';
+        addImport(node.moduleSpecifier, 'side-effect');
+      } else {
+        // import x from 'a'; import type { X } from 'a';
+        addImport(node.moduleSpecifier, isTypeOnlyImport(node.importClause) ? 'type-only' : 'static', getImportedSymbols(node.importClause));
+      }
+    } else if (ts.isExportDeclaration(node) && node.moduleSpecifier) {
+      // export * from 'a'; export { x } from 'a'; export type { X } from 'a';
+      addImport(node.moduleSpecifier, node.isTypeOnly ? 'type-only' : 're-export', getReExportedSymbols(node));
+    } else if (ts.isImportEqualsDeclaration(node) && ts.isExternalModuleReference(node.moduleReference)) {
+      // import x = require('a');
+      addImport(node.moduleReference.expression, node.isTypeOnly ? 'type-only' : 'require');
+    } else if (ts.isImportTypeNode(node)) {
+      // let x: typeof import('a');
+      const argument = node.argument;
+      if (ts.isLiteralTypeNode(argument)) {
+        addImport(argument.literal, 'type-only');
+      }
+    } else if (ts.isCallExpression(node)) {
+      const isDynamicImport = node.expression.kind === ts.SyntaxKind.ImportKeyword;
+      const isRequire = ts.isIdentifier(node.expression) && node.expression.text === 'require' && node.arguments.length === 1;
+      const pattern = isDynamicImport || isRequire ? getPatternSpecifier(node.arguments[0]) : null;
+
+      if (pattern) {
+        // import(`./locales/${lang}.json`) may load any file the pattern matches
+        imports.push({ specifier: pattern, kind: 'dynamic', isPattern: true });
+      } else if (isDynamicImport) {
+        // import('a')
+        addImport(node.arguments[0], 'dynamic');
+      } else if (isRequire) {
+        // require('a')
+        addImport(node.arguments[0], 'require', getRequiredSymbols(node));
+      }
+    }
+
+    ts.forEachChild(node, visit);
+  }
+
+  try {
+    visit(sourceFile);
+  } catch (error) {
+    log(`[import-extractor] Failed to parse ${filePath}: ${error}`);
+  }
+
+  return imports;
+}
@@ -0,0 +1,11 @@
+import { asJsonObject } from './json-utils';
+import { describe, it, expect } from 'vitest';
+
+describe('asJsonObject', () => {
+  it('should accept objects and reject arrays, null and primitives', () => {
+    expect(asJsonObject({ name: 'app' })).toEqual({ name: 'app' });
+    expect(asJsonObject(['app'])).toBeUndefined();
+    expect(asJsonObject(null)).toBeUndefined();
+    expect(asJsonObject('app')).toBeUndefined();
+  });
+});
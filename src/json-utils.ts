@@ -0,0 +1,12 @@
+/**
+ * A parsed JSON object such as a package.json or composer.json. Values come
+ * from files on disk, so they are narrowed where they are read.
+ */
+export type JsonObject = Record<string, unknown>;
+
+/**
+ * Returns a value if it is a JSON object (not an array or null), otherwise undefined
+ */
+export function asJsonObject(value: unknown): JsonObject | undefined {
+  return typeof value === 'object' && value !== null && !Array.isArray(value) ? value as JsonObject : undefined;
+}
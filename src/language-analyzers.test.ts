@@ -0,0 +1,65 @@
+import { createPatternAnalyzer, getAnalyzerForFile, loadLanguageAnalyzers, registerLanguageAnalyzer } from './language-analyzers';
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+describe('getAnalyzerForFile', () => {
+  it('should pick the built-in analyzer by extension', () => {
+    expect(getAnalyzerForFile('/app/src/index.ts')?.name).toBe('javascript');
+    expect(getAnalyzerForFile('/app/src/App.vue')?.name).toBe('javascript');
+    expect(getAnalyzerForFile('/app/styles/main.scss')?.name).toBe('stylesheet');
+    expect(getAnalyzerForFile('/app/pkg/main.go')?.name).toBe('go');
+    expect(getAnalyzerForFile('/app/README.md')).toBeNull();
+  });
+
+  it('should score files by language', () => {
+    expect(getAnalyzerForFile('/app/a.ts')?.getInitialImportance?.('/app/a.ts', '/app')).toBe(3);
+    expect(getAnalyzerForFile('/app/a.js')?.getInitialImportance?.('/app/a.js', '/app')).toBe(2);
+    expect(getAnalyzerForFile('/app/a_test.go')?.getInitialImportance?.('/app/a_test.go', '/app')).toBe(1);
+  });
+});
+
+describe('custom analyzers', () => {
+  let root: string;
+
+  beforeAll(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'filescope-analyzers-'));
+    fs.writeFileSync(path.join(root, 'main.tpl'), '{% include "./partials/header" %}\n{% include "layouts/base" %}\n');
+    fs.mkdirSync(path.join(root, 'partials'));
+    fs.writeFileSync(path.join(root, 'partials', 'header.tpl'), '');
+    fs.writeFileSync(path.join(root, 'plugin.mjs'), [
+      'export default {',
+      '  name: "template",',
+      '  extensions: [".tpl"],',
+      '  extractImports: () => [],',
+      '  resolveImport: () => ({})',
+      '};'
+    ].join('\n'));
+  });
+
+  afterAll(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  it('should extract the first capture group and resolve relative paths or packages', async () => {
+    const analyzer = createPatternAnalyzer('template', ['.tpl'], /\{%\s*include\s+"([^"]+)"/g);
+    const filePath = path.join(root, 'main.tpl');
+    const imports = analyzer.extractImports(fs.readFileSync(filePath, 'utf-8'), filePath);
+    expect(imports).toEqual([
+      { specifier: './partials/header', kind: 'static' },
+      { specifier: 'layouts/base', kind: 'static' }
+    ]);
+    expect(await analyzer.resolveImport(imports[0], filePath, root)).toEqual({ files: [{ path: path.join(root, 'partials', 'header.tpl'), symbols: undefined }] });
+    expect(await analyzer.resolveImport(imports[1], filePath, root)).toEqual({ package: { name: 'layouts/base' } });
+  });
+
+  it('should register analyzers loaded from configured modules', async () => {
+    expect(getAnalyzerForFile('/app/page.tpl')).toBeNull();
+    await loadLanguageAnalyzers(['plugin.mjs', 'missing.mjs'], root);
+    expect(getAnalyzerForFile('/app/page.tpl')?.name).toBe('template');
+
+    registerLanguageAnalyzer(createPatternAnalyzer('template', ['.tpl'], /include "([^"]+)"/g));
+    expect(getAnalyzerForFile('/app/page.tpl')?.extractImports('include "x"', '/app/page.tpl')).toEqual([{ specifier: 'x', kind: 'static' }]);
+  });
+});
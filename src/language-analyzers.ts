@@ -0,0 +1,501 @@
+import * as path from 'path';
+import { pathToFileURL } from 'url';
+import { ExternalDependency, ImportKind, PackageDependency } from './types.js';
+import { log } from './logger.js';
+import { ExtractedImport, extractImports } from './import-extractor.js';
+import { clearTsConfigCache } from './tsconfig-utils.js';
+import { clearWorkspaceCache } from './workspace-utils.js';
+import { clearResolverCache, findExistingFile, readPackageJson, resolveModuleImport } from './module-resolver.js';
+import { asJsonObject } from './json-utils.js';
+import { COMPONENT_EXTENSIONS, extractComponentImports } from './component-imports.js';
+import { STYLESHEET_EXTENSIONS, extractStylesheetImports, isStyleOrAssetFile, resolveStylesheetImport } from './stylesheet-imports.js';
+import { clearPythonCache, extractPythonImports, getPythonRequirement, resolvePythonImport } from './python-imports.js';
+import { clearCIncludeCache, extractCIncludes, resolveCInclude } from './c-includes.js';
+import { clearRustCache, extractRustImports, resolveRustImport } from './rust-imports.js';
+import { clearGoCache, extractGoImports, resolveGoImport } from './go-imports.js';
+import { buildNamespaceIndex, clearNamespaceIndex, extractCSharpUsings, extractJavaImports, indexNamespaceFile, NamespaceLanguage, removeFromNamespaceIndex, resolveNamespaceImport } from './namespace-index.js';
+import { clearPhpCache, extractPhpImports, resolvePhpImport } from './php-imports.js';
+
+/**
+ * A package an import resolved to, before the analyzer fills in manifest details
+ */
+export interface ResolvedPackage {
+  name: string;              // Package, crate or module name
+  path?: string;             // Where the package lives (e.g. its node_modules directory)
+  version?: string;          // Version declared by the project, if known
+  isDevDependency?: boolean; // Whether the project only needs it for development
+}
+
+/**
+ * What a single import resolved to. An import may resolve to several files
+ * (e.g. a Go package), or to a package or external module instead.
+ */
+export interface ImportResolution {
+  files?: { path: string; symbols?: string[]; kind?: ImportKind }[]; // Local files, with an optional override of the edge kind
+  package?: ResolvedPackage;                                          // Third-party package
+  external?: ExternalDependency;                                      // Standard library module or system header
+}
+
+/**
+ * Everything FileScopeMCP needs to know about one language: which files it
+ * covers, how to find their imports, how to resolve them, and how important
+ * its files are before dependents are counted.
+ */
+export interface LanguageAnalyzer {
+  name: string;       // Unique name; registering another analyzer with the same name replaces it
+  extensions: string[]; // File extensions handled, including the dot (e.g. '.py')
+
+  /** Extracts the import specifiers of a file */
+  extractImports(content: string, filePath: string): ExtractedImport[];
+
+  /** Resolves one import of a file to local files, a package or an external module */
+  resolveImport(imported: ExtractedImport, filePath: string, baseDir: string): ImportResolution | Promise<ImportResolution>;
+
+  /** Builds the package dependency for a resolved package, adding manifest details; null drops it */
+  classifyPackage?(pkg: ResolvedPackage, imported: ExtractedImport, filePath: string, baseDir: string): PackageDependency | null | Promise<PackageDependency | null>;
+
+  /** The base importance of a file of this language, before location and name bonuses */
+  getInitialImportance?(filePath: string, baseDir: string): number;
+
+  /** Drops everything cached from the previous scan */
+  clearCache?(): void;
+
+  /** Indexes every file of this language before any import is resolved */
+  indexFiles?(filePaths: string[]): Promise<void>;
+
+  /** Re-indexes a file whose content was just read */
+  indexFile?(filePath: string, content: string): void;
+
+  /** Forgets a file that was removed from the tree */
+  removeFile?(filePath: string): void;
+}
+
+// Helper to extract package version from package.json (parsed once per scan) if available
+async function extractPackageVersion(packageName: string, baseDir: string): Promise<string | undefined> {
+  try {
+    // Handle scoped packages by getting the basic package name
+    let basicPackageName = packageName;
+    if (packageName.startsWith('@')) {
+      // For scoped packages like @supabase/supabase-js, extract the scope part
+      const parts = packageName.split('/');
+      if (parts.length > 1) {
+        // Keep the scoped name as is
+        basicPackageName = packageName;
+      }
+    } else if (packageName.includes('/')) {
+      // For imports like 'firebase/auth', extract the base package
+      basicPackageName = packageName.split('/')[0];
+    }
+
+    const packageData = await readPackageJson(baseDir);
+
+    // Check both dependencies and devDependencies
+    for (const field of ['dependencies', 'devDependencies']) {
+      const version = asJsonObject(packageData?.[field])?.[basicPackageName];
+      if (typeof version === 'string' && version) {
+        return version;
+      }
+    }
+
+    return undefined;
+  } catch (error) {
+    log(`Failed to extract package version for ${packageName}: ${error}`);
+    return undefined;
+  }
+}
+
+// Build a PackageDependency for an npm package import, filling in name, version and dev status
+async function createPackageDependency(importPath: string, resolvedPath: string, kind: ImportKind, symbols: string[] | undefined, baseDir: string): Promise<PackageDependency | null> {
+  const pkgDep = PackageDependency.fromPath(resolvedPath);
+  pkgDep.importKind = kind;
+  if (symbols) {
+    pkgDep.symbols = symbols;
+  }
+
+  // Set the package name directly from the import path if it's empty
+  if (!pkgDep.name) {
+    // For imports like '@scope/package'
+    if (importPath.startsWith('@')) {
+      const parts = importPath.split('/');
+      if (parts.length >= 2) {
+        pkgDep.scope = parts[0];
+        pkgDep.name = `${parts[0]}/${parts[1]}`;
+      }
+    }
+    // For imports like 'package'
+    else if (importPath.includes('/')) {
+      pkgDep.name = importPath.split('/')[0];
+    } else {
+      pkgDep.name = importPath;
+    }
+  }
+
+  // Skip if the resolved package name is a template literal
+  if (pkgDep.name.includes('${') && pkgDep.name.includes('}')) {
+    log(`Skipping package with template literal name: ${pkgDep.name}`);
+    return null;
+  }
+
+  // Try to extract version information
+  if (pkgDep.name) {
+    const version = await extractPackageVersion(pkgDep.name, baseDir);
+    if (version) {
+      pkgDep.version = version;
+    }
+
+    // Check if it's a dev dependency
+    const packageData = await readPackageJson(baseDir);
+    if (asJsonObject(packageData?.devDependencies)?.[pkgDep.name]) {
+      pkgDep.isDevDependency = true;
+    }
+  }
+
+  return pkgDep;
+}
+
+// npm packages take their version and dev status from the project's package.json
+function classifyNpmPackage(pkg: ResolvedPackage, imported: ExtractedImport, filePath: string, baseDir: string): Promise<PackageDependency | null> {
+  return createPackageDependency(pkg.name, pkg.path ?? path.join(baseDir, 'node_modules', pkg.name), imported.kind, imported.symbols, baseDir);
+}
+
+// Stylesheet rules, url() references and component style blocks resolve like Sass/Less/CSS bundlers do
+function resolveStyleReference(imported: ExtractedImport, filePath: string, baseDir: string): ImportResolution {
+  const resolution = resolveStylesheetImport(imported.specifier, filePath, baseDir);
+  if (resolution.resolvedPath) {
+    return { files: [{ path: resolution.resolvedPath, symbols: imported.symbols }] };
+  }
+  if (resolution.builtinModule) {
+    return { external: { name: resolution.builtinModule, category: 'stdlib' } };
+  }
+  if (resolution.packageName) {
+    return { package: { name: resolution.packageName, path: path.join(baseDir, 'node_modules', resolution.packageName) } };
+  }
+  return {};
+}
+
+// JavaScript/TypeScript, and the script blocks of Vue, Svelte and Astro components
+const javascriptAnalyzer: LanguageAnalyzer = {
+  name: 'javascript',
+  extensions: ['.js', '.jsx', '.ts', '.tsx', '.mjs', '.cjs', '.mts', '.cts', ...COMPONENT_EXTENSIONS],
+  extractImports(content, filePath) {
+    return COMPONENT_EXTENSIONS.includes(path.extname(filePath))
+      ? extractComponentImports(content, filePath)
+      : extractImports(content, filePath);
+  },
+  async resolveImport(imported, filePath, baseDir) {
+    // Component style blocks are stylesheets
+    if (imported.kind === 'asset') {
+      return resolveStyleReference(imported, filePath, baseDir);
+    }
+    // Imported stylesheets and assets are asset edges
+    const resolution = await resolveModuleImport(imported.specifier, filePath, baseDir);
+    if (resolution.resolvedPath) {
+      const kind = isStyleOrAssetFile(resolution.resolvedPath) ? 'asset' : imported.kind;
+      return { files: [{ path: resolution.resolvedPath, symbols: imported.symbols, kind }] };
+    }
+    if (resolution.isPackage) {
+      return { package: { name: imported.specifier, path: path.normalize(path.join(baseDir, 'node_modules', imported.specifier)) } };
+    }
+    return {};
+  },
+  classifyPackage: classifyNpmPackage,
+  getInitialImportance(filePath) {
+    return ['.ts', '.tsx', '.mts', '.cts'].includes(path.extname(filePath)) ? 3 : 2;
+  },
+  clearCache() {
+    clearTsConfigCache();
+    clearResolverCache();
+    clearWorkspaceCache();
+  }
+};
+
+// CSS, Sass and Less; every reference is an asset edge
+const stylesheetAnalyzer: LanguageAnalyzer = {
+  name: 'stylesheet',
+  extensions: STYLESHEET_EXTENSIONS,
+  extractImports: extractStylesheetImports,
+  resolveImport: resolveStyleReference,
+  classifyPackage: classifyNpmPackage
+};
+
+// Python modules resolve through packages and source roots; the rest is stdlib or third-party
+const pythonAnalyzer: LanguageAnalyzer = {
+  name: 'python',
+  extensions: ['.py'],
+  extractImports: content => extractPythonImports(content),
+  resolveImport(imported, filePath, baseDir) {
+    const resolution = resolvePythonImport(imported.specifier, imported.symbols, filePath, baseDir);
+    const result: ImportResolution = { files: resolution.files };
+    if (resolution.topLevelModule && resolution.isStdlib) {
+      result.external = { name: resolution.topLevelModule, category: 'stdlib' };
+    } else if (resolution.topLevelModule) {
+      const requirement = getPythonRequirement(resolution.topLevelModule, filePath, baseDir);
+      result.package = { name: resolution.topLevelModule, version: requirement?.version, isDevDependency: requirement?.isDev };
+    }
+    return result;
+  },
+  clearCache: clearPythonCache
+};
+
+// C/C++ includes resolve through include directories; anything outside the project is a system header
+const cAnalyzer: LanguageAnalyzer = {
+  name: 'c-cpp',
+  extensions: ['.c', '.cpp', '.cc', '.cxx', '.h', '.hpp', '.hh', '.hxx'],
+  extractImports: content => extractCIncludes(content),
+  resolveImport(imported, filePath, baseDir) {
+    const resolution = resolveCInclude(imported.specifier, filePath, baseDir);
+    if (resolution.resolvedPath) {
+      return { files: [{ path: resolution.resolvedPath, symbols: imported.symbols }] };
+    }
+    if (resolution.systemHeader) {
+      return { external: { name: resolution.systemHeader, category: 'system-header' } };
+    }
+    return {};
+  },
+  clearCache: clearCIncludeCache
+};
+
+// Rust paths resolve through the crate's module tree; other crates come from Cargo.toml
+const rustAnalyzer: LanguageAnalyzer = {
+  name: 'rust',
+  extensions: ['.rs'],
+  extractImports: content => extractRustImports(content),
+  resolveImport(imported, filePath, baseDir) {
+    const resolution = resolveRustImport(imported.specifier, filePath, baseDir);
+    if (resolution.resolvedPath) {
+      return { files: [{ path: resolution.resolvedPath, symbols: imported.symbols }] };
+    }
+    if (resolution.crate && resolution.isStdlib) {
+      return { external: { name: resolution.crate, category: 'stdlib' } };
+    }
+    if (resolution.crate) {
+      return { package: { name: resolution.crate, version: resolution.version, isDevDependency: resolution.isDevDependency } };
+    }
+    return {};
+  },
+  clearCache: clearRustCache
+};
+
+// Go imports under a local module path resolve to every file of that package directory
+const goAnalyzer: LanguageAnalyzer = {
+  name: 'go',
+  extensions: ['.go'],
+  extractImports: content => extractGoImports(content),
+  resolveImport(imported, filePath, baseDir) {
+    const resolution = resolveGoImport(imported.specifier, filePath, baseDir);
+    const result: ImportResolution = { files: resolution.files.map(file => ({ path: file, symbols: imported.symbols })) };
+    if (resolution.module && resolution.isStdlib) {
+      result.external = { name: resolution.module, category: 'stdlib' };
+    } else if (resolution.module) {
+      result.package = { name: resolution.module, version: resolution.version };
+    }
+    return result;
+  },
+  // Test files are part of the package but nothing imports them
+  getInitialImportance: filePath => filePath.endsWith('_test.go') ? 1 : 2,
+  clearCache: clearGoCache
+};
+
+// Java packages and C# namespaces resolve to the declaring files of the same language; unknown namespaces are external packages
+function createNamespaceAnalyzer(name: NamespaceLanguage, extensions: string[], extract: (content: string) => ExtractedImport[]): LanguageAnalyzer {
+  return {
+    name,
+    extensions,
+    extractImports: content => extract(content),
+    resolveImport(imported) {
+      const resolution = resolveNamespaceImport(imported.specifier, name);
+      const result: ImportResolution = { files: resolution.files };
+      if (resolution.externalNamespace) {
+        result.package = { name: resolution.externalNamespace };
+      }
+      return result;
+    },
+    clearCache: () => clearNamespaceIndex(name),
+    indexFiles: filePaths => buildNamespaceIndex(filePaths, name),
+    indexFile: (filePath, content) => indexNamespaceFile(filePath, content, name),
+    removeFile: filePath => removeFromNamespaceIndex(filePath, name)
+  };
+}
+
+// PHP classes resolve through PSR-4 autoload prefixes; vendor namespaces map to composer.lock packages
+const phpAnalyzer: LanguageAnalyzer = {
+  name: 'php',
+  extensions: ['.php', '.phtml'],
+  extractImports: content => extractPhpImports(content),
+  resolveImport(imported, filePath, baseDir) {
+    const resolution = resolvePhpImport(imported.specifier, filePath, baseDir);
+    if (resolution.resolvedPath) {
+      return { files: [{ path: resolution.resolvedPath, symbols: imported.symbols }] };
+    }
+    if (resolution.package) {
+      return { package: { name: resolution.package.name, version: resolution.package.version, isDevDependency: resolution.package.isDev } };
+    }
+    if (resolution.builtinClass) {
+      return { external: { name: resolution.builtinClass, category: 'stdlib' } };
+    }
+    return {};
+  },
+  getInitialImportance(filePath) {
+    const fileName = path.basename(filePath).toLowerCase();
+    // Blade layout files are more important than regular views
+    if (fileName.endsWith('.blade.php')) {
+      return fileName.includes('layout') || fileName.includes('app') ? 3 : 2;
+    }
+    // PHP controllers and models are highly important
+    return fileName.includes('controller') || fileName.includes('model') ? 3 : 2;
+  },
+  clearCache: clearPhpCache
+};
+
+/**
+ * Creates an analyzer for a language whose imports a regex can find. The
+ * first capture group of the pattern is the specifier. Relative specifiers
+ * are looked up next to the importing file, as written and with the file's
+ * own extension; anything else is a package.
+ * @param name The analyzer name
+ * @param extensions The file extensions it handles
+ * @param pattern A global regex matching one import per match
+ */
+export function createPatternAnalyzer(name: string, extensions: string[], pattern: RegExp): LanguageAnalyzer {
+  return {
+    name,
+    extensions,
+    extractImports(content) {
+      const imports: ExtractedImport[] = [];
+      for (const match of content.matchAll(new RegExp(pattern.source, pattern.flags.includes('g') ? pattern.flags : pattern.flags + 'g'))) {
+        if (match[1]) {
+          imports.push({ specifier: match[1], kind: 'static' });
+        }
+      }
+      return imports;
+    },
+    async resolveImport(imported, filePath) {
+      const importPath = imported.specifier;
+      if (!importPath.startsWith('.') && !importPath.startsWith('/')) {
+        return { package: { name: importPath } };
+      }
+      const resolvedPath = path.resolve(path.dirname(filePath), importPath);
+      const existingPath = await findExistingFile([resolvedPath, resolvedPath + path.extname(filePath)]);
+      return existingPath ? { files: [{ path: existingPath, symbols: imported.symbols }] } : {};
+    }
+  };
+}
+
+// Lua modules use dotted names relative to the project root (`require("app.util")`)
+const luaAnalyzer: LanguageAnalyzer = {
+  ...createPatternAnalyzer('lua', ['.lua'], /require\s*\(?\s*['"]([^'"]+)['"]/g),
+  async resolveImport(imported, filePath, baseDir) {
+    const modulePath = imported.specifier.replace(/\./g, '/');
+    const candidates = [path.dirname(filePath), baseDir].flatMap(dir => [
+      path.join(dir, modulePath + '.lua'),
+      path.join(dir, modulePath, 'init.lua')
+    ]);
+    const existingPath = await findExistingFile(candidates);
+    return existingPath ? { files: [{ path: existingPath, symbols: imported.symbols }] } : { package: { name: imported.specifier.split('.')[0] } };
+  }
+};
+
+// Zig imports name a file, the standard library, or a module declared in build.zig
+const zigAnalyzer: LanguageAnalyzer = {
+  ...createPatternAnalyzer('zig', ['.zig'], /@import\s*\(\s*"([^"]+)"\s*\)/g),
+  async resolveImport(imported, filePath) {
+    if (imported.specifier === 'std' || imported.specifier === 'builtin' || imported.specifier === 'root') {
+      return { external: { name: imported.specifier, category: 'stdlib' } };
+    }
+    if (!imported.specifier.endsWith('.zig') && !imported.specifier.endsWith('.zon')) {
+      return { package: { name: imported.specifier } };
+    }
+    const existingPath = await findExistingFile([path.resolve(path.dirname(filePath), imported.specifier)]);
+    return existingPath ? { files: [{ path: existingPath, symbols: imported.symbols }] } : {};
+  }
+};
+
+// Analyzers by name, in registration order; later registrations win for shared extensions
+const analyzers = new Map<string, LanguageAnalyzer>();
+
+/**
+ * Registers an analyzer. An analyzer with the same name is replaced, and
+ * extensions claimed by an earlier analyzer move to the new one.
+ */
+export function registerLanguageAnalyzer(analyzer: LanguageAnalyzer): void {
+  analyzers.delete(analyzer.name);
+  analyzers.set(analyzer.name, analyzer);
+}
+
+/**
+ * Lists the registered analyzers in registration order
+ */
+export function getLanguageAnalyzers(): LanguageAnalyzer[] {
+  return [...analyzers.values()];
+}
+
+/**
+ * Returns the analyzer responsible for a file, or null if no analyzer handles its extension
+ */
+export function getAnalyzerForFile(filePath: string): LanguageAnalyzer | null {
+  const ext = path.extname(filePath);
+  const registered = getLanguageAnalyzers();
+  for (let i = registered.length - 1; i >= 0; i--) {
+    if (registered[i].extensions.includes(ext)) {
+      return registered[i];
+    }
+  }
+  return null;
+}
+
+[
+  javascriptAnalyzer,
+  stylesheetAnalyzer,
+  pythonAnalyzer,
+  cAnalyzer,
+  rustAnalyzer,
+  goAnalyzer,
+  createNamespaceAnalyzer('java', ['.java'], extractJavaImports),
+  createNamespaceAnalyzer('csharp', ['.cs'], extractCSharpUsings),
+  phpAnalyzer,
+  luaAnalyzer,
+  zigAnalyzer
+].forEach(registerLanguageAnalyzer);
+
+// Module paths already loaded from config.json, so rescans do not re-import them
+const loadedModules = new Set<string>();
+
+function isLanguageAnalyzer(value: unknown): value is LanguageAnalyzer {
+  return typeof value === 'object' && value !== null &&
+    'name' in value && typeof value.name === 'string' &&
+    'extensions' in value && Array.isArray(value.extensions) && value.extensions.every(extension => typeof extension === 'string') &&
+    'extractImports' in value && typeof value.extractImports === 'function' &&
+    'resolveImport' in value && typeof value.resolveImport === 'function';
+}
+
+/**
+ * Loads the extra analyzers listed under `languageAnalyzers` in config.json.
+ * Each entry is a module path, relative to the project root, whose default
+ * export (or `analyzers` export) is an analyzer or an array of analyzers.
+ * Modules that fail to load are logged and skipped.
+ * @param modulePaths The configured module paths
+ * @param baseDir The project root directory
+ */
+export async function loadLanguageAnalyzers(modulePaths: string[], baseDir: string): Promise<void> {
+  for (const modulePath of modulePaths) {
+    const fullPath = path.resolve(baseDir, modulePath);
+    if (loadedModules.has(fullPath)) continue;
+    loadedModules.add(fullPath);
+
+    try {
+      const loaded: Record<string, unknown> = await import(pathToFileURL(fullPath).href);
+      const exported = loaded.default ?? loaded.analyzers;
+      const candidates: unknown[] = Array.isArray(exported) ? exported : [exported];
+      for (const candidate of candidates) {
+        if (isLanguageAnalyzer(candidate)) {
+          registerLanguageAnalyzer(candidate);
+          log(`Registered language analyzer '${candidate.name}' for ${candidate.extensions.join(', ')} from ${fullPath}`);
+        } else {
+          log(`Ignoring export of ${fullPath}: not a language analyzer`);
+        }
+      }
+    } catch (error) {
+      log(`Failed to load language analyzer module ${fullPath}: ${error}`);
+    }
+  }
+}
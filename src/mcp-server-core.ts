@@ -6,9 +6,10 @@ import {
   FileNode, 
   ToolResponse, 
   FileTreeConfig,
-  FileWatchingConfig
+  FileWatchingConfig,
+  ImportKind
 } from "./types.js";
-import { scanDirectory, calculateImportance, setFileImportance, buildDependentMap, normalizePath, addFileNode, removeFileNode, excludeAndRemoveFile } from "./file-utils.js";
+import { scanDirectory, getLastScanStats, calculateImportance, setFileImportance, buildDependentMap, normalizePath, addFileNode, removeFileNode, updateChangedFileNode, isManifestFile, excludeAndRemoveFile } from "./file-utils.js";
 import { 
   createFileTreeConfig, 
   saveFileTree,
@@ -23,14 +24,26 @@ import { setProjectRoot, getProjectRoot, setConfig, getConfig } from './global-s
 import { loadConfig, saveConfig } from './config-utils.js';
 import { FileWatcher, FileEventType } from './file-watcher.js';
 import { log, enableFileLogging } from './logger.js';
+import { filterEdgesByKind, getDependencyEdges, getDependentEdges } from './dependency-edges.js';
+import { ASSET_EXTENSIONS, STYLESHEET_EXTENSIONS } from './stylesheet-imports.js';
+import { ScanStats } from './scan-pipeline.js';
+import { clearIgnoreFileCache, isIgnoreFile } from './ignore-files.js';
+import { buildDependencyGraph, findCircularDependencies, findImportPath, findTransitiveDependencies, findTransitiveDependents } from './dependency-graph.js';
+import { findTestsForFile, findUntestedFiles, getTestFilePatterns, getTestFiles, isTestFile } from './test-files.js';
+import { getChangedFiles, ChangedFile } from './git-diff.js';
 
 // Server state - these will be shared across transports
 let fileTree: FileNode | null = null;
 let currentConfig: FileTreeConfig | null = null;
+let scanStats: ScanStats | null = null; // Throughput of the scan behind the current tree; builds always rescan, so null only before a build or after select_file_tree
 let fileWatcher: FileWatcher | null = null;
 const fileEventDebounceTimers: Map<string, NodeJS.Timeout> = new Map();
+let fileEventQueue: Promise<void> = Promise.resolve(); // Debounced file events, applied one at a time
 const DEBOUNCE_DURATION_MS = 2000; // 2 seconds
 
+// Dependency edge kinds accepted by tools that filter edges
+const importKindSchema = z.enum(['static', 'side-effect', 'dynamic', 'require', 're-export', 'type-only', 'asset']);
+
 // Helper function to create MCP responses
 function createMcpResponse(content: any, isError = false): ToolResponse {
   let formattedContent;
@@ -102,7 +115,10 @@ async function initializeProject(projectPath: string): Promise<ToolResponse> {
       await initializeFileWatcher();
     }
 
-    return createMcpResponse(`Project path set to ${projectRoot}. File tree built and saved to ${newConfig.filename}.`);
+    const scanSummary = scanStats
+      ? ` Scanned ${scanStats.files} files in ${(scanStats.durationMs / 1000).toFixed(1)}s (${scanStats.filesPerSecond} files/s), re-analyzed ${scanStats.reanalyzed}.`
+      : '';
+    return createMcpResponse(`Project path set to ${projectRoot}. File tree built and saved to ${newConfig.filename}.${scanSummary}`);
   } catch (error) {
     log("Failed to build file tree: " + error);
     return createMcpResponse(`Failed to build file tree for ${projectRoot}: ${error}`, true);
@@ -114,12 +130,12 @@ async function buildFileTree(config: FileTreeConfig): Promise<FileNode> {
   // Simplified version - full implementation in the original file
   log('Building file tree for: ' + config.baseDirectory);
   
+  // A saved tree lets the scan reuse the edges of files that did not change
+  let previousTree: FileNode | undefined;
   try {
     const savedTree = await loadFileTree(config.filename);
     if (savedTree?.fileTree) {
-      fileTree = savedTree.fileTree;
-      currentConfig = savedTree.config;
-      return fileTree;
+      previousTree = savedTree.fileTree;
     }
   } catch (error) {
     log('Failed to load existing file tree: ' + error);
@@ -130,7 +146,11 @@ async function buildFileTree(config: FileTreeConfig): Promise<FileNode> {
     setConfig(currentConfig);
   }
   
-  fileTree = await scanDirectory(config.baseDirectory);
+  fileTree = await scanDirectory(config.baseDirectory, config.baseDirectory, previousTree);
+  scanStats = getLastScanStats();
+  if (previousTree && scanStats?.reanalyzedFiles) {
+    log(`Re-analyzed ${scanStats.reanalyzed} changed files: ${JSON.stringify(scanStats.reanalyzedFiles)}`);
+  }
   buildDependentMap(fileTree);
   calculateImportance(fileTree);
   
@@ -159,10 +179,86 @@ async function initializeFileWatcher(): Promise<void> {
   log('File watcher initialized');
 }
 
+/**
+ * Debounces a file event, then queues it to be applied to the active tree
+ * @param filePath The path of the file that changed (already normalized by watcher)
+ * @param eventType The type of event
+ */
 async function handleFileEvent(filePath: string, eventType: FileEventType): Promise<void> {
-  // Simplified file event handling
   log(`File event: ${eventType} for ${filePath}`);
-  // Implementation would handle debouncing and tree updates
+  const fileWatchingConfig = getConfig()?.fileWatching;
+  if (!fileWatchingConfig?.autoRebuildTree) {
+    log('Ignoring file event: auto-rebuild is disabled');
+    return;
+  }
+
+  const debounceKey = `${filePath}:${eventType}`;
+  const existingTimer = fileEventDebounceTimers.get(debounceKey);
+  if (existingTimer) {
+    clearTimeout(existingTimer);
+  }
+
+  fileEventDebounceTimers.set(debounceKey, setTimeout(() => {
+    fileEventDebounceTimers.delete(debounceKey);
+    // One event at a time: a rebuild replaces the tree that other events would otherwise still be changing
+    fileEventQueue = fileEventQueue.then(() => applyFileEvent(filePath, eventType, fileWatchingConfig));
+  }, fileWatchingConfig.debounceMs ?? DEBOUNCE_DURATION_MS));
+}
+
+/**
+ * Applies a file event to the tree that is active when the event's turn in the queue comes, and saves it
+ */
+async function applyFileEvent(filePath: string, eventType: FileEventType, fileWatchingConfig: FileWatchingConfig): Promise<void> {
+  const activeConfig = currentConfig;
+  const activeTree = fileTree;
+  const projectRoot = getProjectRoot();
+  if (!activeConfig || !activeTree || !projectRoot) {
+    log('Ignoring file event: no active file tree');
+    return;
+  }
+
+  const enabled = eventType === 'add' ? fileWatchingConfig.watchForNewFiles
+    : eventType === 'change' ? fileWatchingConfig.watchForChanged
+    : fileWatchingConfig.watchForDeleted;
+  if (!enabled) return;
+
+  try {
+    if (isManifestFile(filePath) || isIgnoreFile(filePath)) {
+      // Adding, changing or removing a manifest can change how every import resolves, and new
+      // ignore rules change which files belong in the tree and which paths the watcher skips.
+      // Rebuild from the saved tree so unaffected files keep their analysis.
+      log(`${filePath} ${eventType === 'add' ? 'added' : eventType === 'change' ? 'changed' : 'removed'}, rebuilding the file tree`);
+      const ignoreRulesChanged = isIgnoreFile(filePath);
+      await saveFileTree(activeConfig, activeTree);
+      if (ignoreRulesChanged) clearIgnoreFileCache();
+      await buildFileTree(activeConfig);
+      if (ignoreRulesChanged) await initializeFileWatcher();
+      return;
+    }
+
+    let updated = true;
+    switch (eventType) {
+      case 'add':
+        await addFileNode(filePath, activeTree, projectRoot);
+        break;
+
+      case 'change':
+        updated = await updateChangedFileNode(filePath, activeTree, projectRoot);
+        log(updated ? `Re-analyzed changed file: ${filePath}` : `File content unchanged: ${filePath}`);
+        break;
+
+      case 'unlink':
+        await removeFileNode(filePath, activeTree, projectRoot);
+        break;
+    }
+
+    // A tool may have loaded another tree meanwhile; do not save over it
+    if (updated && fileTree === activeTree) {
+      await saveFileTree(activeConfig, activeTree);
+    }
+  } catch (error) {
+    log(`Error processing file event ${eventType} for ${filePath}: ${error}`);
+  }
 }
 
 // Get all file nodes as a flat array
@@ -254,8 +350,9 @@ export async function createMcpServerInstance(): Promise<McpServer> {
   });
 
   server.tool("get_file_importance", "Get the importance ranking of a specific file", {
-    filepath: z.string().describe("The path to the file to check")
-  }, async (params: { filepath: string }) => {
+    filepath: z.string().describe("The path to the file to check"),
+    excludeKinds: z.array(importKindSchema).optional().describe("Dependency edge kinds to leave out (e.g. ['type-only'])")
+  }, async (params: { filepath: string, excludeKinds?: ImportKind[] }) => {
     if (!isProjectPathSet()) return projectPathNotSetError;
     
     const normalizedPath = normalizePath(params.filepath);
@@ -265,11 +362,23 @@ export async function createMcpServerInstance(): Promise<McpServer> {
       return createMcpResponse(`File not found: ${params.filepath}`, true);
     }
     
+    const dependencyEdges = filterEdgesByKind(getDependencyEdges(node), params.excludeKinds);
+    
+    const dependents = (node.dependents || [])
+      .map(dependentPath => findNode(fileTree!, dependentPath))
+      .filter((dependent): dependent is FileNode => dependent !== null);
+    const dependentEdges = getDependentEdges(node, dependents, params.excludeKinds);
+    
     return createMcpResponse({
       path: node.path,
       importance: node.importance || 0,
-      dependencies: node.dependencies || [],
-      dependents: node.dependents || [],
+      isTest: isTestFile(node.path, getProjectRoot(), getTestFilePatterns(getConfig())),
+      dependencies: [...new Set(dependencyEdges.map(edge => edge.path))],
+      dependencyEdges,
+      dependents: dependentEdges.map(edge => edge.path),
+      dependentEdges,
+      packageDependencies: node.packageDependencies || [],
+      externalDependencies: node.externalDependencies || [],
       summary: node.summary || null
     });
   });
@@ -356,7 +465,8 @@ export async function createMcpServerInstance(): Promise<McpServer> {
       
       return createMcpResponse({
         message: `File tree created and stored in ${config.filename}`,
-        config
+        config,
+        ...(scanStats ? { scanStats } : {})
       });
     } catch (error) {
       log('Error in create_file_tree: ' + error);
@@ -375,6 +485,7 @@ export async function createMcpServerInstance(): Promise<McpServer> {
     
     fileTree = storage.fileTree;
     currentConfig = storage.config;
+    scanStats = null;
     
     return createMcpResponse({
       message: `File tree loaded from ${params.filename}`,
@@ -410,6 +521,263 @@ export async function createMcpServerInstance(): Promise<McpServer> {
     return createMcpResponse(importantFiles);
   });
 
+  server.tool("find_unused_assets", "Find images, fonts and other assets (and optionally stylesheets) that no file references", {
+    includeStylesheets: z.boolean().optional().describe("Also list stylesheets nothing imports (default: false)")
+  }, async (params: { includeStylesheets?: boolean }) => {
+    if (!isProjectPathSet()) return projectPathNotSetError;
+
+    const extensions = params.includeStylesheets ? [...ASSET_EXTENSIONS, ...STYLESHEET_EXTENSIONS] : ASSET_EXTENSIONS;
+    const unusedFiles = getAllFileNodes(fileTree!)
+      .filter(file => extensions.includes(path.extname(file.path).toLowerCase()))
+      .filter(file => !file.dependents || file.dependents.length === 0)
+      .map(file => file.path)
+      .sort();
+
+    return createMcpResponse({
+      count: unusedFiles.length,
+      files: unusedFiles,
+      note: "Only references from analyzed code and stylesheets count; assets used solely from HTML, templates or public URLs may be listed"
+    });
+  });
+
+  server.tool("find_circular_dependencies", "Find groups of files that import each other in a cycle, with the edges that form each cycle", {
+    ignoreTypeOnly: z.boolean().optional().describe("Ignore type-only imports, which are erased at runtime (default: false)"),
+    excludeKinds: z.array(importKindSchema).optional().describe("Other dependency edge kinds to ignore (e.g. ['dynamic'])")
+  }, async (params: { ignoreTypeOnly?: boolean, excludeKinds?: ImportKind[] }) => {
+    if (!isProjectPathSet()) return projectPathNotSetError;
+
+    const excludeKinds: ImportKind[] = [...(params.excludeKinds ?? []), ...(params.ignoreTypeOnly ? ['type-only' as ImportKind] : [])];
+    const cycles = findCircularDependencies(fileTree!, { excludeKinds });
+
+    return createMcpResponse({
+      count: cycles.length,
+      filesInCycles: cycles.reduce((total, cycle) => total + cycle.files.length, 0),
+      cycles: cycles.map(cycle => ({
+        size: cycle.files.length,
+        files: cycle.files,
+        edges: cycle.edges
+      }))
+    });
+  });
+
+  server.tool("get_impact", "Find every file that depends on the given files, directly or transitively, grouped by distance", {
+    filepaths: z.array(z.string()).min(1).describe("Paths of the files that change"),
+    maxDepth: z.number().int().positive().optional().describe("Maximum number of import hops to follow (default: unlimited)"),
+    excludeKinds: z.array(importKindSchema).optional().describe("Dependency edge kinds that do not carry impact (e.g. ['type-only'])")
+  }, async (params: { filepaths: string[], maxDepth?: number, excludeKinds?: ImportKind[] }) => {
+    if (!isProjectPathSet()) return projectPathNotSetError;
+
+    const startNodes = params.filepaths.map(filepath => getFileNode(fileTree!, normalizePath(filepath)));
+    const notFound = params.filepaths.filter((_filepath, i) => !startNodes[i] || startNodes[i]!.isDirectory);
+    const startPaths = [...new Set(startNodes.filter((node): node is FileNode => !!node && !node.isDirectory).map(node => node.path))];
+    if (startPaths.length === 0) {
+      return createMcpResponse(`File not found: ${params.filepaths.join(', ')}`, true);
+    }
+
+    const graph = buildDependencyGraph(fileTree!, { excludeKinds: params.excludeKinds });
+    const testPatterns = getTestFilePatterns(getConfig());
+    const impacted = findTransitiveDependents(graph, startPaths, params.maxDepth).map(file => ({
+      ...file,
+      importance: graph.files.get(file.path)?.importance || 0,
+      isTest: isTestFile(file.path, getProjectRoot(), testPatterns)
+    }));
+
+    const depths = [...new Set(impacted.map(file => file.depth))];
+    return createMcpResponse({
+      files: startPaths,
+      ...(notFound.length > 0 ? { notFound } : {}),
+      totalAffected: impacted.length,
+      byDepth: depths.map(depth => ({
+        depth,
+        files: impacted
+          .filter(file => file.depth === depth)
+          .map(file => ({ path: file.path, importance: file.importance, isTest: file.isTest, via: file.via }))
+      })),
+      tests: impacted.filter(file => file.isTest).map(file => file.path)
+    });
+  });
+
+  server.tool("get_dependency_closure", "List everything a file pulls in: the local files it imports directly or transitively, and their packages", {
+    filepath: z.string().describe("The path to the file"),
+    maxDepth: z.number().int().positive().optional().describe("Maximum number of import hops to follow (default: unlimited)"),
+    excludeKinds: z.array(importKindSchema).optional().describe("Dependency edge kinds not to follow (e.g. ['type-only', 'dynamic'])")
+  }, async (params: { filepath: string, maxDepth?: number, excludeKinds?: ImportKind[] }) => {
+    if (!isProjectPathSet()) return projectPathNotSetError;
+
+    const node = getFileNode(fileTree!, normalizePath(params.filepath));
+    if (!node || node.isDirectory) {
+      return createMcpResponse(`File not found: ${params.filepath}`, true);
+    }
+
+    const graph = buildDependencyGraph(fileTree!, { excludeKinds: params.excludeKinds });
+    const closure = findTransitiveDependencies(graph, [node.path], params.maxDepth);
+
+    // Packages and external modules of the file and everything it pulls in, with the files that import them
+    const packages = new Map<string, { name: string, version?: string, isDevDependency?: boolean, importedBy: string[] }>();
+    const externals = new Map<string, { name: string, category: string, importedBy: string[] }>();
+    for (const filePath of [node.path, ...closure.map(file => file.path)]) {
+      const fileNode = graph.files.get(filePath)!;
+      for (const pkg of fileNode.packageDependencies ?? []) {
+        if (params.excludeKinds?.includes(pkg.importKind ?? 'static')) continue;
+        const entry = packages.get(pkg.name) ?? { name: pkg.name, version: pkg.version, isDevDependency: pkg.isDevDependency, importedBy: [] };
+        if (!entry.importedBy.includes(filePath)) entry.importedBy.push(filePath);
+        packages.set(pkg.name, entry);
+      }
+      for (const external of fileNode.externalDependencies ?? []) {
+        const key = `${external.category}:${external.name}`;
+        const entry = externals.get(key) ?? { name: external.name, category: external.category, importedBy: [] };
+        entry.importedBy.push(filePath);
+        externals.set(key, entry);
+      }
+    }
+
+    return createMcpResponse({
+      file: node.path,
+      totalFiles: closure.length,
+      files: closure.map(file => ({ path: file.path, depth: file.depth, importance: graph.files.get(file.path)?.importance || 0, via: file.via })),
+      packages: [...packages.values()].sort((a, b) => a.name.localeCompare(b.name)),
+      externalDependencies: [...externals.values()].sort((a, b) => a.name.localeCompare(b.name))
+    });
+  });
+
+  server.tool("find_import_path", "Find the shortest chain of imports from one file to another file or to a package", {
+    from: z.string().describe("The path to the importing file"),
+    to: z.string().optional().describe("The path to the imported file"),
+    toPackage: z.string().optional().describe("A package name to reach instead of a file (e.g. 'pg')"),
+    excludeKinds: z.array(importKindSchema).optional().describe("Dependency edge kinds not to follow (e.g. ['type-only'])")
+  }, async (params: { from: string, to?: string, toPackage?: string, excludeKinds?: ImportKind[] }) => {
+    if (!isProjectPathSet()) return projectPathNotSetError;
+    if (!params.to === !params.toPackage) {
+      return createMcpResponse('Pass exactly one of "to" and "toPackage"', true);
+    }
+
+    const fromNode = getFileNode(fileTree!, normalizePath(params.from));
+    if (!fromNode || fromNode.isDirectory) {
+      return createMcpResponse(`File not found: ${params.from}`, true);
+    }
+    const toNode = params.to ? getFileNode(fileTree!, normalizePath(params.to)) : null;
+    if (params.to && (!toNode || toNode.isDirectory)) {
+      return createMcpResponse(`File not found: ${params.to}`, true);
+    }
+
+    const graph = buildDependencyGraph(fileTree!, { excludeKinds: params.excludeKinds });
+    const importsPackage = (filePath: string) => (graph.files.get(filePath)?.packageDependencies ?? [])
+      .some(pkg => pkg.name === params.toPackage && !params.excludeKinds?.includes(pkg.importKind ?? 'static'));
+    const chain = findImportPath(graph, fromNode.path, toNode ? filePath => filePath === toNode.path : importsPackage);
+    const target = toNode ? toNode.path : params.toPackage;
+
+    if (!chain) {
+      return createMcpResponse({ from: fromNode.path, to: target, found: false, message: `${fromNode.path} does not import ${target}, directly or transitively` });
+    }
+
+    return createMcpResponse({
+      from: fromNode.path,
+      to: target,
+      found: true,
+      hops: chain.length + (toNode ? 0 : 1),
+      path: [fromNode.path, ...chain.map(edge => edge.to), ...(toNode ? [] : [params.toPackage])],
+      edges: chain
+    });
+  });
+
+  server.tool("get_changed_impact", "List the files changed in git and everything that depends on them, with the tests to run and the summaries to refresh", {
+    base: z.string().optional().describe("Revision or range to compare against (e.g. 'main', 'HEAD~3' or 'main...HEAD'; default: HEAD)"),
+    head: z.string().optional().describe("Revision to compare the base with (default: the working tree)"),
+    staged: z.boolean().optional().describe("Only consider staged changes"),
+    includeUntracked: z.boolean().optional().describe("Include untracked files when comparing with the working tree (default: true)"),
+    maxDepth: z.number().int().positive().optional().describe("Maximum number of import hops to follow (default: unlimited)"),
+    excludeKinds: z.array(importKindSchema).optional().describe("Dependency edge kinds that do not carry impact (e.g. ['type-only'])")
+  }, async (params: { base?: string, head?: string, staged?: boolean, includeUntracked?: boolean, maxDepth?: number, excludeKinds?: ImportKind[] }) => {
+    if (!isProjectPathSet()) return projectPathNotSetError;
+
+    const projectRoot = getProjectRoot();
+    const testPatterns = getTestFilePatterns(getConfig());
+    let changes: ChangedFile[];
+    try {
+      changes = await getChangedFiles(projectRoot, params);
+    } catch (error) {
+      log(`[git] Failed to read changes: ${error}`);
+      return createMcpResponse(`Could not read changes from git in ${projectRoot}: ${error instanceof Error ? error.message : error}`, true);
+    }
+
+    // Deleted and renamed-away files may still be in a tree that has not been rescanned; their dependents are affected too
+    const graph = buildDependencyGraph(fileTree!, { excludeKinds: params.excludeKinds });
+    const changedPaths = [...new Set(changes.flatMap(change => [change.path, ...(change.previousPath ? [change.previousPath] : [])]))];
+    const startPaths = changedPaths.filter(filePath => graph.files.has(filePath));
+    const affected = findTransitiveDependents(graph, startPaths, params.maxDepth);
+
+    // Files that no longer exist have no tests to run or summaries to refresh
+    const removedPaths = new Set(changes.flatMap(change =>
+      change.status === 'deleted' ? [change.path] : change.status === 'renamed' && change.previousPath ? [change.previousPath] : []));
+    const remainingPaths = [...changedPaths, ...affected.map(file => file.path)].filter(filePath => !removedPaths.has(filePath));
+
+    return createMcpResponse({
+      base: params.base ?? 'HEAD',
+      head: params.head ?? (params.staged ? 'index' : 'working tree'),
+      changedFiles: changes.map(change => ({ ...change, inTree: graph.files.has(change.path) })),
+      totalChanged: changes.length,
+      totalAffected: affected.length,
+      affected: affected.map(file => ({
+        path: file.path,
+        depth: file.depth,
+        importance: graph.files.get(file.path)?.importance || 0,
+        isTest: isTestFile(file.path, projectRoot, testPatterns),
+        via: file.via
+      })),
+      tests: remainingPaths.filter(filePath => isTestFile(filePath, projectRoot, testPatterns)),
+      summariesToRefresh: remainingPaths.filter(filePath => graph.files.get(filePath)?.summary)
+    });
+  });
+
+  server.tool("get_tests_for_file", "Find the test files that import a file, directly or transitively", {
+    filepath: z.string().describe("The path to the source file"),
+    maxDepth: z.number().int().positive().optional().describe("Maximum number of import hops to follow (default: unlimited)"),
+    excludeKinds: z.array(importKindSchema).optional().describe("Dependency edge kinds not to follow (e.g. ['type-only'])")
+  }, async (params: { filepath: string, maxDepth?: number, excludeKinds?: ImportKind[] }) => {
+    if (!isProjectPathSet()) return projectPathNotSetError;
+
+    const node = getFileNode(fileTree!, normalizePath(params.filepath));
+    if (!node || node.isDirectory) {
+      return createMcpResponse(`File not found: ${params.filepath}`, true);
+    }
+
+    const testPatterns = getTestFilePatterns(getConfig());
+    const graph = buildDependencyGraph(fileTree!, { excludeKinds: params.excludeKinds });
+    const tests = findTestsForFile(graph, node.path, getProjectRoot(), testPatterns, params.maxDepth);
+
+    return createMcpResponse({
+      file: node.path,
+      isTest: isTestFile(node.path, getProjectRoot(), testPatterns),
+      totalTests: tests.length,
+      direct: tests.filter(test => test.depth === 1).map(test => test.path),
+      transitive: tests.filter(test => test.depth > 1).map(test => ({ path: test.path, depth: test.depth, via: test.via }))
+    });
+  });
+
+  server.tool("untested_files", "List the most important source files that no test imports, directly or transitively", {
+    minImportance: z.number().min(0).max(10).optional().describe("Only include files at or above this importance (default: 1)"),
+    limit: z.number().int().positive().optional().describe("Number of files to return (default: 20)"),
+    excludeKinds: z.array(importKindSchema).optional().describe("Dependency edge kinds not to follow (e.g. ['type-only'])")
+  }, async (params: { minImportance?: number, limit?: number, excludeKinds?: ImportKind[] }) => {
+    if (!isProjectPathSet()) return projectPathNotSetError;
+
+    const testPatterns = getTestFilePatterns(getConfig());
+    const graph = buildDependencyGraph(fileTree!, { excludeKinds: params.excludeKinds });
+    const untested = findUntestedFiles(graph, getProjectRoot(), testPatterns)
+      .filter(filePath => (graph.files.get(filePath)!.importance || 0) >= (params.minImportance ?? 1));
+
+    return createMcpResponse({
+      testPatterns,
+      totalTestFiles: getTestFiles(graph, getProjectRoot(), testPatterns).length,
+      totalUntested: untested.length,
+      files: untested.slice(0, params.limit ?? 20).map(filePath => ({
+        path: filePath,
+        importance: graph.files.get(filePath)!.importance || 0,
+        dependentCount: graph.files.get(filePath)!.dependents?.length || 0
+      }))
+    });
+  });
+
   server.tool("get_file_summary", "Get the summary of a specific file", {
     filepath: z.string().describe("The path to the file to check")
   }, async (params: { filepath: string }) => {
@@ -511,12 +879,14 @@ export async function createMcpServerInstance(): Promise<McpServer> {
     }
   });
 
-  server.tool("recalculate_importance", "Recalculate importance values for all files based on dependencies", async () => {
+  server.tool("recalculate_importance", "Recalculate importance values for all files based on dependencies", {
+    excludeKinds: z.array(importKindSchema).optional().describe("Dependency edge kinds to ignore when scoring (e.g. ['type-only'])")
+  }, async (params: { excludeKinds?: ImportKind[] }) => {
     if (!isProjectPathSet()) return projectPathNotSetError;
 
     log('Recalculating importance values...');
     buildDependentMap(fileTree!);
-    calculateImportance(fileTree!);
+    calculateImportance(fileTree!, { excludeKinds: params.excludeKinds });
     
     // Save the updated tree
     if (currentConfig) {
@@ -673,6 +1043,7 @@ export async function createMcpServerInstance(): Promise<McpServer> {
     autoGroupThreshold: z.number().optional().describe("Auto-group nodes when parent has more than this many direct children (default: 8)"),
     excludePackages: z.array(z.string()).optional().describe('Packages to exclude from diagram'),
     includeOnlyPackages: z.array(z.string()).optional().describe('Only include these packages (if specified)'),
+    excludeEdgeKinds: z.array(importKindSchema).optional().describe("Dependency edge kinds to leave out (e.g. ['type-only'])"),
     outputPath: z.string().optional().describe('Full path or relative path where to save the diagram file (.mmd)'),
     outputFormat: z.enum(['mmd']).optional().describe('Output format (mmd)'),
     layout: z.object({
@@ -690,6 +1061,7 @@ export async function createMcpServerInstance(): Promise<McpServer> {
     autoGroupThreshold?: number;
     excludePackages?: string[];
     includeOnlyPackages?: string[];
+    excludeEdgeKinds?: ImportKind[];
     outputPath?: string;
     outputFormat?: 'mmd';
     layout?: {
@@ -726,6 +1098,7 @@ export async function createMcpServerInstance(): Promise<McpServer> {
         autoGroupThreshold: params.autoGroupThreshold,
         excludePackages: params.excludePackages,
         includeOnlyPackages: params.includeOnlyPackages,
+        excludeEdgeKinds: params.excludeEdgeKinds,
         layout: params.layout
       });
       const diagram = generator.generate();
@@ -793,7 +1166,7 @@ export async function createMcpServerInstance(): Promise<McpServer> {
   });
 
   server.tool("exclude_and_remove", "Exclude and remove a file or pattern from the file tree", {
-    filepath: z.string().describe("The path or pattern of the file to exclude and remove")
+    filepath: z.string().describe("The path of the file to exclude and remove, or a glob such as 'src/**/*.{gen,g}.ts' to exclude and remove every matching file")
   }, async (params: { filepath: string }) => {
     try {
       if (!fileTree || !currentConfig) {
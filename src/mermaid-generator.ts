@@ -4,8 +4,11 @@ import {
   MermaidDiagramConfig, 
   MermaidDiagramStyle, 
   MermaidDiagramStats,
-  PackageDependency
+  PackageDependency,
+  ImportKind
 } from './types.js';
+import { filterEdgesByKind, getDependencyEdges } from './dependency-edges.js';
+import { buildDependencyGraph, findGraphCycles } from './dependency-graph.js';
 import path from 'path';
 
 const DEFAULT_STYLE: MermaidDiagramStyle = {
@@ -45,7 +48,8 @@ export class MermaidGenerator {
     childNodes?: string[],
     isCollapsible?: boolean
   }>; // nodeId -> info
-  private edges: Map<string, {source: string, target: string, type: string}>; // edgeKey -> edge info
+  private edges: Map<string, {source: string, target: string, type: string, kind?: ImportKind, circular?: boolean}>; // edgeKey -> edge info
+  private pendingDependencyEdges: { source: string, target: string, kind: ImportKind }[]; // Added once every node is registered
   private edgeCount: number;
   private stats: MermaidDiagramStats;
   private style: MermaidDiagramStyle;
@@ -64,6 +68,7 @@ export class MermaidGenerator {
       packageGrouping: config?.packageGrouping ?? true,
       excludePackages: config?.excludePackages || [],
       includeOnlyPackages: config?.includeOnlyPackages || [],
+      excludeEdgeKinds: config?.excludeEdgeKinds || [],
       autoGroupThreshold: config?.autoGroupThreshold || 8,
       layout: {
         direction: config?.layout?.direction || 'TB',
@@ -79,6 +84,7 @@ export class MermaidGenerator {
     this.definedNodes = new Set();
     this.packageScopes = new Map();
     this.packageScopeNodes = new Map();
+    this.pendingDependencyEdges = [];
     this.stats = {
       nodeCount: 0,
       edgeCount: 0,
@@ -364,10 +370,11 @@ export class MermaidGenerator {
       // 2. Dependency Edges (for 'dependency' and 'hybrid' styles)
       if (!node.isDirectory && (isDependencyStyle || isHybridStyle)) {
            // Local file dependencies
-          if (this.config.showDependencies && node.dependencies) {
-              for (const depPath of node.dependencies) {
-                  // addEdge will handle checks if target node exists and is defined
-                  this.addEdge(node.path, depPath, 'dependency');
+          if (this.config.showDependencies) {
+              const edges = filterEdgesByKind(getDependencyEdges(node), this.config.excludeEdgeKinds);
+              for (const edge of edges) {
+                  // The target may be registered later in the walk, so the edge is added after Phase 1
+                  this.pendingDependencyEdges.push({ source: node.path, target: edge.path, kind: edge.kind });
               }
           }
            // Package dependencies
@@ -408,8 +415,8 @@ export class MermaidGenerator {
       }
   }
 
-  // Add an edge between two nodes
-  private addEdge(sourcePath: string, targetPath: string, type: string): void {
+  // Add an edge between two nodes; returns whether the edge is in the diagram
+  private addEdge(sourcePath: string, targetPath: string, type: string, kind?: ImportKind): boolean {
     const sourceId = this.getNodeId(sourcePath); // Ensures source node exists in map
     let targetId;
 
@@ -424,13 +431,13 @@ export class MermaidGenerator {
     // Use this.nodes.has() for existence check is slightly better than relying on getNodeInfo
     if (!targetId || !this.nodes.has(sourcePath) || !this.nodes.has(targetPath)) {
          console.error(`[MermaidGenerator] Skipping edge from ${sourcePath} to ${targetPath}: Source or Target node path not found in nodes map.`);
-         return;
+         return false;
     }
 
     // Ensure the nodeInfo map also has entries if needed elsewhere, though nodes map is primary for existence
     if (!this.nodeInfo.has(sourceId) || !this.nodeInfo.has(targetId)) {
          console.error(`[MermaidGenerator] Skipping edge from ${sourcePath} to ${targetPath}: Source or Target node info missing.`);
-         return;
+         return false;
     }
 
     const edgeKey = `${sourceId}-->${targetId}`; // Use node IDs for edge key
@@ -440,12 +447,39 @@ export class MermaidGenerator {
         this.edges.set(edgeKey, {
             source: sourceId,
             target: targetId,
-            type: type
+            type: type,
+            kind: kind
         });
          // Mark both nodes involved in an edge as defined
          this.definedNodes.add(sourceId);
          this.definedNodes.add(targetId);
+    } else if (kind && !this.isWeakEdgeKind(kind)) {
+        // A runtime import between the same files wins over a type-only or lazy one
+        this.edges.get(edgeKey)!.kind = kind;
     }
+    return true;
+  }
+
+  // Find cycles among the dependency edges the diagram draws, so the stat matches the highlighted edges
+  private markCircularEdges(renderedEdges: Set<string>): void {
+    const graph = buildDependencyGraph(this.fileTree, { excludeKinds: this.config.excludeEdgeKinds });
+    graph.edges.forEach((edges, filePath) => {
+      graph.edges.set(filePath, edges.filter(edge => renderedEdges.has(`${edge.from}\0${edge.to}`)));
+    });
+
+    const cycles = findGraphCycles(graph);
+    for (const cycle of cycles) {
+      for (const edge of cycle.edges) {
+        const rendered = this.edges.get(`${this.nodes.get(edge.from)}-->${this.nodes.get(edge.to)}`);
+        if (rendered) rendered.circular = true;
+      }
+    }
+    this.stats.circularDeps = cycles.length;
+  }
+
+  // Type-only, dynamic and asset imports are drawn as dotted lines
+  private isWeakEdgeKind(kind?: ImportKind): boolean {
+    return kind === 'type-only' || kind === 'dynamic' || kind === 'asset';
   }
     
   public generate(): MermaidDiagram {
@@ -466,10 +500,19 @@ export class MermaidGenerator {
       packageCount: 0,
       packageScopeCount: 0
     };
-    
+
     // PHASE 1: Collect all nodes and edges that will be in the diagram
     console.error(`[MermaidGenerator] Starting Phase 1: Collecting nodes and edges for style '${this.config.style}'...`);
+    this.pendingDependencyEdges = [];
     this.collectNodesAndEdges(this.fileTree, 0); // Use the refactored collection function
+    const renderedDependencyEdges = new Set<string>();
+    for (const edge of this.pendingDependencyEdges) {
+      // addEdge will handle checks if target node exists and is defined
+      if (this.addEdge(edge.source, edge.target, 'dependency', edge.kind)) {
+        renderedDependencyEdges.add(`${edge.source}\0${edge.target}`);
+      }
+    }
+    this.markCircularEdges(renderedDependencyEdges);
     console.error(`[MermaidGenerator] Finished Phase 1: Collected ${this.nodes.size} potential nodes, ${this.edges.size} potential edges.`);
     console.error(`[MermaidGenerator] Nodes marked for definition (involved in edges): ${this.definedNodes.size}`);
     
@@ -567,16 +610,20 @@ export class MermaidGenerator {
                 strokeWidth = '1.5px';
                 break;
             case 'dependency':
-                color = this.style.edgeColors.dependency;
+                color = edge.circular ? this.style.edgeColors.circular : this.style.edgeColors.dependency;
+                if (edge.circular) {
+                    strokeWidth = '2px';
+                }
+                if (this.isWeakEdgeKind(edge.kind)) {
+                    strokeDasharray = '2,4';
+                }
                 break;
-            // Add case for 'circular' if detected
         }
 
         edgeLines.push(`  linkStyle ${this.edgeCount} stroke:${color},stroke-width:${strokeWidth}${strokeDasharray !== 'solid' ? `,stroke-dasharray:${strokeDasharray}` : ''}`);
         this.edgeCount++; // Increment index for linkStyle
         edgeOutputCount++;
         this.stats.edgeCount++;
-         // Add logic to update other stats like circularDeps, importantFiles if needed
       } else {
           console.error(`[MermaidGenerator Phase 3] Skipping edge ${edge.source} --> ${edge.target} because one or both nodes were not defined.`);
       }
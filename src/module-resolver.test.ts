@@ -0,0 +1,172 @@
+import { resolveModuleImport, clearResolverCache } from './module-resolver';
+import { clearTsConfigCache } from './tsconfig-utils';
+import { clearWorkspaceCache, parsePnpmWorkspacePackages } from './workspace-utils';
+import { setConfig } from './global-state';
+import { Config } from './types';
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+let root: string;
+
+function writeFile(relativePath: string, content: string = ''): void {
+  const fullPath = path.join(root, relativePath);
+  fs.mkdirSync(path.dirname(fullPath), { recursive: true });
+  fs.writeFileSync(fullPath, content);
+}
+
+function useStrategy(moduleResolution: Config['moduleResolution']): void {
+  setConfig({ baseDirectory: root, excludePatterns: [], moduleResolution, version: '1.0.0' });
+}
+
+async function resolve(specifier: string, from: string) {
+  const result = await resolveModuleImport(specifier, path.join(root, from), root);
+  return result.resolvedPath ? path.relative(root, result.resolvedPath).split(path.sep).join('/') : result;
+}
+
+describe('resolveModuleImport', () => {
+  beforeAll(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'filescope-resolver-'));
+    writeFile('src/main.ts');
+    writeFile('src/utils.ts');
+    writeFile('src/lib/index.ts');
+    writeFile('src/esm/helper.mts');
+    writeFile('src/esm/legacy.cts');
+    writeFile('src/pkg/package.json', JSON.stringify({ types: './types/entry.d.ts' }));
+    writeFile('src/pkg/types/entry.d.ts');
+    fs.mkdirSync(path.join(root, 'src/empty'), { recursive: true });
+  });
+
+  afterAll(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  beforeEach(() => {
+    clearTsConfigCache();
+    clearResolverCache();
+    useStrategy('bundler');
+  });
+
+  it('should resolve extensionless and .js imports to TypeScript sources', async () => {
+    expect(await resolve('./utils', 'src/main.ts')).toBe('src/utils.ts');
+    expect(await resolve('./utils.js', 'src/main.ts')).toBe('src/utils.ts');
+  });
+
+  it('should map .mjs and .cjs imports to .mts and .cts sources', async () => {
+    expect(await resolve('./esm/helper.mjs', 'src/main.ts')).toBe('src/esm/helper.mts');
+    expect(await resolve('./esm/legacy.cjs', 'src/main.ts')).toBe('src/esm/legacy.cts');
+  });
+
+  it('should resolve directory imports through index files and package.json', async () => {
+    expect(await resolve('./lib', 'src/main.ts')).toBe('src/lib/index.ts');
+    expect(await resolve('./pkg', 'src/main.ts')).toBe('src/pkg/types/entry.d.ts');
+  });
+
+  it('should never resolve to a directory', async () => {
+    expect(await resolve('./empty', 'src/main.ts')).toEqual({ isPackage: false });
+  });
+
+  it('should require explicit extensions for ES modules under node16', async () => {
+    useStrategy('node16');
+    expect(await resolve('./utils', 'src/esm/helper.mts')).toEqual({ isPackage: false });
+    expect(await resolve('../lib', 'src/esm/helper.mts')).toEqual({ isPackage: false });
+    expect(await resolve('../utils.js', 'src/esm/helper.mts')).toBe('src/utils.ts');
+
+    // CommonJS files keep extension probing and directory indexes
+    expect(await resolve('../lib', 'src/esm/legacy.cts')).toBe('src/lib/index.ts');
+  });
+
+  it('should follow the tsconfig moduleResolution when set to auto', async () => {
+    useStrategy('auto');
+    writeFile('tsconfig.json', JSON.stringify({ compilerOptions: { module: 'NodeNext' } }));
+    writeFile('package.json', JSON.stringify({ type: 'module' }));
+    try {
+      expect(await resolve('./utils', 'src/main.ts')).toEqual({ isPackage: false });
+      expect(await resolve('./utils.js', 'src/main.ts')).toBe('src/utils.ts');
+    } finally {
+      fs.rmSync(path.join(root, 'tsconfig.json'));
+      fs.rmSync(path.join(root, 'package.json'));
+    }
+  });
+
+  it('should report unaliased bare specifiers as packages', async () => {
+    expect(await resolve('react', 'src/main.ts')).toEqual({ isPackage: true });
+  });
+});
+
+describe('resolveModuleImport in workspaces', () => {
+  beforeAll(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'filescope-workspace-'));
+    writeFile('package.json', JSON.stringify({ name: 'acme', private: true, workspaces: ['packages/*', '!packages/ignored'] }));
+    writeFile('pnpm-workspace.yaml', "packages:\n  - 'apps/**'\n");
+
+    writeFile('packages/shared/package.json', JSON.stringify({
+      name: '@acme/shared',
+      exports: {
+        '.': { types: './dist/index.d.ts', import: './dist/index.js' },
+        './utils/*': './dist/utils/*.js',
+        './package.json': './package.json'
+      }
+    }));
+    writeFile('packages/shared/src/index.ts');
+    writeFile('packages/shared/src/utils/format.ts');
+
+    writeFile('packages/legacy/package.json', JSON.stringify({ name: '@acme/legacy', main: 'lib/main.js' }));
+    writeFile('packages/legacy/lib/main.js');
+    writeFile('packages/legacy/lib/extra.js');
+
+    writeFile('packages/ignored/package.json', JSON.stringify({ name: '@acme/ignored' }));
+    writeFile('packages/ignored/index.ts');
+
+    writeFile('apps/web/package.json', JSON.stringify({
+      name: 'web',
+      imports: { '#internal/*': './src/internal/*.ts', '#shared': '@acme/shared' }
+    }));
+    writeFile('apps/web/src/main.ts');
+    writeFile('apps/web/src/internal/db.ts');
+  });
+
+  afterAll(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  beforeEach(() => {
+    clearTsConfigCache();
+    clearResolverCache();
+    clearWorkspaceCache();
+    useStrategy('bundler');
+  });
+
+  it('should resolve workspace packages through exports to their sources', async () => {
+    expect(await resolve('@acme/shared', 'apps/web/src/main.ts')).toBe('packages/shared/src/index.ts');
+    expect(await resolve('@acme/shared/utils/format', 'apps/web/src/main.ts')).toBe('packages/shared/src/utils/format.ts');
+  });
+
+  it('should not expose subpaths missing from exports', async () => {
+    expect(await resolve('@acme/shared/src/index', 'apps/web/src/main.ts')).toEqual({ isPackage: true });
+  });
+
+  it('should resolve packages without exports through main and subpaths', async () => {
+    expect(await resolve('@acme/legacy', 'apps/web/src/main.ts')).toBe('packages/legacy/lib/main.js');
+    expect(await resolve('@acme/legacy/lib/extra', 'apps/web/src/main.ts')).toBe('packages/legacy/lib/extra.js');
+  });
+
+  it('should honor negated workspace patterns', async () => {
+    expect(await resolve('@acme/ignored', 'apps/web/src/main.ts')).toEqual({ isPackage: true });
+  });
+
+  it('should resolve #subpath imports through the package imports map', async () => {
+    expect(await resolve('#internal/db', 'apps/web/src/main.ts')).toBe('apps/web/src/internal/db.ts');
+    expect(await resolve('#shared', 'apps/web/src/main.ts')).toBe('packages/shared/src/index.ts');
+    expect(await resolve('#missing', 'apps/web/src/main.ts')).toEqual({ isPackage: false });
+  });
+});
+
+describe('parsePnpmWorkspacePackages', () => {
+  it('should read block and flow package lists', () => {
+    expect(parsePnpmWorkspacePackages("packages:\n  - 'packages/*'\n  - \"apps/**\" # apps\n  - '!**/test/**'\ncatalog:\n  react: ^18\n"))
+      .toEqual(['packages/*', 'apps/**', '!**/test/**']);
+    expect(parsePnpmWorkspacePackages("packages: ['a/*', b]\n")).toEqual(['a/*', 'b']);
+  });
+});
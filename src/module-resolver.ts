@@ -0,0 +1,465 @@
+import * as fsPromises from 'fs/promises';
+import * as path from 'path';
+import { ModuleResolutionStrategy } from './types.js';
+import { getConfig } from './global-state.js';
+import { findTsConfigForFile, getTsConfigAliasCandidates } from './tsconfig-utils.js';
+import { findWorkspacePackage } from './workspace-utils.js';
+import { JsonObject, asJsonObject } from './json-utils.js';
+import { log } from './logger.js';
+
+/**
+ * Result of resolving one import specifier
+ */
+export interface ModuleResolution {
+  resolvedPath?: string;  // Absolute path of the local file the import resolves to
+  isPackage: boolean;     // True for bare specifiers that did not resolve to a local file
+}
+
+// Extensions probed for extensionless imports, in the order TypeScript tries them
+const PROBE_EXTENSIONS = ['.ts', '.tsx', '.d.ts', '.js', '.jsx', '.mts', '.cts', '.d.mts', '.d.cts', '.mjs', '.cjs', '.json'];
+
+// Extensions an import may be rewritten to (`./a.js` may refer to `./a.ts`)
+const EXTENSION_SUBSTITUTIONS: { [ext: string]: string[] } = {
+  '.js': ['.ts', '.tsx', '.d.ts', '.js', '.jsx'],
+  '.jsx': ['.tsx', '.jsx'],
+  '.mjs': ['.mts', '.d.mts', '.mjs'],
+  '.cjs': ['.cts', '.d.cts', '.cjs']
+};
+
+// Conditions honored in package.json `exports`/`imports` maps. Every matching
+// condition is tried in the order the map lists them until one resolves.
+const EXPORT_CONDITIONS = ['source', 'types', 'import', 'require', 'node', 'module', 'default'];
+
+// Build output directories whose files are mapped back to `src/` when present
+const BUILD_OUTPUT_DIRS = ['dist', 'build', 'lib', 'out'];
+
+// Parsed package.json files and "type" lookups, keyed by directory
+const packageJsonCache = new Map<string, Promise<JsonObject | null>>();
+const packageTypeCache = new Map<string, 'module' | 'commonjs'>();
+
+// Resolutions keyed by importing directory, importing file extension and specifier
+const resolutionCache = new Map<string, Promise<ModuleResolution>>();
+const realPathCache = new Map<string, Promise<string | null>>();
+
+/**
+ * Clears cached package.json lookups and resolutions. Called at the start of
+ * every full scan and whenever files are added or removed.
+ */
+export function clearResolverCache(): void {
+  packageJsonCache.clear();
+  packageTypeCache.clear();
+  resolutionCache.clear();
+  realPathCache.clear();
+}
+
+function getRealPath(filePath: string): Promise<string | null> {
+  let realPath = realPathCache.get(filePath);
+  if (!realPath) {
+    realPath = fsPromises.realpath(filePath).catch(() => null);
+    realPathCache.set(filePath, realPath);
+  }
+  return realPath;
+}
+
+/**
+ * Maps a resolved path that runs through symbolic links to its target, so an
+ * import through a linked directory reaches the target's own file node.
+ * The result is expressed under baseDir even when baseDir is itself reached
+ * through a link. Targets outside the project keep the path they were reached by.
+ */
+export async function getCanonicalPath(filePath: string, baseDir: string): Promise<string> {
+  const [realFile, realBase] = await Promise.all([getRealPath(filePath), getRealPath(baseDir)]);
+  if (!realFile || !realBase) return filePath;
+
+  const relativePath = path.relative(realBase, realFile);
+  if (relativePath.startsWith('..') || path.isAbsolute(relativePath)) return filePath;
+  return path.join(baseDir, relativePath);
+}
+
+async function isFile(filePath: string): Promise<boolean> {
+  try {
+    return (await fsPromises.stat(filePath)).isFile();
+  } catch {
+    return false;
+  }
+}
+
+async function isDirectory(dirPath: string): Promise<boolean> {
+  try {
+    return (await fsPromises.stat(dirPath)).isDirectory();
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Returns the first candidate that exists and is a regular file (never a directory)
+ */
+export async function findExistingFile(candidates: string[]): Promise<string | null> {
+  for (const candidate of candidates) {
+    if (await isFile(candidate)) {
+      return path.normalize(candidate);
+    }
+  }
+  return null;
+}
+
+/**
+ * Picks the resolution strategy for a file: `moduleResolution` from config.json
+ * unless it is 'auto', then the governing tsconfig, then 'bundler'.
+ */
+export function getModuleResolutionStrategy(filePath: string, baseDir: string): ModuleResolutionStrategy {
+  const configured = getConfig()?.moduleResolution;
+  if (configured && configured !== 'auto') {
+    return configured;
+  }
+
+  const tsConfig = findTsConfigForFile(filePath, baseDir);
+  switch (tsConfig?.moduleResolution) {
+    case 'node':
+    case 'node10':
+    case 'classic':
+      return 'node10';
+    case 'node16':
+      return 'node16';
+    case 'nodenext':
+      return 'nodenext';
+    case 'bundler':
+      return 'bundler';
+  }
+
+  // `module: node16/nodenext` implies the matching resolution mode
+  if (tsConfig?.module === 'node16' || tsConfig?.module === 'nodenext') {
+    return tsConfig.module;
+  }
+
+  return 'bundler';
+}
+
+/**
+ * Reads the package.json in a directory, or null if there is none. Each file
+ * is parsed once per scan, however many imports and lookups need it.
+ */
+export function readPackageJson(dir: string): Promise<JsonObject | null> {
+  let packageJson = packageJsonCache.get(dir);
+  if (!packageJson) {
+    packageJson = fsPromises.readFile(path.join(dir, 'package.json'), 'utf-8')
+      .then(content => asJsonObject(JSON.parse(content)) ?? null)
+      .catch(() => null); // Missing or invalid package.json
+    packageJsonCache.set(dir, packageJson);
+  }
+  return packageJson;
+}
+
+// Find the nearest package.json at or above a directory
+async function findPackageScope(dir: string): Promise<{ dir: string; packageJson: JsonObject } | null> {
+  let current = dir;
+  while (true) {
+    const packageJson = await readPackageJson(current);
+    if (packageJson) {
+      return { dir: current, packageJson };
+    }
+    const parent = path.dirname(current);
+    if (parent === current) {
+      return null;
+    }
+    current = parent;
+  }
+}
+
+// Find the "type" field of the nearest package.json
+async function getPackageType(dir: string): Promise<'module' | 'commonjs'> {
+  if (packageTypeCache.has(dir)) {
+    return packageTypeCache.get(dir)!;
+  }
+
+  const scope = await findPackageScope(dir);
+  const type = scope?.packageJson.type === 'module' ? 'module' : 'commonjs';
+
+  packageTypeCache.set(dir, type);
+  return type;
+}
+
+// Under node16/nodenext, ES modules must spell out extensions and cannot import directories
+async function isEsmContext(filePath: string): Promise<boolean> {
+  const ext = path.extname(filePath);
+  if (ext === '.mts' || ext === '.mjs') return true;
+  if (ext === '.cts' || ext === '.cjs') return false;
+  return (await getPackageType(path.dirname(filePath))) === 'module';
+}
+
+// Resolve a path that names a file, with or without its extension
+async function resolveAsFile(basePath: string, allowExtensionProbing: boolean): Promise<string | null> {
+  const candidates: string[] = [];
+  const ext = path.extname(basePath);
+  const substitutions = EXTENSION_SUBSTITUTIONS[ext];
+
+  if (substitutions) {
+    const withoutExt = basePath.slice(0, -ext.length);
+    candidates.push(...substitutions.map(substitute => withoutExt + substitute));
+  } else {
+    candidates.push(basePath);
+  }
+
+  if (allowExtensionProbing) {
+    candidates.push(...PROBE_EXTENSIONS.map(extension => basePath + extension));
+  }
+
+  return findExistingFile(candidates);
+}
+
+// Resolve a directory import through its package.json entry points or index file
+async function resolveAsDirectory(dirPath: string): Promise<string | null> {
+  if (!(await isDirectory(dirPath))) {
+    return null;
+  }
+
+  const packageJson = await readPackageJson(dirPath);
+  for (const field of ['types', 'typings', 'main']) {
+    const entryPoint = packageJson?.[field];
+    if (typeof entryPoint === 'string') {
+      const entry = path.resolve(dirPath, entryPoint);
+      const resolved = await resolveAsFile(entry, true) ?? await findExistingFile(PROBE_EXTENSIONS.map(extension => path.join(entry, 'index' + extension)));
+      if (resolved) {
+        return resolved;
+      }
+    }
+  }
+
+  return findExistingFile(PROBE_EXTENSIONS.map(extension => path.join(dirPath, 'index' + extension)));
+}
+
+/**
+ * Resolves an absolute candidate path to a file using the given strategy.
+ * @param candidatePath The import target as an absolute path (before extension probing).
+ * @param fromFile The importing file, used to decide ESM vs CommonJS rules.
+ * @param strategy The module resolution strategy.
+ */
+export async function resolveCandidatePath(candidatePath: string, fromFile: string, strategy: ModuleResolutionStrategy): Promise<string | null> {
+  const strictEsm = (strategy === 'node16' || strategy === 'nodenext') && await isEsmContext(fromFile);
+
+  const asFile = await resolveAsFile(candidatePath, !strictEsm);
+  if (asFile) {
+    return asFile;
+  }
+
+  return strictEsm ? null : resolveAsDirectory(candidatePath);
+}
+
+// Collect the targets of an `exports`/`imports` entry for the conditions we honor
+function getConditionalTargets(target: unknown, capture: string): string[] {
+  if (typeof target === 'string') {
+    return [target.replace(/\*/g, capture)];
+  }
+  if (Array.isArray(target)) {
+    return target.flatMap(item => getConditionalTargets(item, capture));
+  }
+  const conditions = asJsonObject(target);
+  if (conditions) {
+    return Object.entries(conditions)
+      .filter(([condition]) => EXPORT_CONDITIONS.includes(condition))
+      .flatMap(([, value]) => getConditionalTargets(value, capture));
+  }
+  return [];
+}
+
+/**
+ * Looks up a subpath (`.`, `./utils` or `#internal/db`) in an `exports` or
+ * `imports` map, honoring `*` patterns, and returns the matching targets
+ */
+export function matchSubpathMap(map: unknown, subpath: string): string[] {
+  if (typeof map === 'string' || Array.isArray(map)) {
+    return subpath === '.' ? getConditionalTargets(map, '') : [];
+  }
+  const entries = asJsonObject(map);
+  if (!entries) {
+    return [];
+  }
+
+  // `"exports": { "import": "./index.js" }` is shorthand for the "." entry
+  const keys = Object.keys(entries);
+  if (keys.length > 0 && !keys.some(key => key.startsWith('.') || key.startsWith('#'))) {
+    return subpath === '.' ? getConditionalTargets(entries, '') : [];
+  }
+
+  if (subpath in entries && !subpath.includes('*')) {
+    return getConditionalTargets(entries[subpath], '');
+  }
+
+  // Pattern keys: the longest prefix before `*` wins
+  let bestKey: string | null = null;
+  let bestCapture = '';
+  for (const key of keys) {
+    const starIndex = key.indexOf('*');
+    if (starIndex === -1) continue;
+
+    const prefix = key.substring(0, starIndex);
+    const suffix = key.substring(starIndex + 1);
+    if (subpath.length >= prefix.length + suffix.length &&
+        subpath.startsWith(prefix) &&
+        subpath.endsWith(suffix) &&
+        (!bestKey || prefix.length > bestKey.indexOf('*'))) {
+      bestKey = key;
+      bestCapture = subpath.substring(prefix.length, subpath.length - suffix.length);
+    }
+  }
+
+  return bestKey ? getConditionalTargets(entries[bestKey], bestCapture) : [];
+}
+
+// Source files that a build output path was probably compiled from, e.g. dist/index.d.ts -> src/index.ts
+function getSourceCandidates(packageDir: string, targetPath: string): string[] {
+  const relativePath = path.relative(packageDir, targetPath).split(path.sep);
+  if (relativePath.length < 2 || !BUILD_OUTPUT_DIRS.includes(relativePath[0])) {
+    return [];
+  }
+
+  const sourcePath = path.join(packageDir, 'src', ...relativePath.slice(1));
+  return [sourcePath.replace(/\.d\.(m|c)?ts$/, '.$1js')];
+}
+
+// Resolve a file inside a package, preferring its sources over build output
+async function resolvePackageFile(packageDir: string, targetPath: string, allowExtensionProbing: boolean): Promise<string | null> {
+  for (const candidate of [...getSourceCandidates(packageDir, targetPath), targetPath]) {
+    const resolved = await resolveAsFile(candidate, allowExtensionProbing);
+    if (resolved) {
+      return resolved;
+    }
+  }
+  return null;
+}
+
+// Resolve the targets of an `exports`/`imports` match inside a package
+async function resolvePackageTargets(packageDir: string, targets: string[], fromFile: string, baseDir: string): Promise<string | null> {
+  for (const target of targets) {
+    if (target.startsWith('./')) {
+      const resolved = await resolvePackageFile(packageDir, path.resolve(packageDir, target), false);
+      if (resolved) {
+        return resolved;
+      }
+    } else if (!target.startsWith('/') && !target.startsWith('.')) {
+      // `imports` entries may point at another package
+      const resolved = await resolveWorkspaceImport(target, fromFile, baseDir);
+      if (resolved) {
+        return resolved;
+      }
+    }
+  }
+  return null;
+}
+
+/**
+ * Resolves a `#subpath` import through the `imports` map of the importing
+ * file's package.json
+ */
+async function resolveSubpathImport(specifier: string, fromFile: string, baseDir: string): Promise<string | null> {
+  const scope = await findPackageScope(path.dirname(fromFile));
+  if (!scope?.packageJson.imports) {
+    return null;
+  }
+
+  const targets = matchSubpathMap(scope.packageJson.imports, specifier);
+  return resolvePackageTargets(scope.dir, targets, fromFile, baseDir);
+}
+
+/**
+ * Resolves an import of a workspace package (e.g. `@acme/shared` or
+ * `@acme/shared/utils`) to a file in that package, through its `exports`
+ * map when it has one and its entry point fields otherwise
+ */
+async function resolveWorkspaceImport(specifier: string, fromFile: string, baseDir: string): Promise<string | null> {
+  const match = findWorkspacePackage(specifier, baseDir);
+  if (!match) {
+    return null;
+  }
+
+  const { pkg, subpath } = match;
+  if (pkg.packageJson.exports !== undefined) {
+    const targets = matchSubpathMap(pkg.packageJson.exports, subpath);
+    return resolvePackageTargets(pkg.dir, targets, fromFile, baseDir);
+  }
+
+  if (subpath !== '.') {
+    return await resolvePackageFile(pkg.dir, path.join(pkg.dir, subpath), true) ??
+      resolveAsDirectory(path.join(pkg.dir, subpath));
+  }
+
+  for (const field of ['source', 'types', 'typings', 'module', 'main']) {
+    const entryPoint = pkg.packageJson[field];
+    if (typeof entryPoint === 'string') {
+      const resolved = await resolvePackageFile(pkg.dir, path.resolve(pkg.dir, entryPoint), true);
+      if (resolved) {
+        return resolved;
+      }
+    }
+  }
+
+  return await resolvePackageFile(pkg.dir, path.join(pkg.dir, 'src', 'index'), true) ??
+    findExistingFile(PROBE_EXTENSIONS.map(extension => path.join(pkg.dir, 'index' + extension)));
+}
+
+/**
+ * Resolves an import specifier from a JS/TS file to a local file.
+ * Relative and root-absolute imports are resolved against the importing file
+ * and project root; `#subpath` imports go through the package.json `imports`
+ * map; other bare specifiers go through tsconfig `paths`/`baseUrl` and then
+ * the workspace packages, and are reported as packages when no local file matches.
+ * @param specifier The module specifier as written in the source.
+ * @param fromFile The absolute path of the importing file.
+ * @param baseDir The project root directory.
+ */
+export function resolveModuleImport(specifier: string, fromFile: string, baseDir: string): Promise<ModuleResolution> {
+  // Files of one directory and extension resolve a specifier identically
+  const key = `${path.dirname(fromFile)}\0${path.extname(fromFile)}\0${specifier}`;
+  let resolution = resolutionCache.get(key);
+  if (!resolution) {
+    resolution = resolveModuleImportUncached(specifier, fromFile, baseDir);
+    resolutionCache.set(key, resolution);
+  }
+  return resolution;
+}
+
+async function resolveModuleImportUncached(specifier: string, fromFile: string, baseDir: string): Promise<ModuleResolution> {
+  const strategy = getModuleResolutionStrategy(fromFile, baseDir);
+
+  // Relative imports
+  if (specifier.startsWith('.')) {
+    const candidate = path.resolve(path.dirname(fromFile), specifier);
+    const resolvedPath = await resolveCandidatePath(candidate, fromFile, strategy);
+    log(`[resolver:${strategy}] ${specifier} from ${fromFile} -> ${resolvedPath ?? 'unresolved'}`);
+    return { resolvedPath: resolvedPath ?? undefined, isPackage: false };
+  }
+
+  // Absolute imports (from project root)
+  if (specifier.startsWith('/')) {
+    const candidate = path.join(baseDir, specifier);
+    const resolvedPath = await resolveCandidatePath(candidate, fromFile, strategy);
+    log(`[resolver:${strategy}] ${specifier} from ${fromFile} -> ${resolvedPath ?? 'unresolved'}`);
+    return { resolvedPath: resolvedPath ?? undefined, isPackage: false };
+  }
+
+  // package.json `imports` (#subpath) entries
+  if (specifier.startsWith('#')) {
+    const resolvedPath = await resolveSubpathImport(specifier, fromFile, baseDir);
+    log(`[resolver:${strategy}] ${specifier} from ${fromFile} -> ${resolvedPath ?? 'unresolved'}`);
+    return { resolvedPath: resolvedPath ?? undefined, isPackage: false };
+  }
+
+  // tsconfig `paths` and `baseUrl` aliases
+  for (const candidate of getTsConfigAliasCandidates(specifier, fromFile, baseDir)) {
+    const resolvedPath = await resolveCandidatePath(candidate, fromFile, strategy);
+    if (resolvedPath) {
+      log(`[resolver:${strategy}] Resolved alias ${specifier} to: ${resolvedPath}`);
+      return { resolvedPath, isPackage: false };
+    }
+  }
+
+  // Packages of the same workspace
+  const workspacePath = await resolveWorkspaceImport(specifier, fromFile, baseDir);
+  if (workspacePath) {
+    log(`[resolver:${strategy}] Resolved workspace package ${specifier} to: ${workspacePath}`);
+    return { resolvedPath: workspacePath, isPackage: false };
+  }
+
+  return { isPackage: true };
+}
@@ -0,0 +1,117 @@
+import {
+  extractJavaImports, extractCSharpUsings, parseNamespaceDeclarations,
+  indexNamespaceFile, removeFromNamespaceIndex, resolveNamespaceImport, clearNamespaceIndex
+} from './namespace-index';
+import { describe, it, expect, beforeEach } from 'vitest';
+
+describe('extractJavaImports', () => {
+  it('should read single-type, on-demand and static imports', () => {
+    const source = [
+      'package com.acme.app;',
+      '',
+      'import com.acme.model.User;',
+      'import com.acme.util.*;',
+      'import static org.junit.Assert.assertEquals;',
+      '// import com.acme.Fake;',
+      'String s = "import x.Y;";'
+    ].join('\n');
+    expect(extractJavaImports(source)).toEqual([
+      { specifier: 'com.acme.model.User', kind: 'static' },
+      { specifier: 'com.acme.util.*', kind: 'static' },
+      { specifier: 'org.junit.Assert.assertEquals', kind: 'static' }
+    ]);
+  });
+});
+
+describe('extractCSharpUsings', () => {
+  it('should read using directives but not using statements', () => {
+    const source = [
+      'global using System;',
+      'using System.Collections.Generic;',
+      'using static System.Math;',
+      'using Json = Newtonsoft.Json;',
+      'using Ids = System.Collections.Generic.List<int>;',
+      'using (var stream = File.OpenRead(path)) { }',
+      'using var reader = new StreamReader(stream);'
+    ].join('\n');
+    expect(extractCSharpUsings(source).map(imp => imp.specifier)).toEqual([
+      'System', 'System.Collections.Generic', 'System.Math', 'Newtonsoft.Json', 'System.Collections.Generic.List'
+    ]);
+  });
+});
+
+describe('parseNamespaceDeclarations', () => {
+  it('should read the Java package and top-level types only', () => {
+    const source = 'package com.acme.model;\n\npublic class User {\n  static class Builder {}\n}\n\nrecord Id(String value) {}\n@interface Marker {}\n';
+    expect(parseNamespaceDeclarations(source)).toEqual({
+      namespaces: ['com.acme.model'],
+      types: [
+        { namespace: 'com.acme.model', name: 'User' },
+        { namespace: 'com.acme.model', name: 'Id' },
+        { namespace: 'com.acme.model', name: 'Marker' }
+      ]
+    });
+  });
+
+  it('should track nested and file-scoped C# namespaces', () => {
+    const blockScoped = [
+      'namespace Acme {',
+      '  namespace Data {',
+      '    public sealed class Repository<T> where T : class { class Inner {} }',
+      '    public record struct Key(int Value);',
+      '  }',
+      '  interface IService {}',
+      '}'
+    ].join('\n');
+    expect(parseNamespaceDeclarations(blockScoped)).toEqual({
+      namespaces: ['Acme', 'Acme.Data'],
+      types: [
+        { namespace: 'Acme.Data', name: 'Repository' },
+        { namespace: 'Acme.Data', name: 'Key' },
+        { namespace: 'Acme', name: 'IService' }
+      ]
+    });
+
+    expect(parseNamespaceDeclarations('namespace Acme.Web;\n\npublic static class Startup { }\n')).toEqual({
+      namespaces: ['Acme.Web'],
+      types: [{ namespace: 'Acme.Web', name: 'Startup' }]
+    });
+  });
+});
+
+describe('resolveNamespaceImport', () => {
+  beforeEach(() => {
+    clearNamespaceIndex();
+    indexNamespaceFile('/p/model/User.java', 'package com.acme.model;\npublic class User { public static class Builder {} }', 'java');
+    indexNamespaceFile('/p/model/Role.java', 'package com.acme.model;\npublic enum Role { ADMIN }', 'java');
+    indexNamespaceFile('/p/Data/Repository.cs', 'namespace Acme.Data;\npublic class Repository {}', 'csharp');
+    indexNamespaceFile('/p/Data/Store.cs', 'namespace Acme.Data { class Store {} }', 'csharp');
+  });
+
+  it('should resolve Java imports to the declaring files', () => {
+    expect(resolveNamespaceImport('com.acme.model.User', 'java')).toEqual({ files: [{ path: '/p/model/User.java', symbols: ['User'] }] });
+    expect(resolveNamespaceImport('com.acme.model.User.Builder', 'java')).toEqual({ files: [{ path: '/p/model/User.java', symbols: ['Builder'] }] });
+    expect(resolveNamespaceImport('com.acme.model.*', 'java').files.map(file => file.path)).toEqual(['/p/model/Role.java', '/p/model/User.java']);
+  });
+
+  it('should resolve C# usings to every file in the namespace', () => {
+    expect(resolveNamespaceImport('Acme.Data', 'csharp').files.map(file => file.path)).toEqual(['/p/Data/Repository.cs', '/p/Data/Store.cs']);
+  });
+
+  it('should classify unresolved namespaces as external', () => {
+    expect(resolveNamespaceImport('org.junit.Assert.assertEquals', 'java')).toEqual({ files: [], externalNamespace: 'org.junit' });
+    expect(resolveNamespaceImport('System.Collections.Generic', 'csharp')).toEqual({ files: [], externalNamespace: 'System.Collections.Generic' });
+  });
+
+  it('should only resolve to files of the importing language', () => {
+    indexNamespaceFile('/p/Shared/Bar.cs', 'namespace com.acme.model { public class Bar {} }', 'csharp');
+    expect(resolveNamespaceImport('com.acme.model.Bar', 'java')).toEqual({ files: [], externalNamespace: 'com.acme.model' });
+    expect(resolveNamespaceImport('com.acme.model.*', 'java').files.map(file => file.path)).toEqual(['/p/model/Role.java', '/p/model/User.java']);
+    expect(resolveNamespaceImport('com.acme.model', 'csharp').files.map(file => file.path)).toEqual(['/p/Shared/Bar.cs']);
+  });
+
+  it('should forget removed files', () => {
+    removeFromNamespaceIndex('/p/Data/Store.cs', 'csharp');
+    expect(resolveNamespaceImport('Acme.Data', 'csharp').files.map(file => file.path)).toEqual(['/p/Data/Repository.cs']);
+  });
+});
@@ -0,0 +1,288 @@
+import * as fsPromises from 'fs/promises';
+import { ExtractedImport } from './import-extractor.js';
+import { log } from './logger.js';
+
+/**
+ * The languages with a namespace index. Each language has its own index, so a
+ * Java import never resolves to a C# file declaring the same name.
+ */
+export type NamespaceLanguage = 'java' | 'csharp';
+
+/**
+ * A Java import or C# using resolved to the declaring files, or to an external namespace
+ */
+export interface NamespaceResolution {
+  files: { path: string; symbols?: string[] }[]; // Project files declaring the imported type or namespace
+  externalNamespace?: string;                    // The namespace when nothing in the project declares it
+}
+
+/**
+ * The package/namespace and top-level type declarations of one source file
+ */
+export interface NamespaceDeclarations {
+  namespaces: string[];                          // Declared packages/namespaces
+  types: { namespace: string; name: string }[];  // Top-level types with their enclosing namespace
+}
+
+// Files keyed by declared namespace, the declaring file keyed by qualified type name, and index keys per file
+interface NamespaceIndex {
+  namespaceFiles: Map<string, Set<string>>;
+  typeFiles: Map<string, string>;
+  indexedFiles: Map<string, { namespaces: string[]; types: string[] }>;
+}
+
+const indexes = new Map<NamespaceLanguage, NamespaceIndex>();
+
+function getIndex(language: NamespaceLanguage): NamespaceIndex {
+  let index = indexes.get(language);
+  if (!index) {
+    index = { namespaceFiles: new Map(), typeFiles: new Map(), indexedFiles: new Map() };
+    indexes.set(language, index);
+  }
+  return index;
+}
+
+/**
+ * Clears the namespace and type index of one language, or of all languages.
+ * Called at the start of every full scan.
+ */
+export function clearNamespaceIndex(language?: NamespaceLanguage): void {
+  if (language) {
+    indexes.delete(language);
+  } else {
+    indexes.clear();
+  }
+}
+
+// Blank out comments, string and character literals, keeping line breaks.
+// Handles Java text blocks and C# verbatim (@"") and raw (""") strings.
+function maskCommentsAndStrings(content: string): string {
+  let result = '';
+  let i = 0;
+  const blank = (text: string) => text.replace(/[^\n]/g, ' ');
+
+  while (i < content.length) {
+    const char = content[i];
+    const next = content[i + 1];
+    let end = -1;
+
+    if (char === '/' && next === '/') {
+      end = content.indexOf('\n', i);
+      if (end === -1) end = content.length;
+    } else if (char === '/' && next === '*') {
+      end = content.indexOf('*/', i + 2);
+      end = end === -1 ? content.length : end + 2;
+    } else if (content.startsWith('"""', i)) {
+      end = content.indexOf('"""', i + 3);
+      end = end === -1 ? content.length : end + 3;
+    } else if ((char === '@' && next === '"') || (char === '$' && next === '@' && content[i + 2] === '"') || (char === '@' && next === '$' && content[i + 2] === '"')) {
+      // Verbatim string: backslashes are literal and "" is an escaped quote
+      let j = content.indexOf('"', i) + 1;
+      while (j < content.length && !(content[j] === '"' && content[j + 1] !== '"')) {
+        j += content[j] === '"' ? 2 : 1;
+      }
+      end = j + 1;
+    } else if (char === '"' || char === "'") {
+      let j = i + 1;
+      while (j < content.length && content[j] !== char && content[j] !== '\n') {
+        if (content[j] === '\\') j++;
+        j++;
+      }
+      end = j + 1;
+    }
+
+    if (end === -1) {
+      result += char;
+      i++;
+    } else {
+      result += blank(content.slice(i, end));
+      i = end;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Extracts Java imports: single-type (`import a.b.C;`), on-demand
+ * (`import a.b.*;`) and static (`import static a.b.C.method;`) imports
+ */
+export function extractJavaImports(content: string): ExtractedImport[] {
+  const source = maskCommentsAndStrings(content);
+  const imports: ExtractedImport[] = [];
+  const pattern = /^\s*import\s+(?:static\s+)?([\w.]+(?:\s*\.\s*\*)?)\s*;/gm;
+  let match;
+  while ((match = pattern.exec(source)) !== null) {
+    imports.push({ specifier: match[1].replace(/\s+/g, ''), kind: 'static' });
+  }
+  return imports;
+}
+
+/**
+ * Extracts C# using directives, including `global using`, `using static`
+ * and aliases (`using Json = Newtonsoft.Json;`, recorded as their target).
+ * Using statements and declarations (`using (var x = ...)`) are not directives.
+ */
+export function extractCSharpUsings(content: string): ExtractedImport[] {
+  const source = maskCommentsAndStrings(content);
+  const imports: ExtractedImport[] = [];
+  const pattern = /^\s*(?:global\s+)?using\s+(?:static\s+)?(?:(\w+)\s*=\s*)?([\w.]+)(?:\s*<[^;]*>)?\s*;/gm;
+  let match;
+  while ((match = pattern.exec(source)) !== null) {
+    imports.push({ specifier: match[2], kind: 'static' });
+  }
+  return imports;
+}
+
+/**
+ * Reads the package/namespace declarations and the top-level types of a Java
+ * or C# file. C# block-scoped namespaces may be nested or repeated; types
+ * nested in other types are not indexed.
+ */
+export function parseNamespaceDeclarations(content: string): NamespaceDeclarations {
+  const source = maskCommentsAndStrings(content);
+  const declarations: NamespaceDeclarations = { namespaces: [], types: [] };
+  const tokens = /[{}]|\b(?:package|namespace)\s+([\w.]+)\s*(;)?|(?<![.\w@])(?:@interface|(?:record\s+)?(?:class|struct)|interface|enum|record)\s+(\w+)/g;
+
+  let depth = 0;
+  let fileNamespace = '';
+  let pendingNamespace: string | null = null;
+  const blockNamespaces: { name: string; depth: number }[] = [];
+  const currentNamespace = () => [fileNamespace, ...blockNamespaces.map(ns => ns.name)].filter(Boolean).join('.');
+
+  let match;
+  while ((match = tokens.exec(source)) !== null) {
+    if (match[0] === '{') {
+      depth++;
+      if (pendingNamespace !== null) {
+        blockNamespaces.push({ name: pendingNamespace, depth });
+        pendingNamespace = null;
+      }
+    } else if (match[0] === '}') {
+      if (blockNamespaces.length > 0 && blockNamespaces[blockNamespaces.length - 1].depth === depth) {
+        blockNamespaces.pop();
+      }
+      depth = Math.max(0, depth - 1);
+    } else if (match[1] !== undefined) {
+      // `package a.b;` and C# file-scoped `namespace A.B;` apply to the rest of the file
+      if (match[2]) {
+        fileNamespace = match[1];
+        declarations.namespaces.push(currentNamespace());
+      } else {
+        pendingNamespace = match[1];
+        declarations.namespaces.push([currentNamespace(), match[1]].filter(Boolean).join('.'));
+      }
+    } else if (match[3] !== undefined) {
+      const namespaceDepth = blockNamespaces.length > 0 ? blockNamespaces[blockNamespaces.length - 1].depth : 0;
+      if (depth === namespaceDepth) {
+        declarations.types.push({ namespace: currentNamespace(), name: match[3] });
+      }
+    }
+  }
+
+  declarations.namespaces = [...new Set(declarations.namespaces)];
+  return declarations;
+}
+
+/**
+ * Removes a file's declarations from the index of its language
+ */
+export function removeFromNamespaceIndex(filePath: string, language: NamespaceLanguage): void {
+  const { namespaceFiles, typeFiles, indexedFiles } = getIndex(language);
+  const keys = indexedFiles.get(filePath);
+  if (!keys) return;
+
+  for (const namespace of keys.namespaces) {
+    const files = namespaceFiles.get(namespace);
+    files?.delete(filePath);
+    if (files && files.size === 0) namespaceFiles.delete(namespace);
+  }
+  for (const type of keys.types) {
+    if (typeFiles.get(type) === filePath) typeFiles.delete(type);
+  }
+  indexedFiles.delete(filePath);
+}
+
+/**
+ * Adds (or refreshes) the declarations of one Java or C# file in the index of its language
+ */
+export function indexNamespaceFile(filePath: string, content: string, language: NamespaceLanguage): void {
+  removeFromNamespaceIndex(filePath, language);
+  const { namespaceFiles, typeFiles, indexedFiles } = getIndex(language);
+
+  const declarations = parseNamespaceDeclarations(content);
+  const types = declarations.types.map(type => type.namespace ? `${type.namespace}.${type.name}` : type.name);
+
+  for (const namespace of declarations.namespaces) {
+    if (!namespaceFiles.has(namespace)) namespaceFiles.set(namespace, new Set());
+    namespaceFiles.get(namespace)!.add(filePath);
+  }
+  types.forEach(type => typeFiles.set(type, filePath));
+  indexedFiles.set(filePath, { namespaces: declarations.namespaces, types });
+}
+
+/**
+ * Indexes the declarations of the project's Java and C# files before their
+ * imports are resolved, since an import may refer to a file scanned later
+ */
+export async function buildNamespaceIndex(filePaths: string[], language: NamespaceLanguage): Promise<void> {
+  for (const filePath of filePaths) {
+    try {
+      indexNamespaceFile(filePath, await fsPromises.readFile(filePath, 'utf-8'), language);
+    } catch (error) {
+      log(`[namespace-index] Failed to index ${filePath}: ${error}`);
+    }
+  }
+  const { namespaceFiles, typeFiles } = getIndex(language);
+  log(`[namespace-index] Indexed ${typeFiles.size} ${language} types in ${namespaceFiles.size} namespaces from ${filePaths.length} files`);
+}
+
+// The namespace part of an unresolved Java import: segments before the first
+// capitalized (type) segment, following the Java naming conventions
+function getJavaPackageName(specifier: string): string {
+  const segments = specifier.replace(/\.\*$/, '').split('.');
+  const typeIndex = segments.findIndex(segment => /^[A-Z]/.test(segment));
+  return segments.slice(0, typeIndex > 0 ? typeIndex : segments.length).join('.');
+}
+
+/**
+ * Resolves a Java import or C# using against the index of its language. A qualified type name
+ * resolves to its declaring file (static imports and nested types fall back
+ * to the enclosing top-level type); a namespace, or a Java on-demand import,
+ * resolves to every file declaring it. Anything else is an external namespace.
+ * @param specifier The import as returned by extractJavaImports or extractCSharpUsings
+ * @param language The language of the importing file, whose index and naming rules apply
+ */
+export function resolveNamespaceImport(specifier: string, language: NamespaceLanguage): NamespaceResolution {
+  const { namespaceFiles, typeFiles } = getIndex(language);
+  const isOnDemand = specifier.endsWith('.*');
+  const name = isOnDemand ? specifier.slice(0, -2) : specifier;
+
+  const segments = name.split('.');
+  if (language === 'java' && !isOnDemand) {
+    for (let length = segments.length; length >= 2; length--) {
+      const file = typeFiles.get(segments.slice(0, length).join('.'));
+      if (file) {
+        return { files: [{ path: file, symbols: [segments[segments.length - 1]] }] };
+      }
+    }
+  } else if (language === 'csharp' && typeFiles.has(name)) {
+    // `using static` and alias directives may name a type
+    return { files: [{ path: typeFiles.get(name)!, symbols: [segments[segments.length - 1]] }] };
+  }
+
+  const files = namespaceFiles.get(name);
+  if (files && files.size > 0) {
+    return { files: [...files].sort().map(file => ({ path: file })) };
+  }
+
+  // `import a.b.Outer.*` imports the members of a type
+  if (isOnDemand) {
+    const file = typeFiles.get(name);
+    if (file) {
+      return { files: [{ path: file, symbols: ['*'] }] };
+    }
+  }
+
+  return { files: [], externalNamespace: language === 'java' ? getJavaPackageName(specifier) : name };
+}
@@ -0,0 +1,95 @@
+import { extractPhpImports, resolvePhpImport, clearPhpCache } from './php-imports';
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+describe('extractPhpImports', () => {
+  it('should read use statements, group uses and includes', () => {
+    const source = [
+      '<?php',
+      'namespace App\\Http\\Controllers;',
+      '',
+      'use App\\Models\\User;',
+      'use Illuminate\\Http\\Request as HttpRequest;',
+      'use App\\Services\\{Billing, Mail as Mailer};',
+      'use function App\\Support\\helper;',
+      'require_once __DIR__ . \'/../bootstrap.php\';',
+      'include \'config/app.php\';',
+      '// use App\\Fake;',
+      '',
+      'class UserController {',
+      '    use AuthorizesRequests;',
+      '    private $s = "}";',
+      '    public function index() { return function () use ($x) { }; }',
+      '}'
+    ].join('\n');
+    expect(extractPhpImports(source)).toEqual([
+      { specifier: 'App\\Models\\User', kind: 'static', symbols: ['User'] },
+      { specifier: 'Illuminate\\Http\\Request', kind: 'static', symbols: ['Request'] },
+      { specifier: 'App\\Services\\Billing', kind: 'static', symbols: ['Billing'] },
+      { specifier: 'App\\Services\\Mail', kind: 'static', symbols: ['Mail'] },
+      { specifier: 'App\\Support\\helper', kind: 'static', symbols: ['helper'] },
+      { specifier: './../bootstrap.php', kind: 'static' },
+      { specifier: 'config/app.php', kind: 'static' }
+    ]);
+  });
+});
+
+describe('resolvePhpImport', () => {
+  let root: string;
+
+  const writeFile = (relativePath: string, content: string = '') => {
+    const fullPath = path.join(root, relativePath);
+    fs.mkdirSync(path.dirname(fullPath), { recursive: true });
+    fs.writeFileSync(fullPath, content);
+  };
+
+  const resolve = (specifier: string, from: string) => {
+    const result = resolvePhpImport(specifier, path.join(root, from), root);
+    return result.resolvedPath ? path.relative(root, result.resolvedPath).split(path.sep).join('/') : result;
+  };
+
+  beforeAll(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'filescope-php-'));
+    writeFile('composer.json', JSON.stringify({
+      autoload: { 'psr-4': { 'App\\': 'app/', 'Database\\Seeders\\': ['database/seeders/'] } },
+      'autoload-dev': { 'psr-4': { 'Tests\\': 'tests/' } }
+    }));
+    writeFile('composer.lock', JSON.stringify({
+      packages: [{ name: 'laravel/framework', version: 'v10.48.4', autoload: { 'psr-4': { 'Illuminate\\': 'src/Illuminate/' } } }],
+      'packages-dev': [{ name: 'phpunit/phpunit', version: '10.5.10', autoload: { classmap: ['src/'] } },
+        { name: 'mockery/mockery', version: '1.6.7', autoload: { 'psr-0': { Mockery: 'library/' } } }]
+    }));
+    writeFile('app/Models/User.php');
+    writeFile('app/Http/Controllers/UserController.php');
+    writeFile('database/seeders/UserSeeder.php');
+    writeFile('tests/Feature/UserTest.php');
+    writeFile('bootstrap.php');
+  });
+
+  afterAll(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  beforeEach(() => {
+    clearPhpCache();
+  });
+
+  it('should resolve classes through autoload and autoload-dev PSR-4 prefixes', () => {
+    expect(resolve('App\\Models\\User', 'app/Http/Controllers/UserController.php')).toBe('app/Models/User.php');
+    expect(resolve('Database\\Seeders\\UserSeeder', 'tests/Feature/UserTest.php')).toBe('database/seeders/UserSeeder.php');
+    expect(resolve('Tests\\Feature\\UserTest', 'app/Models/User.php')).toBe('tests/Feature/UserTest.php');
+  });
+
+  it('should map vendor namespaces to composer.lock packages', () => {
+    expect(resolve('Illuminate\\Http\\Request', 'app/Models/User.php')).toEqual({ package: { name: 'laravel/framework', version: 'v10.48.4', isDev: false } });
+    expect(resolve('Mockery\\MockInterface', 'tests/Feature/UserTest.php')).toEqual({ package: { name: 'mockery/mockery', version: '1.6.7', isDev: true } });
+  });
+
+  it('should resolve includes and report global classes as built-ins', () => {
+    expect(resolve('./../../bootstrap.php', 'app/Models/User.php')).toBe('bootstrap.php');
+    expect(resolve('Exception', 'app/Models/User.php')).toEqual({ builtinClass: 'Exception' });
+    expect(resolve('App\\Missing', 'app/Models/User.php')).toEqual({});
+  });
+});
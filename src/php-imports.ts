@@ -0,0 +1,271 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { ExtractedImport } from './import-extractor.js';
+import { log } from './logger.js';
+import { JsonObject, asJsonObject } from './json-utils.js';
+
+/**
+ * A PHP `use` or include resolved to a project file, a Composer package, or a built-in class
+ */
+export interface PhpResolution {
+  resolvedPath?: string;                                         // The project file declaring the class, or the included file
+  package?: { name: string; version?: string; isDev: boolean };  // Installed Composer package providing the namespace
+  builtinClass?: string;                                         // Unresolved global class, e.g. `Exception`
+}
+
+/**
+ * Autoload data for one Composer project
+ */
+interface ComposerProject {
+  dir: string;                                     // Directory containing composer.json
+  psr4: { prefix: string; dirs: string[] }[];      // Namespace prefixes (with trailing `\`) and absolute dirs, longest first
+  packages: { prefix: string; name: string; version?: string; isDev: boolean }[]; // Vendor namespace prefixes from composer.lock
+}
+
+// Composer projects keyed by composer.json directory, nearest project directory keyed by directory
+const composerCache = new Map<string, ComposerProject | null>();
+const nearestComposerCache = new Map<string, string | null>();
+
+/**
+ * Clears cached composer.json and composer.lock data. Called at the start of every full scan.
+ */
+export function clearPhpCache(): void {
+  composerCache.clear();
+  nearestComposerCache.clear();
+}
+
+// Blank out //, # and /* */ comments, leaving string literals alone
+function stripPhpComments(content: string): string {
+  let result = '';
+  let i = 0;
+  while (i < content.length) {
+    const char = content[i];
+    if ((char === '/' && content[i + 1] === '/') || (char === '#' && content[i + 1] !== '[')) {
+      while (i < content.length && content[i] !== '\n') i++;
+    } else if (char === '/' && content[i + 1] === '*') {
+      const end = content.indexOf('*/', i + 2);
+      const stop = end === -1 ? content.length : end + 2;
+      result += content.slice(i, stop).replace(/[^\n]/g, ' ');
+      i = stop;
+    } else if (char === '"' || char === "'") {
+      let j = i + 1;
+      while (j < content.length && content[j] !== char) {
+        if (content[j] === '\\') j++;
+        j++;
+      }
+      result += content.slice(i, j + 1);
+      i = j + 1;
+    } else {
+      result += char;
+      i++;
+    }
+  }
+  return result;
+}
+
+/**
+ * Returns whether a specifier is a namespaced name (from `use`) rather than an include path
+ */
+export function isPhpClassName(specifier: string): boolean {
+  return /^\\?[A-Za-z_]\w*(\\[A-Za-z_]\w*)*$/.test(specifier);
+}
+
+/**
+ * Extracts namespace imports and includes from PHP source. `use` statements,
+ * including `use function`/`use const` and group uses
+ * (`use App\Models\{User, Post as P};`), yield fully qualified names;
+ * `require`/`include` with a literal path (optionally prefixed by `__DIR__ .`)
+ * yield the path, made relative to the file when written against `__DIR__`.
+ */
+export function extractPhpImports(content: string): ExtractedImport[] {
+  const source = stripPhpComments(content);
+  const imports: ExtractedImport[] = [];
+
+  // Import statements sit at the top level or directly inside a namespace block,
+  // so skip trait `use` clauses inside class bodies by tracking brace depth.
+  // Other string literals are matched only so their braces are not counted.
+  const tokens = /[{}]|\bnamespace\s+[\w\\]+\s*\{|\buse\s+(?:(?:function|const)\s+)?([^;{]+?)(?:\\\s*\{([^}]*)\})?\s*;|\b(?:require|include)(?:_once)?\b\s*\(?\s*((?:__DIR__|dirname\s*\(\s*__FILE__\s*\))\s*\.\s*)?(["'])([^"']+)\4|"(?:\\[\s\S]|[^"\\])*"|'(?:\\[\s\S]|[^'\\])*'/g;
+  let depth = 0;
+  let namespaceDepth = 0;
+
+  const addUse = (name: string) => {
+    const className = name.trim().replace(/\s+as\s+\w+$/i, '').replace(/^\\/, '');
+    if (isPhpClassName(className)) {
+      imports.push({ specifier: className, kind: 'static', symbols: [className.split('\\').pop()!] });
+    }
+  };
+
+  let match;
+  while ((match = tokens.exec(source)) !== null) {
+    if (match[0] === '{') {
+      depth++;
+    } else if (match[0] === '}') {
+      if (depth === namespaceDepth) namespaceDepth = 0;
+      depth = Math.max(0, depth - 1);
+    } else if (match[0].startsWith('namespace')) {
+      depth++;
+      namespaceDepth = depth;
+    } else if (match[1] !== undefined) {
+      if (depth !== namespaceDepth) continue;
+      if (match[2] !== undefined) {
+        const prefix = match[1].trim().replace(/^\\/, '');
+        match[2].split(',').filter(item => item.trim()).forEach(item => addUse(`${prefix}\\${item.trim().replace(/^(?:function|const)\s+/, '')}`));
+      } else {
+        match[1].split(',').forEach(addUse);
+      }
+    } else if (match[5] !== undefined) {
+      const includePath = match[3] ? `.${match[5].startsWith('/') ? '' : '/'}${match[5]}` : match[5];
+      imports.push({ specifier: includePath, kind: 'static' });
+    }
+  }
+
+  return imports;
+}
+
+function readJson(filePath: string): JsonObject | null {
+  try {
+    return asJsonObject(JSON.parse(fs.readFileSync(filePath, 'utf-8'))) ?? null;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+      log(`[php] Failed to read ${filePath}: ${error}`);
+    }
+    return null;
+  }
+}
+
+// Namespace prefixes of an autoload section's psr-4 (and legacy psr-0) mappings
+function getAutoloadPrefixes(autoload: unknown): { prefix: string; dirs: string[] }[] {
+  const prefixes: { prefix: string; dirs: string[] }[] = [];
+  for (const key of ['psr-4', 'psr-0']) {
+    const mapping = asJsonObject(asJsonObject(autoload)?.[key]);
+    if (!mapping) continue;
+    for (const [prefix, dirs] of Object.entries(mapping)) {
+      const list = (Array.isArray(dirs) ? dirs : [dirs]).filter((dir): dir is string => typeof dir === 'string');
+      // PSR-0 keeps the namespace in the directory structure
+      const psr0Dirs = key === 'psr-0' ? list.map(dir => path.join(dir, prefix.replace(/\\/g, '/'))) : list;
+      prefixes.push({ prefix: prefix && !prefix.endsWith('\\') ? prefix + '\\' : prefix, dirs: psr0Dirs });
+    }
+  }
+  return prefixes;
+}
+
+// Load the autoload mappings of a composer.json and the package namespaces of its composer.lock
+function loadComposerProject(dir: string): ComposerProject | null {
+  if (composerCache.has(dir)) {
+    return composerCache.get(dir)!;
+  }
+
+  const composerJson = readJson(path.join(dir, 'composer.json'));
+  let project: ComposerProject | null = null;
+
+  if (composerJson) {
+    project = { dir, psr4: [], packages: [] };
+    for (const section of ['autoload', 'autoload-dev']) {
+      for (const { prefix, dirs } of getAutoloadPrefixes(composerJson[section])) {
+        project.psr4.push({ prefix, dirs: dirs.map(target => path.resolve(dir, target)) });
+      }
+    }
+
+    const lock = readJson(path.join(dir, 'composer.lock'));
+    for (const [section, isDev] of [['packages', false], ['packages-dev', true]] as [string, boolean][]) {
+      const lockedPackages = lock?.[section];
+      for (const entry of Array.isArray(lockedPackages) ? lockedPackages : []) {
+        const pkg = asJsonObject(entry);
+        if (typeof pkg?.name !== 'string') continue;
+        const version = typeof pkg.version === 'string' ? pkg.version : undefined;
+        for (const { prefix } of getAutoloadPrefixes(pkg.autoload)) {
+          if (prefix) project.packages.push({ prefix, name: pkg.name, version, isDev });
+        }
+      }
+    }
+
+    project.psr4.sort((a, b) => b.prefix.length - a.prefix.length);
+    project.packages.sort((a, b) => b.prefix.length - a.prefix.length);
+    log(`[php] Loaded ${project.psr4.length} autoload prefixes and ${project.packages.length} package namespaces from ${dir}`);
+  }
+
+  composerCache.set(dir, project);
+  return project;
+}
+
+// Find the Composer project containing a file, searching upwards but not above the project root
+function findComposerProject(filePath: string, baseDir: string): ComposerProject | null {
+  const root = path.normalize(baseDir);
+  let dir = path.dirname(path.normalize(filePath));
+  const visited: string[] = [];
+
+  while (true) {
+    if (nearestComposerCache.has(dir)) {
+      const cached = nearestComposerCache.get(dir)!;
+      visited.forEach(v => nearestComposerCache.set(v, cached));
+      return cached ? loadComposerProject(cached) : null;
+    }
+    visited.push(dir);
+
+    if (fs.existsSync(path.join(dir, 'composer.json'))) {
+      visited.forEach(v => nearestComposerCache.set(v, dir));
+      return loadComposerProject(dir);
+    }
+
+    const parent = path.dirname(dir);
+    if (dir === root || parent === dir || !dir.startsWith(root)) {
+      visited.forEach(v => nearestComposerCache.set(v, null));
+      return null;
+    }
+    dir = parent;
+  }
+}
+
+function isFile(filePath: string): boolean {
+  try {
+    return fs.statSync(filePath).isFile();
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Resolves a PHP import. Class names map to files through the PSR-4
+ * `autoload`/`autoload-dev` prefixes of the nearest composer.json; names
+ * under a namespace autoloaded by an installed package become that package,
+ * with the version from composer.lock. Include paths resolve against the
+ * including file's directory, then the project root.
+ * @param specifier A name or path as returned by extractPhpImports
+ * @param fromFile The absolute path of the importing file
+ * @param baseDir The project root directory
+ */
+export function resolvePhpImport(specifier: string, fromFile: string, baseDir: string): PhpResolution {
+  if (!isPhpClassName(specifier)) {
+    const candidates = path.isAbsolute(specifier)
+      ? [specifier]
+      : [path.resolve(path.dirname(fromFile), specifier), path.resolve(baseDir, specifier)];
+    const resolvedPath = candidates.find(isFile);
+    return resolvedPath ? { resolvedPath: path.normalize(resolvedPath) } : {};
+  }
+
+  const className = specifier.replace(/^\\/, '');
+  const project = findComposerProject(fromFile, baseDir);
+
+  for (const { prefix, dirs } of project?.psr4 ?? []) {
+    if (!className.startsWith(prefix)) continue;
+    const relativePath = className.slice(prefix.length).split('\\').join(path.sep) + '.php';
+    for (const dir of dirs) {
+      const candidate = path.join(dir, relativePath);
+      if (isFile(candidate)) {
+        return { resolvedPath: path.normalize(candidate) };
+      }
+    }
+  }
+
+  const pkg = project?.packages.find(candidate => className.startsWith(candidate.prefix));
+  if (pkg) {
+    return { package: { name: pkg.name, version: pkg.version, isDev: pkg.isDev } };
+  }
+
+  // Classes outside any namespace are PHP built-ins such as Exception or DateTime
+  if (!className.includes('\\')) {
+    return { builtinClass: className };
+  }
+
+  return {};
+}
@@ -0,0 +1,125 @@
+import { extractPythonImports, resolvePythonImport, clearPythonCache, getPythonRequirement } from './python-imports';
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+describe('extractPythonImports', () => {
+  it('should read plain, dotted and aliased imports', () => {
+    expect(extractPythonImports('import os.path, json as j\nimport numpy as np\n')).toEqual([
+      { specifier: 'os.path', kind: 'static' },
+      { specifier: 'json', kind: 'static' },
+      { specifier: 'numpy', kind: 'static' }
+    ]);
+  });
+
+  it('should read relative and parenthesized from-imports', () => {
+    const source = [
+      'from . import models',
+      'from ..pkg.mod import (',
+      '    first,  # trailing comment',
+      '    second as s,',
+      ')',
+      'from .util import *'
+    ].join('\n');
+    expect(extractPythonImports(source)).toEqual([
+      { specifier: '.', kind: 'static', symbols: ['models'] },
+      { specifier: '..pkg.mod', kind: 'static', symbols: ['first', 'second'] },
+      { specifier: '.util', kind: 'static', symbols: ['*'] }
+    ]);
+  });
+
+  it('should ignore imports inside strings and comments', () => {
+    const source = '"""\nimport fake\n"""\n# import other\ntext = "from x import y"\n';
+    expect(extractPythonImports(source)).toEqual([]);
+  });
+
+  it('should mark TYPE_CHECKING imports as type-only and import_module calls as dynamic', () => {
+    const source = [
+      'if TYPE_CHECKING:',
+      '    from app.models import User',
+      'import app.runtime',
+      'plugin = importlib.import_module("app.plugins.csv")'
+    ].join('\n');
+    expect(extractPythonImports(source)).toEqual([
+      { specifier: 'app.models', kind: 'type-only', symbols: ['User'] },
+      { specifier: 'app.runtime', kind: 'static' },
+      { specifier: 'app.plugins.csv', kind: 'dynamic' }
+    ]);
+  });
+});
+
+describe('resolvePythonImport', () => {
+  let root: string;
+
+  const writeFile = (relativePath: string, content: string = '') => {
+    const fullPath = path.join(root, relativePath);
+    fs.mkdirSync(path.dirname(fullPath), { recursive: true });
+    fs.writeFileSync(fullPath, content);
+  };
+
+  const resolve = (specifier: string, symbols: string[] | undefined, from: string) => {
+    const result = resolvePythonImport(specifier, symbols, path.join(root, from), root);
+    return { ...result, files: result.files.map(file => ({ ...file, path: path.relative(root, file.path).split(path.sep).join('/') })) };
+  };
+
+  beforeAll(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'filescope-python-'));
+    writeFile('pyproject.toml', [
+      '[project]',
+      'dependencies = ["requests>=2.31", "PyYAML==6.0"]',
+      '',
+      '[project.optional-dependencies]',
+      'dev = ["pytest>=8"]',
+      '',
+      '[tool.setuptools.packages.find]',
+      'where = ["src"]'
+    ].join('\n'));
+    writeFile('src/app/__init__.py');
+    writeFile('src/app/util.py');
+    writeFile('src/app/models/__init__.py');
+    writeFile('src/app/models/user.py');
+    writeFile('src/app/models/base.py');
+    writeFile('scripts/run.py');
+    writeFile('scripts/helpers.py');
+  });
+
+  afterAll(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  beforeEach(() => {
+    clearPythonCache();
+  });
+
+  it('should resolve relative imports from the current and parent packages', () => {
+    expect(resolve('.', ['base'], 'src/app/models/user.py').files).toEqual([{ path: 'src/app/models/base.py' }]);
+    expect(resolve('..util', ['helper'], 'src/app/models/user.py').files).toEqual([{ path: 'src/app/util.py', symbols: ['helper'] }]);
+  });
+
+  it('should map dotted modules to module files and package __init__ files', () => {
+    expect(resolve('app.models.user', undefined, 'scripts/run.py').files).toEqual([{ path: 'src/app/models/user.py' }]);
+    expect(resolve('app.models', undefined, 'scripts/run.py').files).toEqual([{ path: 'src/app/models/__init__.py' }]);
+  });
+
+  it('should resolve from-imported submodules alongside package attributes', () => {
+    expect(resolve('app.models', ['user', 'VERSION'], 'scripts/run.py').files).toEqual([
+      { path: 'src/app/models/__init__.py', symbols: ['VERSION'] },
+      { path: 'src/app/models/user.py' }
+    ]);
+  });
+
+  it('should resolve modules next to a script', () => {
+    expect(resolve('helpers', undefined, 'scripts/run.py').files).toEqual([{ path: 'scripts/helpers.py' }]);
+  });
+
+  it('should separate the standard library from third-party modules', () => {
+    expect(resolve('os.path', undefined, 'scripts/run.py')).toEqual({ files: [], topLevelModule: 'os', isStdlib: true });
+    expect(resolve('requests.adapters', undefined, 'scripts/run.py')).toEqual({ files: [], topLevelModule: 'requests', isStdlib: false });
+  });
+
+  it('should read declared versions from pyproject.toml', () => {
+    expect(getPythonRequirement('requests', path.join(root, 'scripts/run.py'), root)).toEqual({ version: '>=2.31', isDev: false });
+    expect(getPythonRequirement('pytest', path.join(root, 'scripts/run.py'), root)).toEqual({ version: '>=8', isDev: true });
+  });
+});
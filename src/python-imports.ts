@@ -0,0 +1,443 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { ExtractedImport } from './import-extractor.js';
+import { TomlTable, asTomlTable, getTomlValue, parseToml } from './toml-utils.js';
+import { log } from './logger.js';
+
+// Top-level modules of the Python standard library (sys.stdlib_module_names, public names)
+const PYTHON_STDLIB_MODULES = new Set([
+  '__future__', '_thread', 'abc', 'aifc', 'argparse', 'array', 'ast', 'asynchat', 'asyncio', 'asyncore', 'atexit',
+  'audioop', 'base64', 'bdb', 'binascii', 'bisect', 'builtins', 'bz2', 'cProfile', 'calendar', 'cgi', 'cgitb',
+  'chunk', 'cmath', 'cmd', 'code', 'codecs', 'codeop', 'collections', 'colorsys', 'compileall', 'concurrent',
+  'configparser', 'contextlib', 'contextvars', 'copy', 'copyreg', 'crypt', 'csv', 'ctypes', 'curses',
+  'dataclasses', 'datetime', 'dbm', 'decimal', 'difflib', 'dis', 'distutils', 'doctest', 'email', 'encodings',
+  'ensurepip', 'enum', 'errno', 'faulthandler', 'fcntl', 'filecmp', 'fileinput', 'fnmatch', 'fractions',
+  'ftplib', 'functools', 'gc', 'genericpath', 'getopt', 'getpass', 'gettext', 'glob', 'graphlib', 'grp', 'gzip',
+  'hashlib', 'heapq', 'hmac', 'html', 'http', 'idlelib', 'imaplib', 'imghdr', 'imp', 'importlib', 'inspect',
+  'io', 'ipaddress', 'itertools', 'json', 'keyword', 'lib2to3', 'linecache', 'locale', 'logging', 'lzma',
+  'mailbox', 'mailcap', 'marshal', 'math', 'mimetypes', 'mmap', 'modulefinder', 'msilib', 'msvcrt',
+  'multiprocessing', 'netrc', 'nis', 'nntplib', 'nt', 'ntpath', 'nturl2path', 'numbers', 'opcode', 'operator',
+  'optparse', 'os', 'ossaudiodev', 'pathlib', 'pdb', 'pickle', 'pickletools', 'pipes', 'pkgutil', 'platform',
+  'plistlib', 'poplib', 'posix', 'posixpath', 'pprint', 'profile', 'pstats', 'pty', 'pwd', 'py_compile',
+  'pyclbr', 'pydoc', 'pydoc_data', 'pyexpat', 'queue', 'quopri', 'random', 're', 'readline', 'reprlib',
+  'resource', 'rlcompleter', 'runpy', 'sched', 'secrets', 'select', 'selectors', 'shelve', 'shlex', 'shutil',
+  'signal', 'site', 'smtpd', 'smtplib', 'sndhdr', 'socket', 'socketserver', 'spwd', 'sqlite3', 'sre_compile',
+  'sre_constants', 'sre_parse', 'ssl', 'stat', 'statistics', 'string', 'stringprep', 'struct', 'subprocess',
+  'sunau', 'symtable', 'sys', 'sysconfig', 'syslog', 'tabnanny', 'tarfile', 'telnetlib', 'tempfile', 'termios',
+  'textwrap', 'this', 'threading', 'time', 'timeit', 'tkinter', 'token', 'tokenize', 'tomllib', 'trace',
+  'traceback', 'tracemalloc', 'tty', 'turtle', 'turtledemo', 'types', 'typing', 'unicodedata', 'unittest',
+  'urllib', 'uu', 'uuid', 'venv', 'warnings', 'wave', 'weakref', 'webbrowser', 'winreg', 'winsound', 'wsgiref',
+  'xdrlib', 'xml', 'xmlrpc', 'zipapp', 'zipfile', 'zipimport', 'zlib', 'zoneinfo'
+]);
+
+/**
+ * A Python import resolved to local files, or classified as external
+ */
+export interface PythonResolution {
+  files: { path: string; symbols?: string[] }[]; // Local modules the import refers to
+  topLevelModule?: string;                       // First segment of an unresolved absolute import
+  isStdlib: boolean;                             // Whether the unresolved module is part of the standard library
+}
+
+// Third-party requirement versions and dev status, keyed by normalized distribution name
+interface PythonRequirement {
+  version?: string;
+  isDev: boolean;
+}
+
+// Source roots and requirements keyed by project directory
+const sourceRootCache = new Map<string, string[]>();
+const requirementCache = new Map<string, Map<string, PythonRequirement>>();
+
+/**
+ * Clears cached pyproject.toml lookups. Called at the start of every full scan.
+ */
+export function clearPythonCache(): void {
+  sourceRootCache.clear();
+  requirementCache.clear();
+}
+
+/**
+ * Returns whether a top-level module belongs to the Python standard library
+ */
+export function isPythonStdlibModule(moduleName: string): boolean {
+  return PYTHON_STDLIB_MODULES.has(moduleName.split('.')[0]);
+}
+
+interface LogicalLine {
+  text: string;
+  indent: number;
+}
+
+// Split source into logical lines, joining bracketed and backslash-continued lines
+// and dropping comments. String literals are kept so dynamic imports can be read.
+function splitLogicalLines(content: string): LogicalLine[] {
+  const lines: LogicalLine[] = [];
+  let current = '';
+  let indent = 0;
+  let atLineStart = true;
+  let depth = 0;
+  let i = 0;
+
+  const flush = () => {
+    if (current.trim()) {
+      lines.push({ text: current.trim(), indent });
+    }
+    current = '';
+    atLineStart = true;
+  };
+
+  while (i < content.length) {
+    const char = content[i];
+
+    if (atLineStart) {
+      // Measure indentation of the first physical line of the statement
+      let width = 0;
+      while (content[i] === ' ' || content[i] === '\t') {
+        width += content[i] === '\t' ? 8 : 1;
+        i++;
+      }
+      indent = width;
+      atLineStart = false;
+      continue;
+    }
+
+    if (char === '#') {
+      while (i < content.length && content[i] !== '\n') i++;
+    } else if (char === '"' || char === "'") {
+      const triple = content.startsWith(char.repeat(3), i);
+      const quote = triple ? char.repeat(3) : char;
+      let end = i + quote.length;
+      while (end < content.length && !content.startsWith(quote, end)) {
+        if (content[end] === '\\') end++;
+        else if (!triple && content[end] === '\n') break;
+        end++;
+      }
+      current += content.slice(i, end + quote.length);
+      i = end + quote.length;
+    } else if (char === '\\' && (content[i + 1] === '\n' || content.startsWith('\r\n', i + 1))) {
+      current += ' ';
+      i += content[i + 1] === '\n' ? 2 : 3;
+    } else if ((char === '\n' || char === ';') && depth === 0) {
+      flush();
+      // Statements after `;` share the line's indentation
+      if (char === ';') atLineStart = false;
+      i++;
+    } else {
+      if (char === '(' || char === '[' || char === '{') depth++;
+      if ((char === ')' || char === ']' || char === '}') && depth > 0) depth--;
+      current += char === '\n' || char === '\r' ? ' ' : char;
+      i++;
+    }
+  }
+  flush();
+
+  return lines;
+}
+
+/**
+ * Extracts imports from Python source. `import a.b` yields the dotted module,
+ * `from ..pkg import x` yields the relative module with the imported names as
+ * symbols, imports under `if TYPE_CHECKING:` are type-only, and
+ * `importlib.import_module('x')` / `__import__('x')` calls are dynamic.
+ */
+export function extractPythonImports(content: string): ExtractedImport[] {
+  const imports: ExtractedImport[] = [];
+  let typeCheckingIndent: number | null = null;
+
+  for (const { text, indent } of splitLogicalLines(content)) {
+    if (typeCheckingIndent !== null && indent <= typeCheckingIndent) {
+      typeCheckingIndent = null;
+    }
+    const kind = typeCheckingIndent !== null ? 'type-only' : 'static';
+
+    if (/^if\s+(typing\.)?TYPE_CHECKING\s*:\s*$/.test(text)) {
+      typeCheckingIndent = indent;
+      continue;
+    }
+
+    const importMatch = text.match(/^import\s+(.+)$/);
+    if (importMatch) {
+      for (const part of importMatch[1].split(',')) {
+        const moduleName = part.trim().split(/\s+/)[0];
+        if (/^[\w.]+$/.test(moduleName)) {
+          imports.push({ specifier: moduleName, kind });
+        }
+      }
+      continue;
+    }
+
+    const fromMatch = text.match(/^from\s+(\.*[\w.]*)\s+import\s+(.+)$/);
+    if (fromMatch && fromMatch[1]) {
+      const symbols = fromMatch[2].replace(/[()]/g, '').split(',')
+        .map(part => part.trim().split(/\s+/)[0])
+        .filter(name => /^(\w+|\*)$/.test(name));
+      imports.push(symbols.length > 0 ? { specifier: fromMatch[1], kind, symbols } : { specifier: fromMatch[1], kind });
+      continue;
+    }
+
+    const dynamicPattern = /\b(?:import_module|__import__)\(\s*(['"])([\w.]+)\1/g;
+    let match;
+    while ((match = dynamicPattern.exec(text)) !== null) {
+      imports.push({ specifier: match[2], kind: 'dynamic' });
+    }
+  }
+
+  return imports;
+}
+
+function readPyproject(projectDir: string): TomlTable | null {
+  try {
+    return parseToml(fs.readFileSync(path.join(projectDir, 'pyproject.toml'), 'utf-8'));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+      log(`[python] Failed to read pyproject.toml in ${projectDir}: ${error}`);
+    }
+    return null;
+  }
+}
+
+// Find the directory of the nearest pyproject.toml, stopping at the project root
+function findPythonProjectDir(filePath: string, baseDir: string): string {
+  const root = path.normalize(baseDir);
+  let dir = path.dirname(path.normalize(filePath));
+  while (dir.startsWith(root) && dir !== root) {
+    if (fs.existsSync(path.join(dir, 'pyproject.toml'))) {
+      return dir;
+    }
+    dir = path.dirname(dir);
+  }
+  return root;
+}
+
+/**
+ * Returns the directories absolute imports are resolved from for a project:
+ * package roots declared in pyproject.toml (setuptools, poetry, hatch), a
+ * `src/` layout if present, and the project directory itself
+ */
+export function getPythonSourceRoots(projectDir: string): string[] {
+  if (sourceRootCache.has(projectDir)) {
+    return sourceRootCache.get(projectDir)!;
+  }
+
+  const roots: string[] = [];
+  const addRoot = (root: string) => {
+    const resolved = path.resolve(projectDir, root);
+    if (!roots.includes(resolved) && fs.existsSync(resolved)) {
+      roots.push(resolved);
+    }
+  };
+
+  const tool = readPyproject(projectDir)?.tool;
+
+  // [tool.setuptools] package-dir = { "" = "src" }
+  const packageDir = getTomlValue(tool, 'setuptools', 'package-dir', '');
+  if (typeof packageDir === 'string') {
+    addRoot(packageDir);
+  }
+
+  // [tool.setuptools.packages.find] where = ["src"]
+  const where = getTomlValue(tool, 'setuptools', 'packages', 'find', 'where');
+  for (const root of Array.isArray(where) ? where : []) {
+    if (typeof root === 'string') addRoot(root);
+  }
+
+  // [tool.poetry] packages = [{ include = "pkg", from = "src" }]
+  const poetryPackages = getTomlValue(tool, 'poetry', 'packages');
+  for (const entry of Array.isArray(poetryPackages) ? poetryPackages : []) {
+    const from = asTomlTable(entry)?.from;
+    if (typeof from === 'string') addRoot(from);
+  }
+
+  // [tool.hatch.build.targets.wheel] packages = ["src/pkg"]
+  const hatchPackages = getTomlValue(tool, 'hatch', 'build', 'targets', 'wheel', 'packages');
+  for (const packagePath of Array.isArray(hatchPackages) ? hatchPackages : []) {
+    if (typeof packagePath === 'string') addRoot(path.dirname(packagePath));
+  }
+
+  // Conventional src/ layout
+  addRoot('src');
+  addRoot('.');
+
+  sourceRootCache.set(projectDir, roots);
+  return roots;
+}
+
+// Locate a dotted module under a root: `a/b.py`, `a/b.pyi` or the package `a/b/__init__.py`
+function findModule(root: string, parts: string[]): { file?: string; packageDir?: string } | null {
+  const modulePath = path.join(root, ...parts);
+
+  for (const candidate of [modulePath + '.py', modulePath + '.pyi']) {
+    if (fs.existsSync(candidate) && fs.statSync(candidate).isFile()) {
+      return { file: path.normalize(candidate) };
+    }
+  }
+
+  if (fs.existsSync(modulePath) && fs.statSync(modulePath).isDirectory()) {
+    const init = path.join(modulePath, '__init__.py');
+    // A directory without __init__.py is a namespace package
+    return fs.existsSync(init)
+      ? { file: path.normalize(init), packageDir: modulePath }
+      : { packageDir: modulePath };
+  }
+
+  return null;
+}
+
+// Resolve `from <module> import <names>`: names may be submodules of a package
+function resolveFromImport(module: { file?: string; packageDir?: string }, symbols: string[] | undefined): PythonResolution['files'] {
+  const files: PythonResolution['files'] = [];
+  const attributeNames: string[] = [];
+
+  for (const symbol of symbols ?? []) {
+    const submodule = module.packageDir && symbol !== '*' ? findModule(module.packageDir, [symbol]) : null;
+    if (submodule?.file) {
+      files.push({ path: submodule.file });
+    } else {
+      attributeNames.push(symbol);
+    }
+  }
+
+  if (module.file && (attributeNames.length > 0 || files.length === 0)) {
+    files.unshift(attributeNames.length > 0 ? { path: module.file, symbols: attributeNames } : { path: module.file });
+  }
+
+  return files;
+}
+
+/**
+ * Resolves a Python import to local modules.
+ * Relative imports are resolved from the importing file's package; absolute
+ * imports are looked up in the project's source roots and then next to the
+ * importing file. Unresolved absolute imports are classified as stdlib or
+ * third-party by their top-level module.
+ * @param specifier The module as written, e.g. `os.path`, `.models` or `..`
+ * @param symbols The names imported by a `from ... import` statement
+ * @param fromFile The absolute path of the importing file
+ * @param baseDir The project root directory
+ */
+export function resolvePythonImport(specifier: string, symbols: string[] | undefined, fromFile: string, baseDir: string): PythonResolution {
+  const isFromImport = symbols !== undefined;
+
+  // Relative imports: one dot is the current package, each extra dot goes up a level
+  const leadingDots = specifier.match(/^\.*/)![0].length;
+  if (leadingDots > 0) {
+    let packageDir = path.dirname(fromFile);
+    for (let level = 1; level < leadingDots; level++) {
+      packageDir = path.dirname(packageDir);
+    }
+
+    const rest = specifier.slice(leadingDots);
+    const module = rest
+      ? findModule(packageDir, rest.split('.'))
+      : { file: fs.existsSync(path.join(packageDir, '__init__.py')) ? path.join(packageDir, '__init__.py') : undefined, packageDir };
+
+    return { files: module ? resolveFromImport(module, symbols) : [], isStdlib: false };
+  }
+
+  const parts = specifier.split('.');
+  const projectDir = findPythonProjectDir(fromFile, baseDir);
+  const roots = [...getPythonSourceRoots(projectDir)];
+  if (projectDir !== path.normalize(baseDir)) {
+    roots.push(...getPythonSourceRoots(path.normalize(baseDir)).filter(root => !roots.includes(root)));
+  }
+
+  // Scripts can import modules that sit next to them, but a sibling file
+  // named like a stdlib module (e.g. `types.py`) is not what `import types` means
+  const searchRoots = isPythonStdlibModule(parts[0]) ? roots : [...roots, path.dirname(fromFile)];
+  for (const root of searchRoots) {
+    const module = findModule(root, parts);
+    if (module && (module.file || isFromImport)) {
+      const files = isFromImport ? resolveFromImport(module, symbols) : [{ path: module.file! }];
+      if (files.length > 0) {
+        return { files, isStdlib: false };
+      }
+    }
+  }
+
+  return { files: [], topLevelModule: parts[0], isStdlib: isPythonStdlibModule(parts[0]) };
+}
+
+// PEP 503 name normalization, also applied to import names for matching
+function normalizeDistributionName(name: string): string {
+  return name.toLowerCase().replace(/[-_.]+/g, '-');
+}
+
+// Parse a PEP 508 requirement such as "requests[socks]>=2.31; python_version>'3.8'"
+function parseRequirement(requirement: string): { name: string; version?: string } | null {
+  const match = requirement.trim().match(/^([A-Za-z0-9][A-Za-z0-9._-]*)\s*(?:\[[^\]]*\])?\s*([^;]*)/);
+  if (!match) return null;
+  const version = match[2].trim();
+  return version ? { name: match[1], version } : { name: match[1] };
+}
+
+// Collect declared requirements from pyproject.toml and requirements files
+function getPythonRequirements(projectDir: string): Map<string, PythonRequirement> {
+  if (requirementCache.has(projectDir)) {
+    return requirementCache.get(projectDir)!;
+  }
+
+  const requirements = new Map<string, PythonRequirement>();
+  const add = (name: string, version: string | undefined, isDev: boolean) => {
+    const key = normalizeDistributionName(name);
+    if (!requirements.has(key) || (requirements.get(key)!.isDev && !isDev)) {
+      requirements.set(key, version ? { version, isDev } : { isDev });
+    }
+  };
+
+  const pyproject = readPyproject(projectDir);
+  const dependencies = getTomlValue(pyproject, 'project', 'dependencies');
+  for (const entry of Array.isArray(dependencies) ? dependencies : []) {
+    const requirement = typeof entry === 'string' ? parseRequirement(entry) : null;
+    if (requirement) add(requirement.name, requirement.version, false);
+  }
+  const optional = asTomlTable(getTomlValue(pyproject, 'project', 'optional-dependencies')) ?? {};
+  for (const [group, entries] of Object.entries(optional)) {
+    for (const entry of Array.isArray(entries) ? entries : []) {
+      const requirement = typeof entry === 'string' ? parseRequirement(entry) : null;
+      if (requirement) add(requirement.name, requirement.version, /^(dev|test|tests|lint|docs)$/.test(group));
+    }
+  }
+
+  // Poetry: [tool.poetry.dependencies] and dev groups
+  const poetry = getTomlValue(pyproject, 'tool', 'poetry');
+  const poetryTables: [unknown, boolean][] = [
+    [getTomlValue(poetry, 'dependencies'), false],
+    [getTomlValue(poetry, 'dev-dependencies'), true],
+    ...Object.values(asTomlTable(getTomlValue(poetry, 'group')) ?? {}).map(group => [getTomlValue(group, 'dependencies'), true] as [unknown, boolean])
+  ];
+  for (const [table, isDev] of poetryTables) {
+    for (const [name, spec] of Object.entries(asTomlTable(table) ?? {})) {
+      if (name === 'python') continue;
+      const version = typeof spec === 'string' ? spec : asTomlTable(spec)?.version;
+      add(name, typeof version === 'string' ? version : undefined, isDev);
+    }
+  }
+
+  for (const [fileName, isDev] of [['requirements.txt', false], ['requirements-dev.txt', true], ['dev-requirements.txt', true]] as [string, boolean][]) {
+    try {
+      for (const line of fs.readFileSync(path.join(projectDir, fileName), 'utf-8').split(/\r?\n/)) {
+        const trimmed = line.replace(/\s+#.*$/, '').trim();
+        if (!trimmed || trimmed.startsWith('#') || trimmed.startsWith('-')) continue;
+        const requirement = parseRequirement(trimmed);
+        if (requirement) add(requirement.name, requirement.version, isDev);
+      }
+    } catch {
+      // No requirements file
+    }
+  }
+
+  requirementCache.set(projectDir, requirements);
+  return requirements;
+}
+
+/**
+ * Looks up the declared version and dev status of a third-party module.
+ * Distribution names are matched against the import name after PEP 503
+ * normalization, so `import yaml` does not match `PyYAML`.
+ */
+export function getPythonRequirement(moduleName: string, fromFile: string, baseDir: string): PythonRequirement | undefined {
+  const key = normalizeDistributionName(moduleName);
+  const projectDir = findPythonProjectDir(fromFile, baseDir);
+  return getPythonRequirements(projectDir).get(key) ?? getPythonRequirements(path.normalize(baseDir)).get(key);
+}
@@ -0,0 +1,122 @@
+import { expandUseTree, extractRustImports, resolveRustImport, clearRustCache } from './rust-imports';
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+describe('expandUseTree', () => {
+  it('should expand nested groups, self and aliases', () => {
+    expect(expandUseTree('crate::a::{b, c::{self, d as e}, *}')).toEqual([
+      ['crate', 'a', 'b'],
+      ['crate', 'a', 'c'],
+      ['crate', 'a', 'c', 'd'],
+      ['crate', 'a', '*']
+    ]);
+    expect(expandUseTree('::serde::Serialize')).toEqual([['serde', 'Serialize']]);
+  });
+});
+
+describe('extractRustImports', () => {
+  it('should read module declarations, use items and extern crates', () => {
+    const source = [
+      'pub mod net;',
+      'pub(crate) mod util;',
+      '#[path = "platform_unix.rs"] mod platform;',
+      'pub use net::Stream;',
+      'use std::io::{self, Read};',
+      'extern crate serde;'
+    ].join('\n');
+    expect(extractRustImports(source)).toEqual([
+      { specifier: 'self::net', kind: 'static' },
+      { specifier: 'self::util', kind: 'static' },
+      { specifier: './platform_unix.rs', kind: 'static' },
+      { specifier: 'net::Stream', kind: 're-export' },
+      { specifier: 'std::io', kind: 'static' },
+      { specifier: 'std::io::Read', kind: 'static' },
+      { specifier: 'serde', kind: 'static' }
+    ]);
+  });
+
+  it('should make paths in inline modules relative to the file', () => {
+    const source = [
+      'mod tests {',
+      '    use super::*;',
+      '    use self::fixtures::load;',
+      '    fn f() { let c = \'{\'; }',
+      '}',
+      'use super::sibling;'
+    ].join('\n');
+    expect(extractRustImports(source)).toEqual([
+      { specifier: 'self::*', kind: 'static' },
+      { specifier: 'self::tests::fixtures::load', kind: 'static' },
+      { specifier: 'super::sibling', kind: 'static' }
+    ]);
+  });
+
+  it('should ignore items in comments and strings', () => {
+    const source = '// use fake::a;\n/* mod b; /* nested */ use c; */\nlet s = "use d::e;";\nlet r = r#"mod f;"#;\n';
+    expect(extractRustImports(source)).toEqual([]);
+  });
+});
+
+describe('resolveRustImport', () => {
+  let root: string;
+
+  const writeFile = (relativePath: string, content: string = '') => {
+    const fullPath = path.join(root, relativePath);
+    fs.mkdirSync(path.dirname(fullPath), { recursive: true });
+    fs.writeFileSync(fullPath, content);
+  };
+
+  const resolve = (specifier: string, from: string) => {
+    const result = resolveRustImport(specifier, path.join(root, from), root);
+    return result.resolvedPath ? path.relative(root, result.resolvedPath).split(path.sep).join('/') : result;
+  };
+
+  beforeAll(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'filescope-rust-'));
+    writeFile('Cargo.toml', '[workspace]\nmembers = ["crates/*"]\n\n[workspace.dependencies]\nserde = { version = "1.0.190" }\n');
+    writeFile('crates/net-core/Cargo.toml', '[package]\nname = "net-core"\n\n[dependencies]\nserde = { workspace = true }\n');
+    writeFile('crates/net-core/src/lib.rs');
+    writeFile('crates/net-core/src/net/mod.rs');
+    writeFile('crates/net-core/src/net/tcp.rs');
+    writeFile('crates/net-core/src/util.rs');
+    writeFile('crates/app/Cargo.toml', '[package]\nname = "app"\n\n[dependencies]\nnet-core = { path = "../net-core" }\nanyhow = "1"\n\n[dev-dependencies]\ntempfile = "3.8"\n');
+    writeFile('crates/app/src/main.rs');
+    writeFile('crates/app/src/lib.rs');
+    writeFile('crates/app/src/cli.rs');
+    writeFile('crates/app/tests/it.rs');
+  });
+
+  afterAll(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  beforeEach(() => {
+    clearRustCache();
+  });
+
+  it('should map module declarations to foo.rs and foo/mod.rs', () => {
+    expect(resolve('self::util', 'crates/net-core/src/lib.rs')).toBe('crates/net-core/src/util.rs');
+    expect(resolve('self::net', 'crates/net-core/src/lib.rs')).toBe('crates/net-core/src/net/mod.rs');
+    expect(resolve('self::tcp', 'crates/net-core/src/net/mod.rs')).toBe('crates/net-core/src/net/tcp.rs');
+  });
+
+  it('should resolve crate, super and self paths to the defining file', () => {
+    expect(resolve('crate::net::tcp::Stream', 'crates/net-core/src/util.rs')).toBe('crates/net-core/src/net/tcp.rs');
+    expect(resolve('crate::Config', 'crates/net-core/src/net/tcp.rs')).toBe('crates/net-core/src/lib.rs');
+    expect(resolve('super::super::util::helper', 'crates/net-core/src/net/tcp.rs')).toBe('crates/net-core/src/util.rs');
+    expect(resolve('net::tcp', 'crates/net-core/src/lib.rs')).toBe('crates/net-core/src/net/tcp.rs');
+  });
+
+  it('should resolve workspace member crates and the package library', () => {
+    expect(resolve('net_core::net::tcp::Stream', 'crates/app/src/main.rs')).toBe('crates/net-core/src/net/tcp.rs');
+    expect(resolve('app::cli', 'crates/app/tests/it.rs')).toBe('crates/app/src/cli.rs');
+  });
+
+  it('should report external crates with versions from Cargo.toml', () => {
+    expect(resolve('serde::Serialize', 'crates/net-core/src/lib.rs')).toEqual({ crate: 'serde', isStdlib: false, version: '1.0.190', isDevDependency: false });
+    expect(resolve('tempfile::tempdir', 'crates/app/tests/it.rs')).toEqual({ crate: 'tempfile', isStdlib: false, version: '3.8', isDevDependency: true });
+    expect(resolve('std::io', 'crates/app/src/main.rs')).toEqual({ crate: 'std', isStdlib: true });
+  });
+});
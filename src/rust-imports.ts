@@ -0,0 +1,554 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { ExtractedImport } from './import-extractor.js';
+import { TomlTable, asTomlTable, getTomlValue, parseToml } from './toml-utils.js';
+import { expandWorkspacePattern } from './workspace-utils.js';
+import { log } from './logger.js';
+
+// Crates that ship with the Rust toolchain
+const RUST_STDLIB_CRATES = new Set(['std', 'core', 'alloc', 'proc_macro', 'test']);
+
+// Directories whose top-level files are each their own crate root
+const MULTI_CRATE_DIRS = ['tests', 'examples', 'benches'];
+
+/**
+ * A Cargo package: its manifest, crate name and declared dependencies
+ */
+interface CargoPackage {
+  dir: string;                   // Directory containing Cargo.toml
+  name: string;                  // Package name as written in Cargo.toml
+  crateName: string;             // Name used in paths (hyphens become underscores)
+  libRoot?: string;              // The library crate root, if the package has one
+  binRoots: string[];            // Declared and conventional binary crate roots
+  dependencies: Map<string, CargoDependency>; // Keyed by the name used in paths
+}
+
+interface CargoDependency {
+  packageName: string; // The crate as published (differs from the key when renamed)
+  version?: string;
+  isDev: boolean;
+}
+
+/**
+ * A Rust path resolved to a local file, or classified as an external crate
+ */
+export interface RustResolution {
+  resolvedPath?: string;         // The file defining the module the path points into
+  crate?: string;                // External crate name for unresolved paths
+  isStdlib: boolean;             // Whether the crate ships with the toolchain
+  version?: string;              // Version requirement from Cargo.toml
+  isDevDependency?: boolean;     // Declared under [dev-dependencies]
+}
+
+// Module context of a file: where its crate root is and which module it defines
+interface ModuleContext {
+  rootDir: string;          // Directory the crate's module tree starts from
+  crateRoot: string | null; // The crate root file (lib.rs, main.rs, ...)
+  modulePath: string[];     // Module path of the file within its crate
+}
+
+// Cargo packages keyed by manifest directory, and workspace members keyed by workspace root
+const packageCache = new Map<string, CargoPackage | null>();
+const workspaceMemberCache = new Map<string, CargoPackage[]>();
+
+/**
+ * Clears cached Cargo.toml lookups. Called at the start of every full scan.
+ */
+export function clearRustCache(): void {
+  packageCache.clear();
+  workspaceMemberCache.clear();
+}
+
+// Blank out comments and string literals, keeping offsets and line breaks.
+// `#[path = "..."]` strings are kept since they name module files.
+function maskCommentsAndStrings(content: string): string {
+  let result = '';
+  let i = 0;
+
+  const blank = (text: string) => text.replace(/[^\n]/g, ' ');
+
+  while (i < content.length) {
+    const rest = content.slice(i, i + 3);
+
+    if (rest.startsWith('//')) {
+      const end = content.indexOf('\n', i);
+      const stop = end === -1 ? content.length : end;
+      result += blank(content.slice(i, stop));
+      i = stop;
+    } else if (rest.startsWith('/*')) {
+      // Block comments nest in Rust
+      let depth = 0;
+      let j = i;
+      while (j < content.length) {
+        if (content.startsWith('/*', j)) { depth++; j += 2; }
+        else if (content.startsWith('*/', j)) { depth--; j += 2; if (depth === 0) break; }
+        else j++;
+      }
+      result += blank(content.slice(i, j));
+      i = j;
+    } else if (/^(b?r#*")/.test(content.slice(i, i + 260)) && !/[\w]$/.test(result)) {
+      // Raw strings: r"...", r#"..."#, br##"..."##
+      const opener = content.slice(i).match(/^b?r(#*)"/)!;
+      const closer = '"' + opener[1];
+      const end = content.indexOf(closer, i + opener[0].length);
+      const stop = end === -1 ? content.length : end + closer.length;
+      result += blank(content.slice(i, stop));
+      i = stop;
+    } else if (content[i] === '"') {
+      let j = i + 1;
+      while (j < content.length && content[j] !== '"') {
+        if (content[j] === '\\') j++;
+        j++;
+      }
+      const literal = content.slice(i, j + 1);
+      result += /#\s*\[\s*path\s*=\s*$/.test(result) ? literal : '"' + blank(literal.slice(1, -1)) + '"';
+      i = j + 1;
+    } else if (content[i] === "'") {
+      // Char literals ('a', '\n', '\u{1F600}'); lifetimes ('a) are left alone
+      const charLiteral = content.slice(i).match(/^'(\\(u\{[0-9a-fA-F]+\}|x[0-9a-fA-F]{2}|.)|[^\\'\n])'/);
+      if (charLiteral) {
+        result += blank(charLiteral[0]);
+        i += charLiteral[0].length;
+      } else {
+        result += content[i++];
+      }
+    } else {
+      result += content[i++];
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Expands a `use` tree such as `crate::a::{b, c::{self, d as e}, *}` into
+ * individual paths. `self` inside braces refers to the enclosing path, aliases
+ * are dropped and a leading `::` (2015 edition extern paths) is ignored.
+ */
+export function expandUseTree(tree: string): string[][] {
+  const tokens = tree.match(/::|[{},*]|\w+/g) ?? [];
+  let pos = 0;
+
+  const parseTree = (prefix: string[]): string[][] => {
+    const segments = [...prefix];
+    while (pos < tokens.length) {
+      const token = tokens[pos];
+      if (token === '{') {
+        pos++;
+        const results: string[][] = [];
+        while (pos < tokens.length && tokens[pos] !== '}') {
+          results.push(...parseTree(segments));
+          if (tokens[pos] === ',') pos++;
+        }
+        pos++;
+        return results;
+      }
+      if (token === '::') {
+        pos++;
+        continue;
+      }
+      if (token === ',' || token === '}') {
+        break;
+      }
+
+      pos++;
+      if (token !== 'self' || segments.length === 0) {
+        segments.push(token);
+      }
+      // `x as y` imports x under another name
+      if (tokens[pos] === 'as') {
+        pos += 2;
+      }
+    }
+    return [segments];
+  };
+
+  return parseTree([]).filter(segments => segments.length > 0);
+}
+
+/**
+ * Extracts module declarations, `use` items and `extern crate` items from
+ * Rust source. Paths are normalized relative to the file's own module:
+ * `mod foo;` becomes `self::foo` (or `./file.rs` with a `#[path]` attribute),
+ * `self::`/`super::` paths inside inline modules are rewritten to be relative
+ * to the file, and `pub use` items are re-exports.
+ */
+export function extractRustImports(content: string): ExtractedImport[] {
+  const masked = maskCommentsAndStrings(content);
+  const imports: ExtractedImport[] = [];
+  const seen = new Set<string>();
+
+  const add = (specifier: string, kind: ExtractedImport['kind']) => {
+    const key = `${kind}:${specifier}`;
+    if (!seen.has(key)) {
+      seen.add(key);
+      imports.push({ specifier, kind });
+    }
+  };
+
+  // Inline `mod name { ... }` blocks we are inside, with the brace depth they opened at
+  const inlineModules: { name: string; depth: number }[] = [];
+  let depth = 0;
+
+  const visibility = String.raw`(?:pub(?:\s*\([^)]*\))?\s+)?`;
+  const tokenPattern = new RegExp(
+    String.raw`(#\s*\[\s*path\s*=\s*"([^"]+)"\s*\]\s*)?\b${visibility}mod\s+(\w+)\s*([;{])` +
+    String.raw`|\b(pub(?:\s*\([^)]*\))?\s+)?use\s+([^;]+);` +
+    String.raw`|\bextern\s+crate\s+(\w+)[^;]*;` +
+    String.raw`|([{}])`,
+    'g'
+  );
+
+  // Rewrite a path relative to the current inline module into one relative to the file
+  const relativeToFile = (segments: string[]): string[] => {
+    const inline = inlineModules.map(module => module.name);
+    if (segments[0] === 'self') {
+      return ['self', ...inline, ...segments.slice(1)];
+    }
+    if (segments[0] === 'super') {
+      let supers = 0;
+      while (segments[supers] === 'super') supers++;
+      const remainingInline = inline.slice(0, Math.max(0, inline.length - supers));
+      const fileSupers = Math.max(0, supers - inline.length);
+      const prefix = fileSupers > 0 ? Array(fileSupers).fill('super') : ['self'];
+      return [...prefix, ...remainingInline, ...segments.slice(supers)];
+    }
+    return segments;
+  };
+
+  let match;
+  while ((match = tokenPattern.exec(masked)) !== null) {
+    const [, , pathAttribute, modName, modTerminator, pubUse, useTree, externCrate, brace] = match;
+
+    if (brace === '{') {
+      depth++;
+    } else if (brace === '}') {
+      depth--;
+      while (inlineModules.length > 0 && inlineModules[inlineModules.length - 1].depth > depth) {
+        inlineModules.pop();
+      }
+    } else if (modName) {
+      if (modTerminator === ';') {
+        if (pathAttribute) {
+          add(pathAttribute.startsWith('.') ? pathAttribute : './' + pathAttribute, 'static');
+        } else {
+          add(relativeToFile(['self', modName]).join('::'), 'static');
+        }
+      } else {
+        depth++;
+        inlineModules.push({ name: modName, depth });
+      }
+    } else if (useTree) {
+      const kind = pubUse ? 're-export' : 'static';
+      for (const segments of expandUseTree(useTree)) {
+        const relative = relativeToFile(segments);
+        add(relative.join('::'), kind);
+      }
+    } else if (externCrate && externCrate !== 'self') {
+      add(externCrate, 'static');
+    }
+  }
+
+  return imports;
+}
+
+function readCargoToml(dir: string): TomlTable | null {
+  const manifestPath = path.join(dir, 'Cargo.toml');
+  try {
+    return parseToml(fs.readFileSync(manifestPath, 'utf-8'));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+      log(`[rust] Failed to read ${manifestPath}: ${error}`);
+    }
+    return null;
+  }
+}
+
+// Find the workspace root above a package, if any
+function findWorkspaceRoot(packageDir: string, baseDir: string): string | null {
+  let dir = packageDir;
+  const root = path.normalize(baseDir);
+  while (dir.startsWith(root)) {
+    if (readCargoToml(dir)?.workspace) {
+      return dir;
+    }
+    const parent = path.dirname(dir);
+    if (parent === dir) break;
+    dir = parent;
+  }
+  return null;
+}
+
+// Collect the dependency tables of a manifest, including target-specific ones
+function collectDependencies(manifest: TomlTable, workspaceManifest: TomlTable | null): Map<string, CargoDependency> {
+  const dependencies = new Map<string, CargoDependency>();
+  const workspaceDeps = asTomlTable(getTomlValue(workspaceManifest, 'workspace', 'dependencies')) ?? {};
+
+  const tables: [unknown, boolean][] = [
+    [manifest.dependencies, false],
+    [manifest['build-dependencies'], false],
+    [manifest['dev-dependencies'], true]
+  ];
+  for (const target of Object.values(asTomlTable(manifest.target) ?? {})) {
+    tables.push(
+      [getTomlValue(target, 'dependencies'), false],
+      [getTomlValue(target, 'build-dependencies'), false],
+      [getTomlValue(target, 'dev-dependencies'), true]
+    );
+  }
+
+  for (const [table, isDev] of tables) {
+    for (const [key, rawSpec] of Object.entries(asTomlTable(table) ?? {})) {
+      // A spec is a version string or a table such as `{ version = "1", package = "real-name" }`
+      let spec = typeof rawSpec === 'string' ? { version: rawSpec } : asTomlTable(rawSpec) ?? {};
+      if (spec.workspace === true) {
+        // `foo = { workspace = true }` inherits from [workspace.dependencies]
+        const inherited = workspaceDeps[key];
+        spec = { ...(typeof inherited === 'string' ? { version: inherited } : asTomlTable(inherited) ?? {}), ...spec };
+      }
+
+      const packageName = typeof spec.package === 'string' ? spec.package : key;
+      const version = typeof spec.version === 'string' ? spec.version : undefined;
+      const crateKey = key.replace(/-/g, '_');
+      const existing = dependencies.get(crateKey);
+      if (!existing || (existing.isDev && !isDev)) {
+        dependencies.set(crateKey, { packageName, version, isDev });
+      }
+    }
+  }
+
+  return dependencies;
+}
+
+// Load a Cargo package from its manifest directory
+function loadCargoPackage(dir: string, baseDir: string): CargoPackage | null {
+  if (packageCache.has(dir)) {
+    return packageCache.get(dir)!;
+  }
+  packageCache.set(dir, null);
+
+  const manifest = readCargoToml(dir);
+  const packageName = getTomlValue(manifest, 'package', 'name');
+  if (!manifest || typeof packageName !== 'string') {
+    return null;
+  }
+
+  const workspaceRoot = findWorkspaceRoot(dir, baseDir);
+  const workspaceManifest = workspaceRoot ? readCargoToml(workspaceRoot) : null;
+
+  const libPathSetting = getTomlValue(manifest, 'lib', 'path');
+  const libName = getTomlValue(manifest, 'lib', 'name');
+  const libPath = typeof libPathSetting === 'string' ? path.resolve(dir, libPathSetting) : path.join(dir, 'src', 'lib.rs');
+  const binRoots: string[] = [];
+  for (const bin of Array.isArray(manifest.bin) ? manifest.bin : []) {
+    const binPath = getTomlValue(bin, 'path');
+    if (typeof binPath === 'string') binRoots.push(path.resolve(dir, binPath));
+  }
+  binRoots.push(path.join(dir, 'src', 'main.rs'), path.join(dir, 'build.rs'));
+
+  const pkg: CargoPackage = {
+    dir,
+    name: packageName,
+    crateName: (typeof libName === 'string' ? libName : packageName).replace(/-/g, '_'),
+    libRoot: fs.existsSync(libPath) ? libPath : undefined,
+    binRoots: binRoots.filter(binRoot => fs.existsSync(binRoot)),
+    dependencies: collectDependencies(manifest, workspaceManifest)
+  };
+
+  packageCache.set(dir, pkg);
+  return pkg;
+}
+
+/**
+ * Returns the member packages of a Cargo workspace, expanding `members` globs
+ * and honoring `exclude`
+ */
+function getWorkspaceMembers(workspaceRoot: string, baseDir: string): CargoPackage[] {
+  if (workspaceMemberCache.has(workspaceRoot)) {
+    return workspaceMemberCache.get(workspaceRoot)!;
+  }
+  workspaceMemberCache.set(workspaceRoot, []);
+
+  const workspace = readCargoToml(workspaceRoot)?.workspace;
+  const patterns = (key: string) => {
+    const value = getTomlValue(workspace, key);
+    return Array.isArray(value) ? value.filter((pattern): pattern is string => typeof pattern === 'string') : [];
+  };
+
+  const excluded = new Set<string>();
+  for (const pattern of patterns('exclude')) {
+    expandWorkspacePattern(workspaceRoot, pattern).forEach(dir => excluded.add(dir));
+  }
+
+  const members: CargoPackage[] = [];
+  const dirs = new Set<string>([workspaceRoot]);
+  for (const pattern of patterns('members')) {
+    expandWorkspacePattern(workspaceRoot, pattern).forEach(dir => dirs.add(dir));
+  }
+
+  for (const dir of dirs) {
+    if (excluded.has(dir)) continue;
+    const member = loadCargoPackage(dir, baseDir);
+    if (member) members.push(member);
+  }
+
+  workspaceMemberCache.set(workspaceRoot, members);
+  return members;
+}
+
+// Find the Cargo package a file belongs to
+function findCargoPackage(filePath: string, baseDir: string): CargoPackage | null {
+  const root = path.normalize(baseDir);
+  let dir = path.dirname(filePath);
+  while (dir.startsWith(root)) {
+    if (fs.existsSync(path.join(dir, 'Cargo.toml'))) {
+      const pkg = loadCargoPackage(dir, baseDir);
+      if (pkg) return pkg;
+    }
+    const parent = path.dirname(dir);
+    if (parent === dir) break;
+    dir = parent;
+  }
+  return null;
+}
+
+// Whether a file is itself a crate root within its package
+function isCrateRoot(filePath: string, pkg: CargoPackage | null): boolean {
+  if (pkg && (filePath === pkg.libRoot || pkg.binRoots.includes(filePath))) {
+    return true;
+  }
+
+  const parent = path.basename(path.dirname(filePath));
+  const grandparent = path.basename(path.dirname(path.dirname(filePath)));
+  const packageDir = pkg?.dir;
+
+  // src/bin/tool.rs, tests/it.rs, examples/demo.rs, benches/bench.rs
+  if ((MULTI_CRATE_DIRS.includes(parent) && (!packageDir || path.dirname(path.dirname(filePath)) === packageDir)) ||
+      (parent === 'bin' && grandparent === 'src')) {
+    return true;
+  }
+
+  // src/bin/tool/main.rs, examples/demo/main.rs
+  return path.basename(filePath) === 'main.rs' &&
+    (MULTI_CRATE_DIRS.includes(grandparent) || grandparent === 'bin');
+}
+
+/**
+ * Works out which crate and module a file belongs to
+ */
+function getModuleContext(filePath: string, pkg: CargoPackage | null): ModuleContext {
+  if (isCrateRoot(filePath, pkg)) {
+    return { rootDir: path.dirname(filePath), crateRoot: filePath, modulePath: [] };
+  }
+
+  // Walk up to the directory holding the crate root
+  const stopDir = pkg?.dir ?? path.parse(filePath).root;
+  let dir = path.dirname(filePath);
+  while (true) {
+    const rootFile = [pkg?.libRoot, ...(pkg?.binRoots ?? []), path.join(dir, 'lib.rs'), path.join(dir, 'main.rs')]
+      .find(candidate => candidate && path.dirname(candidate) === dir && fs.existsSync(candidate));
+    const isMultiCrateDir = MULTI_CRATE_DIRS.includes(path.basename(dir)) || (path.basename(dir) === 'bin' && path.basename(path.dirname(dir)) === 'src');
+
+    if (rootFile || isMultiCrateDir || dir === stopDir || path.dirname(dir) === dir) {
+      const relative = path.relative(dir, filePath).replace(/\.rs$/, '').split(path.sep);
+      if (relative[relative.length - 1] === 'mod') relative.pop();
+      // A file next to a test/example crate root belongs to a module of that crate, but we cannot tell which
+      return { rootDir: dir, crateRoot: rootFile ?? null, modulePath: relative };
+    }
+    dir = path.dirname(dir);
+  }
+}
+
+// Find the file defining a module path under a crate's root directory
+function findModuleFile(context: ModuleContext, modulePath: string[]): string | null {
+  if (modulePath.length === 0) {
+    return context.crateRoot;
+  }
+
+  const base = path.join(context.rootDir, ...modulePath);
+  for (const candidate of [base + '.rs', path.join(base, 'mod.rs')]) {
+    if (fs.existsSync(candidate) && fs.statSync(candidate).isFile()) {
+      return path.normalize(candidate);
+    }
+  }
+  return null;
+}
+
+// Resolve a path inside a crate to the file of the deepest existing module
+function resolveInCrate(context: ModuleContext, segments: string[]): string | null {
+  const modulePath = segments.filter(segment => segment !== '*');
+  for (let length = modulePath.length; length >= 0; length--) {
+    const file = findModuleFile(context, modulePath.slice(0, length));
+    if (file) {
+      return file;
+    }
+  }
+  return null;
+}
+
+/**
+ * Resolves a path from extractRustImports to the file that defines it.
+ * `crate::`, `self::` and `super::` paths are resolved inside the file's crate;
+ * other paths resolve to the crate's own library, workspace member crates, or
+ * are reported as external crates with their Cargo.toml version.
+ * @param specifier The normalized path, e.g. `crate::net::tcp::Stream`
+ * @param fromFile The absolute path of the file containing the path
+ * @param baseDir The project root directory
+ */
+export function resolveRustImport(specifier: string, fromFile: string, baseDir: string): RustResolution {
+  // #[path = "..."] module files are relative to the declaring file
+  if (specifier.startsWith('./') || specifier.startsWith('../')) {
+    const candidate = path.resolve(path.dirname(fromFile), specifier);
+    return { resolvedPath: fs.existsSync(candidate) ? path.normalize(candidate) : undefined, isStdlib: false };
+  }
+
+  const pkg = findCargoPackage(fromFile, baseDir);
+  const context = getModuleContext(path.normalize(fromFile), pkg);
+  const segments = specifier.split('::');
+
+  if (segments[0] === 'crate') {
+    return { resolvedPath: resolveInCrate(context, segments.slice(1)) ?? undefined, isStdlib: false };
+  }
+
+  if (segments[0] === 'self' || segments[0] === 'super') {
+    let supers = 0;
+    while (segments[supers] === 'super') supers++;
+    const base = context.modulePath.slice(0, Math.max(0, context.modulePath.length - supers));
+    const rest = segments.slice(segments[0] === 'self' ? 1 : supers);
+    return { resolvedPath: resolveInCrate(context, [...base, ...rest]) ?? undefined, isStdlib: false };
+  }
+
+  // Uniform paths: a child module declared by this file takes precedence over a crate
+  const childModule = findModuleFile(context, [...context.modulePath, segments[0]]);
+  if (childModule && childModule !== path.normalize(fromFile)) {
+    return { resolvedPath: resolveInCrate(context, [...context.modulePath, ...segments]) ?? undefined, isStdlib: false };
+  }
+
+  const crateName = segments[0];
+  if (RUST_STDLIB_CRATES.has(crateName)) {
+    return { crate: crateName, isStdlib: true };
+  }
+
+  // Binaries, tests and examples importing their own package's library
+  if (pkg && crateName === pkg.crateName && pkg.libRoot && context.crateRoot !== pkg.libRoot) {
+    const libContext: ModuleContext = { rootDir: path.dirname(pkg.libRoot), crateRoot: pkg.libRoot, modulePath: [] };
+    return { resolvedPath: resolveInCrate(libContext, segments.slice(1)) ?? undefined, isStdlib: false };
+  }
+
+  // Workspace member crates
+  const dependency = pkg?.dependencies.get(crateName);
+  const workspaceRoot = pkg ? findWorkspaceRoot(pkg.dir, baseDir) : null;
+  const members = workspaceRoot ? getWorkspaceMembers(workspaceRoot, baseDir) : [];
+  const member = members.find(candidate => dependency ? candidate.name === dependency.packageName : candidate.crateName === crateName);
+  if (member?.libRoot) {
+    const libContext: ModuleContext = { rootDir: path.dirname(member.libRoot), crateRoot: member.libRoot, modulePath: [] };
+    return { resolvedPath: resolveInCrate(libContext, segments.slice(1)) ?? undefined, isStdlib: false };
+  }
+
+  return {
+    crate: dependency?.packageName ?? crateName,
+    isStdlib: false,
+    version: dependency?.version,
+    isDevDependency: dependency?.isDev
+  };
+}
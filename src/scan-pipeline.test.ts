@@ -0,0 +1,169 @@
+import { createImportParser, createLimiter, createMainThreadParser } from './scan-pipeline';
+import { getAnalyzerForFile, loadLanguageAnalyzers } from './language-analyzers';
+import { describe, it, expect, beforeAll, afterAll, vi } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import ts from 'typescript';
+import type { Worker } from 'worker_threads';
+
+// Every worker the parser starts, to check that closing it terminates them
+const startedWorkers = vi.hoisted(() => [] as Worker[]);
+
+vi.mock('worker_threads', async importOriginal => {
+  const actual = await importOriginal<typeof import('worker_threads')>();
+  class TrackedWorker extends actual.Worker {
+    constructor(...args: ConstructorParameters<typeof actual.Worker>) {
+      super(...args);
+      startedWorkers.push(this);
+    }
+  }
+  return { ...actual, Worker: TrackedWorker };
+});
+
+describe('createLimiter', () => {
+  it('should run at most the given number of tasks at once, in order', async () => {
+    const limit = createLimiter(2);
+    let running = 0;
+    let maxRunning = 0;
+    const started: number[] = [];
+
+    const results = await Promise.all([1, 2, 3, 4, 5].map(n => limit(async () => {
+      started.push(n);
+      running++;
+      maxRunning = Math.max(maxRunning, running);
+      await new Promise(resolve => setTimeout(resolve, 5));
+      running--;
+      return n * 10;
+    })));
+
+    expect(results).toEqual([10, 20, 30, 40, 50]);
+    expect(started).toEqual([1, 2, 3, 4, 5]);
+    expect(maxRunning).toBe(2);
+  });
+
+  it('should keep going after a task fails', async () => {
+    const limit = createLimiter(1);
+    const failed = limit(() => Promise.reject(new Error('boom')));
+    const next = limit(async () => 'next');
+    await expect(failed).rejects.toThrow('boom');
+    await expect(next).resolves.toBe('next');
+  });
+});
+
+describe('createImportParser', () => {
+  let root: string;
+
+  beforeAll(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'filescope-scan-'));
+    fs.writeFileSync(path.join(root, 'index.ts'), 'import { a } from "./a";\n');
+  });
+
+  afterAll(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  it('should parse on the main thread when no worker script is available and count bytes read', async () => {
+    const parser = createImportParser(2, [], root);
+    const filePath = path.join(root, 'index.ts');
+    const parsed = await parser.parse(filePath, getAnalyzerForFile(filePath)!);
+    await parser.close();
+
+    expect(parser.workerThreads).toBe(0);
+    expect(parsed.imports).toEqual([{ specifier: './a', kind: 'static', symbols: ['a'] }]);
+    expect(parser.bytesRead).toBe(fs.statSync(filePath).size);
+  });
+});
+
+describe('createImportParser with worker threads', () => {
+  let root: string;
+  let compiledDir: string;
+  let workerScript: string;
+
+  // Fails inside workers only, so the main thread retry can be observed
+  const pluginSource = `
+import { isMainThread } from 'worker_threads';
+
+const analyzer = (name, extension, failInWorker) => ({
+  name,
+  extensions: [extension],
+  extractImports(content) {
+    if (!isMainThread) failInWorker();
+    return content.split('\\n').filter(Boolean).map(specifier => ({ specifier, kind: 'static' }));
+  },
+  resolveImport: () => ({})
+});
+
+export default [
+  analyzer('throws-in-worker', '.throws', () => { throw new Error('worker only failure'); }),
+  analyzer('exits-in-worker', '.exits', () => process.exit(3))
+];
+`;
+
+  beforeAll(async () => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'filescope-workers-'));
+    fs.writeFileSync(path.join(root, 'index.ts'), 'import { a } from "./a";\nimport type { B } from "./b";\nexport * from "./c";\n');
+    fs.writeFileSync(path.join(root, 'app.py'), 'import os\nfrom .models import User\n');
+    fs.writeFileSync(path.join(root, 'style.css'), '@import "./base.css";\n');
+    fs.writeFileSync(path.join(root, 'data.throws'), './x\n./y\n');
+    fs.writeFileSync(path.join(root, 'data.exits'), './z\n');
+    fs.writeFileSync(path.join(root, 'plugin.mjs'), pluginSource);
+    await loadLanguageAnalyzers(['plugin.mjs'], root);
+
+    // Compile the sources the way the build does, inside the repository so workers resolve its dependencies
+    compiledDir = path.join(__dirname, '..', 'node_modules', '.cache', `filescope-scan-worker-${process.pid}`);
+    fs.mkdirSync(compiledDir, { recursive: true });
+    fs.writeFileSync(path.join(compiledDir, 'package.json'), '{ "type": "module" }');
+    for (const fileName of fs.readdirSync(__dirname).filter(name => name.endsWith('.ts') && !name.endsWith('.test.ts'))) {
+      const { outputText } = ts.transpileModule(fs.readFileSync(path.join(__dirname, fileName), 'utf-8'), {
+        compilerOptions: { module: ts.ModuleKind.ESNext, target: ts.ScriptTarget.ES2020, esModuleInterop: true }
+      });
+      fs.writeFileSync(path.join(compiledDir, fileName.replace(/\.ts$/, '.js')), outputText);
+    }
+    workerScript = path.join(compiledDir, 'scan-worker.js');
+  }, 60_000);
+
+  afterAll(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+    fs.rmSync(compiledDir, { recursive: true, force: true });
+  });
+
+  const parseAll = async (parser: ReturnType<typeof createImportParser>, fileNames: string[]) => {
+    const results = await Promise.all(fileNames.map(fileName => {
+      const filePath = path.join(root, fileName);
+      return parser.parse(filePath, getAnalyzerForFile(filePath)!);
+    }));
+    await parser.close();
+    return results;
+  };
+
+  it('should parse in workers with the same results as the main thread and terminate them on close', async () => {
+    const fileNames = ['index.ts', 'app.py', 'style.css', 'index.ts'];
+    const expected = await parseAll(createMainThreadParser(), fileNames);
+
+    startedWorkers.length = 0;
+    const parser = createImportParser(2, ['plugin.mjs'], root, workerScript);
+    expect(parser.workerThreads).toBe(2);
+    expect(await parseAll(parser, fileNames)).toEqual(expected);
+    expect(parser.bytesRead).toBe(expected.reduce((total, parsed) => total + parsed.size, 0));
+
+    expect(startedWorkers).toHaveLength(2);
+    expect(startedWorkers.map(worker => worker.threadId)).toEqual([-1, -1]);
+  });
+
+  it('should retry on the main thread when a worker fails or exits', async () => {
+    const fileNames = ['data.throws', 'data.exits', 'index.ts'];
+    const expected = await parseAll(createMainThreadParser(), fileNames);
+
+    startedWorkers.length = 0;
+    const parser = createImportParser(1, ['plugin.mjs'], root, workerScript);
+    const first = await parser.parse(path.join(root, 'data.throws'), getAnalyzerForFile('data.throws')!);
+    const second = await parser.parse(path.join(root, 'data.exits'), getAnalyzerForFile('data.exits')!);
+    // The only worker is gone, so later files parse on the main thread
+    const third = await parser.parse(path.join(root, 'index.ts'), getAnalyzerForFile('index.ts')!);
+    await parser.close();
+
+    expect([first, second, third]).toEqual(expected);
+    expect(startedWorkers.map(worker => worker.threadId)).toEqual([-1]);
+  });
+});
@@ -0,0 +1,202 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as fsPromises from 'fs/promises';
+import { fileURLToPath } from 'url';
+import { Worker } from 'worker_threads';
+import { log } from './logger.js';
+import { ExtractedImport } from './import-extractor.js';
+import { LanguageAnalyzer } from './language-analyzers.js';
+
+// Files read and analyzed at once when config.json does not say otherwise
+export const DEFAULT_SCAN_CONCURRENCY = 32;
+
+/**
+ * Throughput of the last full scan
+ */
+export interface ScanStats {
+  files: number;           // Files analyzed
+  directories: number;     // Directories read
+  excluded: number;        // Entries skipped by exclude patterns
+  symlinks: number;        // Symbolic links met, whatever the symlink policy did with them
+  bytesRead: number;       // Source bytes read while extracting imports
+  durationMs: number;      // Wall-clock time of the scan
+  filesPerSecond: number;  // files / duration
+  concurrency: number;     // Maximum concurrent reads and resolutions
+  workerThreads: number;   // Worker threads that parsed imports (0 = main thread only)
+  reanalyzed: number;      // Files whose imports were extracted and resolved
+  reused: number;          // Files whose stored edges were kept because they did not change
+  reanalyzedFiles?: string[]; // Paths of the re-analyzed files, for rebuilds from a previous tree
+}
+
+/**
+ * Imports extracted from one file
+ */
+export interface ParsedFile {
+  imports: ExtractedImport[];
+  size: number; // Bytes read
+  hash: string; // Content hash, see hashContent
+}
+
+/**
+ * Reads files and extracts their imports, on the main thread or in workers
+ */
+export interface ImportParser {
+  workerThreads: number; // Workers in use; 0 when parsing on the main thread
+  bytesRead: number;     // Bytes read so far
+  parse(filePath: string, analyzer: LanguageAnalyzer): Promise<ParsedFile>;
+  close(): Promise<void>;
+}
+
+/**
+ * Hashes file content to detect changes between scans
+ */
+export function hashContent(content: string): string {
+  return crypto.createHash('sha1').update(content).digest('hex');
+}
+
+/**
+ * Creates a limiter that runs at most `concurrency` tasks at once, in the
+ * order they were queued. Tasks must not wait for other tasks of the same
+ * limiter, or they may wait forever.
+ */
+export function createLimiter(concurrency: number): <T>(task: () => Promise<T>) => Promise<T> {
+  let running = 0;
+  const queue: (() => void)[] = [];
+
+  const next = () => {
+    running--;
+    queue.shift()?.();
+  };
+
+  return <T>(task: () => Promise<T>) => new Promise<T>((resolve, reject) => {
+    const run = () => {
+      running++;
+      task().then(resolve, reject).finally(next);
+    };
+    if (running < concurrency) {
+      run();
+    } else {
+      queue.push(run);
+    }
+  });
+}
+
+// Read a file and extract its imports on the main thread, keeping indexes such as the namespace index current
+async function parseOnMainThread(filePath: string, analyzer: LanguageAnalyzer): Promise<ParsedFile> {
+  const content = await fsPromises.readFile(filePath, 'utf-8');
+  const imports = analyzer.extractImports(content, filePath);
+  analyzer.indexFile?.(filePath, content);
+  return { imports, size: Buffer.byteLength(content), hash: hashContent(content) };
+}
+
+/**
+ * Creates a parser that extracts imports on the main thread
+ */
+export function createMainThreadParser(): ImportParser {
+  const parser: ImportParser = {
+    workerThreads: 0,
+    bytesRead: 0,
+    async parse(filePath, analyzer) {
+      const parsed = await parseOnMainThread(filePath, analyzer);
+      parser.bytesRead += parsed.size;
+      return parsed;
+    },
+    async close() {}
+  };
+  return parser;
+}
+
+// A request sent to a worker and its pending result
+interface PendingParse {
+  worker: Worker;
+  resolve: (parsed: ParsedFile) => void;
+  reject: (error: Error) => void;
+}
+
+/**
+ * Creates a parser that extracts imports in a pool of worker threads, or on
+ * the main thread when `size` is 0.
+ * Analyzers that index file content (Java and C#) still parse on the main
+ * thread, and a file whose worker fails is parsed again on the main thread.
+ * Falls back to the main thread entirely when the compiled worker script is
+ * missing, as it is when running from TypeScript sources.
+ * @param size Number of worker threads
+ * @param analyzerModules Module paths from `languageAnalyzers` in config.json, loaded in every worker
+ * @param baseDir The project root directory
+ * @param workerScript The compiled worker script (default: scan-worker.js next to this module)
+ */
+export function createImportParser(size: number, analyzerModules: string[], baseDir: string,
+  workerScript: string = fileURLToPath(new URL('./scan-worker.js', import.meta.url))): ImportParser {
+  if (size <= 0 || !fs.existsSync(workerScript)) {
+    if (size > 0) {
+      log(`[scan] Worker script ${workerScript} not found, parsing on the main thread`);
+    }
+    return createMainThreadParser();
+  }
+
+  const pending = new Map<number, PendingParse>();
+  const workers: Worker[] = [];
+  let nextId = 0;
+
+  // A worker that exits fails its pending requests, which are then parsed on the main thread
+  const dropWorker = (worker: Worker, reason: string) => {
+    const index = workers.indexOf(worker);
+    if (index === -1) return;
+    workers.splice(index, 1);
+    pending.forEach((request, id) => {
+      if (request.worker === worker) {
+        pending.delete(id);
+        request.reject(new Error(reason));
+      }
+    });
+  };
+
+  for (let i = 0; i < size; i++) {
+    const worker = new Worker(workerScript, { workerData: { analyzerModules, baseDir } });
+    worker.on('message', (message: { id: number; imports?: ExtractedImport[]; size?: number; hash?: string; error?: string }) => {
+      const request = pending.get(message.id);
+      if (!request) return;
+      pending.delete(message.id);
+      if (message.error !== undefined) {
+        request.reject(new Error(message.error));
+      } else {
+        request.resolve({ imports: message.imports ?? [], size: message.size ?? 0, hash: message.hash ?? '' });
+      }
+    });
+    worker.on('error', error => {
+      log(`[scan] Worker thread failed: ${error}`);
+      dropWorker(worker, String(error));
+    });
+    worker.on('exit', code => dropWorker(worker, `Worker exited with code ${code}`));
+    workers.push(worker);
+  }
+
+  const parser: ImportParser = {
+    workerThreads: size,
+    bytesRead: 0,
+    async parse(filePath, analyzer) {
+      let parsed: ParsedFile;
+      if (analyzer.indexFile || workers.length === 0) {
+        parsed = await parseOnMainThread(filePath, analyzer);
+      } else {
+        const id = nextId++;
+        try {
+          parsed = await new Promise<ParsedFile>((resolve, reject) => {
+            const worker = workers[id % workers.length];
+            pending.set(id, { worker, resolve, reject });
+            worker.postMessage({ id, filePath });
+          });
+        } catch (error) {
+          log(`[scan] Worker could not parse ${filePath}, retrying on the main thread: ${error}`);
+          parsed = await parseOnMainThread(filePath, analyzer);
+        }
+      }
+      parser.bytesRead += parsed.size;
+      return parsed;
+    },
+    async close() {
+      await Promise.all([...workers].map(worker => worker.terminate()));
+    }
+  };
+  return parser;
+}
@@ -0,0 +1,20 @@
+import * as fsPromises from 'fs/promises';
+import { parentPort, workerData } from 'worker_threads';
+import { getAnalyzerForFile, loadLanguageAnalyzers } from './language-analyzers.js';
+import { hashContent } from './scan-pipeline.js';
+
+// Worker thread of the scan pipeline: reads a file and extracts its imports with its language analyzer
+
+const ready = loadLanguageAnalyzers(workerData?.analyzerModules ?? [], workerData?.baseDir ?? process.cwd());
+
+parentPort?.on('message', async ({ id, filePath }: { id: number; filePath: string }) => {
+  try {
+    await ready;
+    const analyzer = getAnalyzerForFile(filePath);
+    const content = await fsPromises.readFile(filePath, 'utf-8');
+    const imports = analyzer ? analyzer.extractImports(content, filePath) : [];
+    parentPort?.postMessage({ id, imports, size: Buffer.byteLength(content), hash: hashContent(content) });
+  } catch (error) {
+    parentPort?.postMessage({ id, error: String(error) });
+  }
+});
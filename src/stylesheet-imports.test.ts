@@ -0,0 +1,79 @@
+import { extractStylesheetImports, resolveStylesheetImport } from './stylesheet-imports';
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+describe('extractStylesheetImports', () => {
+  it('should read Sass imports, uses, forwards and url() references', () => {
+    const source = [
+      '@use "sass:math";',
+      '@use "../tokens" as t;',
+      '@forward "mixins" show rounded;',
+      '@import "variables", "base/reset";',
+      '// @import "commented-out";',
+      '.logo { background: url("../img/logo.svg?v=2") no-repeat; }',
+      '@font-face { src: url(//cdn.example.com/font.woff2), url(../fonts/inter.woff2) format("woff2"); }',
+      '.icon { mask: url(data:image/svg+xml;base64,AAAA); }'
+    ].join('\n');
+    expect(extractStylesheetImports(source, '/app/styles/main.scss').map(imp => imp.specifier)).toEqual([
+      'sass:math', '../tokens', 'mixins', 'variables', 'base/reset', '../img/logo.svg?v=2', '../fonts/inter.woff2'
+    ]);
+    expect(extractStylesheetImports(source, '/app/styles/main.scss').every(imp => imp.kind === 'asset')).toBe(true);
+  });
+
+  it('should read CSS and Less imports but not remote ones', () => {
+    const css = '@import url("theme.css") screen;\n@import "https://fonts.example.com/css";\n';
+    expect(extractStylesheetImports(css, '/app/a.css').map(imp => imp.specifier)).toEqual(['theme.css']);
+
+    const less = '@import (reference) "mixins";\n@import (css, optional) "print.css";\n';
+    expect(extractStylesheetImports(less, '/app/a.less').map(imp => imp.specifier)).toEqual(['mixins', 'print.css']);
+  });
+});
+
+describe('resolveStylesheetImport', () => {
+  let root: string;
+
+  const writeFile = (relativePath: string, content: string = '') => {
+    const fullPath = path.join(root, relativePath);
+    fs.mkdirSync(path.dirname(fullPath), { recursive: true });
+    fs.writeFileSync(fullPath, content);
+  };
+
+  const resolve = (specifier: string, from: string) => {
+    const result = resolveStylesheetImport(specifier, path.join(root, from), root);
+    return result.resolvedPath ? path.relative(root, result.resolvedPath).split(path.sep).join('/') : result;
+  };
+
+  beforeAll(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'filescope-styles-'));
+    writeFile('styles/main.scss');
+    writeFile('styles/_variables.scss');
+    writeFile('styles/base/_index.scss');
+    writeFile('styles/theme.less');
+    writeFile('img/logo.svg');
+    writeFile('public/favicon.ico');
+    writeFile('node_modules/bootstrap/package.json', '{"name":"bootstrap"}');
+  });
+
+  afterAll(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  it('should resolve Sass partials and index files', () => {
+    expect(resolve('variables', 'styles/main.scss')).toBe('styles/_variables.scss');
+    expect(resolve('base', 'styles/main.scss')).toBe('styles/base/_index.scss');
+    expect(resolve('theme', 'styles/main.less')).toBe('styles/theme.less');
+  });
+
+  it('should resolve asset URLs relative to the file or the public directory', () => {
+    expect(resolve('../img/logo.svg?v=2#top', 'styles/main.scss')).toBe('img/logo.svg');
+    expect(resolve('/favicon.ico', 'styles/main.scss')).toBe('public/favicon.ico');
+  });
+
+  it('should report packages and Sass built-in modules', () => {
+    expect(resolve('~bootstrap/scss/grid', 'styles/main.scss')).toEqual({ packageName: 'bootstrap' });
+    expect(resolve('bootstrap/scss/grid', 'styles/main.scss')).toEqual({ packageName: 'bootstrap' });
+    expect(resolve('sass:math', 'styles/main.scss')).toEqual({ builtinModule: 'sass:math' });
+  });
+});
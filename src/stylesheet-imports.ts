@@ -0,0 +1,184 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { ExtractedImport } from './import-extractor.js';
+
+/**
+ * Stylesheet languages whose `@import`/`@use`/`@forward` rules and `url()` references are analyzed
+ */
+export const STYLESHEET_EXTENSIONS = ['.css', '.scss', '.sass', '.less'];
+
+/**
+ * Non-code files that stylesheets and modules reference: images, fonts and media
+ */
+export const ASSET_EXTENSIONS = [
+  '.svg', '.png', '.jpg', '.jpeg', '.gif', '.webp', '.avif', '.ico', '.bmp',
+  '.woff', '.woff2', '.ttf', '.otf', '.eot',
+  '.mp4', '.webm', '.mp3', '.wav', '.ogg'
+];
+
+/**
+ * A stylesheet reference resolved to a project file, a package, or a built-in module
+ */
+export interface StylesheetResolution {
+  resolvedPath?: string;  // The stylesheet or asset file
+  packageName?: string;   // Package for `~pkg/...` and bare imports found in node_modules
+  builtinModule?: string; // Sass built-in module, e.g. `sass:math`
+}
+
+/**
+ * Returns whether a path is a stylesheet or an asset, which are linked by `asset` edges
+ */
+export function isStyleOrAssetFile(filePath: string): boolean {
+  const ext = path.extname(filePath).toLowerCase();
+  return STYLESHEET_EXTENSIONS.includes(ext) || ASSET_EXTENSIONS.includes(ext);
+}
+
+// Blank out comments; `//` comments exist in Sass and Less but not in CSS, and never inside url()
+function stripStylesheetComments(content: string, allowLineComments: boolean): string {
+  let result = '';
+  let i = 0;
+  while (i < content.length) {
+    const char = content[i];
+    if (char === '/' && content[i + 1] === '*') {
+      const end = content.indexOf('*/', i + 2);
+      const stop = end === -1 ? content.length : end + 2;
+      result += content.slice(i, stop).replace(/[^\n]/g, ' ');
+      i = stop;
+    } else if (allowLineComments && char === '/' && content[i + 1] === '/') {
+      while (i < content.length && content[i] !== '\n') i++;
+    } else if (char === '"' || char === "'" || /^url\(/i.test(content.slice(i, i + 4))) {
+      // Copy strings and url(...) tokens unchanged
+      const close = char === '"' || char === "'" ? char : ')';
+      let j = i + (close === ')' ? 4 : 1);
+      while (j < content.length && content[j] !== close && content[j] !== '\n') {
+        if (content[j] === '\\') j++;
+        j++;
+      }
+      result += content.slice(i, j + 1);
+      i = j + 1;
+    } else {
+      result += char;
+      i++;
+    }
+  }
+  return result;
+}
+
+// References that point outside the project: absolute URLs, data URIs and fragment-only references
+function isExternalUrl(reference: string): boolean {
+  return /^([a-z][a-z0-9+.-]*:|\/\/|#)/i.test(reference) && !/^sass:/.test(reference);
+}
+
+/**
+ * Extracts the stylesheets and assets a stylesheet references: `@import`
+ * (including Less `@import (reference) ...` and unquoted indented-Sass
+ * imports), Sass `@use`/`@forward`, and `url()` references. Every reference
+ * is an `asset` edge. Plain CSS imports of remote URLs are skipped.
+ */
+export function extractStylesheetImports(content: string, filePath: string): ExtractedImport[] {
+  const ext = path.extname(filePath).toLowerCase();
+  const source = stripStylesheetComments(content, ext !== '.css');
+  const imports: ExtractedImport[] = [];
+  const seen = new Set<string>();
+
+  const add = (reference: string) => {
+    const specifier = reference.trim();
+    if (!specifier || isExternalUrl(specifier) || seen.has(specifier)) return;
+    seen.add(specifier);
+    imports.push({ specifier, kind: 'asset' });
+  };
+
+  // @import "a", "b"; @import url(c.css) screen; @use "d" as e; @forward "f" show g;
+  const rulePattern = /@(import|use|forward)\b\s*(?:\([\w\s,]*\)\s*)?([^;{}\n]*)/g;
+  let match;
+  while ((match = rulePattern.exec(source)) !== null) {
+    const args = match[2];
+    const quoted = [...args.matchAll(/url\(\s*(["']?)([^"')]+)\1\s*\)|(["'])([^"']+)\3/g)];
+    if (quoted.length > 0) {
+      const references = match[1] === 'import' ? quoted : quoted.slice(0, 1);
+      references.forEach(ref => add(ref[2] ?? ref[4]));
+    } else if (ext === '.sass' && match[1] === 'import') {
+      // Indented syntax allows unquoted, comma-separated imports
+      args.split(',').forEach(ref => add(ref));
+    }
+  }
+
+  // url() references outside @import rules (backgrounds, fonts, cursors)
+  const urlPattern = /(@import\b[^;\n]*)?url\(\s*(["']?)([^"')]+)\2\s*\)/gi;
+  while ((match = urlPattern.exec(source)) !== null) {
+    if (!match[1]) add(match[3]);
+  }
+
+  return imports;
+}
+
+function isFile(filePath: string): boolean {
+  try {
+    return fs.statSync(filePath).isFile();
+  } catch {
+    return false;
+  }
+}
+
+// Sass looks for partials (`_name.scss`), any Sass extension, and `_index`/`index` files
+function getSassCandidates(basePath: string): string[] {
+  const dir = path.dirname(basePath);
+  const name = path.basename(basePath);
+  const candidates = [basePath];
+  for (const extension of ['.scss', '.sass', '.css']) {
+    candidates.push(basePath + extension, path.join(dir, '_' + name + extension));
+  }
+  for (const extension of ['.scss', '.sass', '.css']) {
+    candidates.push(path.join(basePath, '_index' + extension), path.join(basePath, 'index' + extension));
+  }
+  return candidates;
+}
+
+// The package name of a bare specifier: `@scope/name/...` or `name/...`
+function getPackageName(specifier: string): string {
+  const parts = specifier.split('/');
+  return specifier.startsWith('@') ? parts.slice(0, 2).join('/') : parts[0];
+}
+
+/**
+ * Resolves a reference from a stylesheet (or a style block) the way Sass,
+ * Less and CSS bundlers do: relative to the file, then from the project root
+ * and its `public/` directory for root-absolute URLs. Sass references try
+ * partials and index files. `~pkg/...` and bare references found in
+ * node_modules are packages; `sass:` modules are built-ins.
+ * @param specifier The reference as returned by extractStylesheetImports
+ * @param fromFile The absolute path of the referencing file
+ * @param baseDir The project root directory
+ */
+export function resolveStylesheetImport(specifier: string, fromFile: string, baseDir: string): StylesheetResolution {
+  if (specifier.startsWith('sass:')) {
+    return { builtinModule: specifier };
+  }
+
+  // Bundlers allow query strings and fragments on asset URLs (`font.woff2?v=3#iefix`)
+  const reference = specifier.replace(/[?#].*$/, '');
+  if (reference.startsWith('~')) {
+    return { packageName: getPackageName(reference.slice(1)) };
+  }
+
+  const bases = reference.startsWith('/')
+    ? [path.join(baseDir, reference), path.join(baseDir, 'public', reference)]
+    : [path.resolve(path.dirname(fromFile), reference)];
+
+  const ext = path.extname(fromFile).toLowerCase();
+  const isSass = ext === '.scss' || ext === '.sass' || ext === '.vue' || ext === '.svelte' || ext === '.astro';
+  for (const base of bases) {
+    const candidates = isSass ? getSassCandidates(base) : [base, ...(ext === '.less' ? [base + '.less'] : [])];
+    const resolvedPath = candidates.find(isFile);
+    if (resolvedPath) {
+      return { resolvedPath: path.normalize(resolvedPath) };
+    }
+  }
+
+  // Bare Sass/Less imports may also name installed packages
+  if (!reference.startsWith('.') && !reference.startsWith('/') && fs.existsSync(path.join(baseDir, 'node_modules', getPackageName(reference)))) {
+    return { packageName: getPackageName(reference) };
+  }
+
+  return {};
+}
@@ -0,0 +1,84 @@
+import { DEFAULT_TEST_FILE_PATTERNS, findTestsForFile, findUntestedFiles, getTestFilePatterns, isTestFile } from './test-files';
+import { buildDependencyGraph } from './dependency-graph';
+import { Config, DependencyEdge, FileNode } from './types';
+import { describe, it, expect } from 'vitest';
+
+const file = (filePath: string, importance: number, imports: string[] = []): FileNode => ({
+  path: filePath,
+  name: filePath.split('/').pop()!,
+  isDirectory: false,
+  importance,
+  dependencies: imports,
+  dependencyEdges: imports.map((importPath): DependencyEdge => ({ path: importPath, kind: 'static' }))
+});
+
+describe('isTestFile', () => {
+  it('should recognize test files across languages by the default patterns', () => {
+    expect(isTestFile('/app/src/api.test.ts', '/app')).toBe(true);
+    expect(isTestFile('/app/src/__tests__/api.ts', '/app')).toBe(true);
+    expect(isTestFile('/app/pkg/server_test.go', '/app')).toBe(true);
+    expect(isTestFile('/app/tests/test_models.py', '/app')).toBe(true);
+    expect(isTestFile('/app/src/test/java/AppTest.java', '/app')).toBe(true);
+    expect(isTestFile('/app/src/api.ts', '/app')).toBe(false);
+    expect(isTestFile('/app/src/latest.ts', '/app')).toBe(false);
+  });
+
+  it('should use the given patterns instead of the defaults', () => {
+    expect(isTestFile('/app/e2e/login.ts', '/app', ['e2e/**'])).toBe(true);
+    expect(isTestFile('/app/src/api.test.ts', '/app', ['e2e/**'])).toBe(false);
+  });
+});
+
+describe('getTestFilePatterns', () => {
+  it('should prefer configured patterns and fall back to the defaults', () => {
+    const config = { baseDirectory: '/app', excludePatterns: [], version: '1.0.0' } as Config;
+    expect(getTestFilePatterns(null)).toBe(DEFAULT_TEST_FILE_PATTERNS);
+    expect(getTestFilePatterns({ ...config, testPatterns: [] })).toBe(DEFAULT_TEST_FILE_PATTERNS);
+    expect(getTestFilePatterns({ ...config, testPatterns: ['e2e/**'] })).toEqual(['e2e/**']);
+  });
+});
+
+describe('test-to-source mapping', () => {
+  // api.test -> api -> db, ui.test -> ui, e2e/login -> ui (e2e only with custom patterns); cli and config are untested,
+  // README, package.json and the logo are not source files
+  const graph = buildDependencyGraph({
+    path: '/app',
+    name: 'app',
+    isDirectory: true,
+    children: [
+      file('/app/src/db.ts', 8),
+      file('/app/src/api.ts', 6, ['/app/src/db.ts']),
+      file('/app/src/ui.ts', 4),
+      file('/app/src/cli.ts', 7, ['/app/src/api.ts']),
+      file('/app/src/config.ts', 3),
+      file('/app/src/api.test.ts', 2, ['/app/src/api.ts']),
+      file('/app/src/ui.test.ts', 2, ['/app/src/ui.ts']),
+      file('/app/e2e/login.ts', 2, ['/app/src/ui.ts', '/app/src/config.ts']),
+      file('/app/README.md', 9),
+      file('/app/package.json', 9),
+      file('/app/assets/logo.png', 5)
+    ]
+  });
+
+  it('should find the tests that reach a file directly or transitively', () => {
+    expect(findTestsForFile(graph, '/app/src/db.ts', '/app')).toEqual([
+      { path: '/app/src/api.test.ts', depth: 2, via: ['/app/src/api.ts'] }
+    ]);
+    expect(findTestsForFile(graph, '/app/src/db.ts', '/app', DEFAULT_TEST_FILE_PATTERNS, 1)).toEqual([]);
+    expect(findTestsForFile(graph, '/app/src/ui.ts', '/app', ['**/*.test.ts', 'e2e/**']).map(test => test.path)).toEqual([
+      '/app/e2e/login.ts', '/app/src/ui.test.ts'
+    ]);
+  });
+
+  it('should list untested files, most important first', () => {
+    expect(findUntestedFiles(graph, '/app')).toEqual(['/app/src/cli.ts', '/app/src/config.ts', '/app/e2e/login.ts']);
+    expect(findUntestedFiles(graph, '/app', ['**/*.test.ts', 'e2e/**'])).toEqual(['/app/src/cli.ts']);
+  });
+
+  it('should leave out files no analyzer handles', () => {
+    const untested = findUntestedFiles(graph, '/app');
+    expect(untested).not.toContain('/app/README.md');
+    expect(untested).not.toContain('/app/package.json');
+    expect(untested).not.toContain('/app/assets/logo.png');
+  });
+});
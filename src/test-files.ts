@@ -0,0 +1,75 @@
+import * as path from 'path';
+import { matchesGlobPatterns } from './glob-utils.js';
+import { DependencyGraph, ReachedFile, findTransitiveDependencies, findTransitiveDependents } from './dependency-graph.js';
+import { getAnalyzerForFile } from './language-analyzers.js';
+import { Config } from './types.js';
+
+// Globs of test files, relative to the project root, across the supported languages
+export const DEFAULT_TEST_FILE_PATTERNS = [
+  '**/*.{test,spec}.*',   // Jest, Vitest, Mocha
+  '**/__tests__/**',
+  '**/test_*.py',         // pytest
+  '**/*_test.py',
+  '**/*_test.go',
+  '**/test/**',           // Maven src/test, Mocha, PHPUnit
+  '**/tests/**',          // Rust integration tests, PHPUnit, pytest
+  '**/*.Tests/**'         // .NET test projects
+];
+
+/**
+ * Returns the configured test file globs, or the defaults when none are set
+ */
+export function getTestFilePatterns(config: Config | null): string[] {
+  return config?.testPatterns && config.testPatterns.length > 0 ? config.testPatterns : DEFAULT_TEST_FILE_PATTERNS;
+}
+
+/**
+ * Checks whether a file is a test file
+ * @param filePath Absolute path of the file
+ * @param baseDir The project root directory
+ * @param patterns Test file globs (default: DEFAULT_TEST_FILE_PATTERNS)
+ */
+export function isTestFile(filePath: string, baseDir: string, patterns: string[] = DEFAULT_TEST_FILE_PATTERNS): boolean {
+  return matchesGlobPatterns(path.relative(baseDir, filePath), patterns);
+}
+
+/**
+ * Returns the test files of the graph, sorted
+ */
+export function getTestFiles(graph: DependencyGraph, baseDir: string, patterns: string[] = DEFAULT_TEST_FILE_PATTERNS): string[] {
+  return [...graph.files.keys()].filter(filePath => isTestFile(filePath, baseDir, patterns)).sort();
+}
+
+/**
+ * Finds the tests that import a file, directly (depth 1) or through other
+ * files, each at its shortest hop distance. A test file does not count as
+ * testing itself.
+ * @param graph The dependency graph
+ * @param filePath Path of the source file
+ * @param baseDir The project root directory
+ * @param patterns Test file globs (default: DEFAULT_TEST_FILE_PATTERNS)
+ * @param maxDepth Maximum hop distance to follow (default: unlimited)
+ */
+export function findTestsForFile(graph: DependencyGraph, filePath: string, baseDir: string, patterns: string[] = DEFAULT_TEST_FILE_PATTERNS, maxDepth: number = Infinity): ReachedFile[] {
+  return findTransitiveDependents(graph, [filePath], maxDepth)
+    .filter(file => isTestFile(file.path, baseDir, patterns));
+}
+
+/**
+ * Finds the source files no test imports, directly or transitively,
+ * most important first. Test files themselves are left out, and so are
+ * files no language analyzer handles (docs, data, images), which no test
+ * could import.
+ * @param graph The dependency graph
+ * @param baseDir The project root directory
+ * @param patterns Test file globs (default: DEFAULT_TEST_FILE_PATTERNS)
+ */
+export function findUntestedFiles(graph: DependencyGraph, baseDir: string, patterns: string[] = DEFAULT_TEST_FILE_PATTERNS): string[] {
+  const testFiles = getTestFiles(graph, baseDir, patterns);
+  const tested = new Set(findTransitiveDependencies(graph, testFiles).map(file => file.path));
+  const testSet = new Set(testFiles);
+
+  return [...graph.files.keys()]
+    .filter(filePath => !testSet.has(filePath) && !tested.has(filePath) && getAnalyzerForFile(filePath) !== null)
+    .sort((a, b) => (graph.files.get(b)!.importance || 0) - (graph.files.get(a)!.importance || 0) || a.localeCompare(b));
+}
@@ -0,0 +1,66 @@
+import { asTomlTable, getTomlValue, parseToml } from './toml-utils';
+import { describe, it, expect } from 'vitest';
+
+describe('parseToml', () => {
+  it('should parse tables, dotted keys and arrays of tables', () => {
+    const source = [
+      '# comment',
+      'title = "demo" # trailing',
+      'server.port = 8080',
+      '',
+      '[package]',
+      "name = 'app'",
+      'edition = "2021"',
+      '',
+      '[[bin]]',
+      'name = "first"',
+      '[[bin]]',
+      'name = "second"',
+      '[bin.extra]',
+      'enabled = true'
+    ].join('\n');
+    expect(parseToml(source)).toEqual({
+      title: 'demo',
+      server: { port: 8080 },
+      package: { name: 'app', edition: '2021' },
+      bin: [{ name: 'first' }, { name: 'second', extra: { enabled: true } }]
+    });
+  });
+
+  it('should parse multi-line arrays and inline tables', () => {
+    const source = [
+      'members = [',
+      '  "crates/*",  # all crates',
+      '  "tools/cli",',
+      ']',
+      'serde = { version = "1.0", features = ["derive"] }',
+      '"quoted.key" = 1_000'
+    ].join('\r\n');
+    expect(parseToml(source)).toEqual({
+      members: ['crates/*', 'tools/cli'],
+      serde: { version: '1.0', features: ['derive'] },
+      'quoted.key': 1000
+    });
+  });
+
+  it('should parse multi-line strings and escapes', () => {
+    const source = 'a = """\nline one\nline "two"\\n"""\nb = \'\'\'C:\\path\'\'\'\nc = "tab\\tend"';
+    expect(parseToml(source)).toEqual({ a: 'line one\nline "two"\n', b: 'C:\\path', c: 'tab\tend' });
+  });
+
+  it('should reject malformed input', () => {
+    expect(() => parseToml('key = ')).toThrow(/line 1/);
+    expect(() => parseToml('[table\nkey = 1')).toThrow();
+  });
+});
+
+describe('getTomlValue', () => {
+  it('should read nested values and stop at anything that is not a table', () => {
+    const manifest = parseToml('[tool.poetry]\npackages = [{ include = "pkg" }]\nname = "app"');
+    expect(getTomlValue(manifest, 'tool', 'poetry', 'packages')).toEqual([{ include: 'pkg' }]);
+    expect(getTomlValue(manifest, 'tool', 'poetry', 'name', 'length')).toBeUndefined();
+    expect(getTomlValue(manifest, 'tool', 'poetry', 'packages', '0')).toBeUndefined();
+    expect(getTomlValue(null, 'tool')).toBeUndefined();
+    expect(asTomlTable(['a'])).toBeUndefined();
+  });
+});
@@ -0,0 +1,280 @@
+/**
+ * A parsed TOML table. Values are strings, numbers, booleans, arrays and
+ * nested tables, and are narrowed where they are read.
+ */
+export type TomlTable = Record<string, unknown>;
+
+/**
+ * Returns a value if it is a table, otherwise undefined
+ */
+export function asTomlTable(value: unknown): TomlTable | undefined {
+  return typeof value === 'object' && value !== null && !Array.isArray(value) ? value as TomlTable : undefined;
+}
+
+/**
+ * Reads a nested value such as `tool.poetry.packages`, or undefined when any
+ * step along the way is missing or not a table
+ */
+export function getTomlValue(table: unknown, ...keys: string[]): unknown {
+  let value = table;
+  for (const key of keys) {
+    value = asTomlTable(value)?.[key];
+  }
+  return value;
+}
+
+/**
+ * A small TOML reader for project manifests (pyproject.toml, Cargo.toml).
+ * It covers tables, arrays of tables, dotted keys, strings, numbers, booleans,
+ * dates (kept as strings), arrays and inline tables, which is everything those
+ * manifests use in practice. Invalid input throws an Error.
+ */
+export function parseToml(content: string): TomlTable {
+  const root: any = {};
+  let current: any = root;
+  let pos = 0;
+
+  const error = (message: string): never => {
+    const line = content.slice(0, pos).split('\n').length;
+    throw new Error(`TOML parse error on line ${line}: ${message}`);
+  };
+
+  const skipWhitespace = () => {
+    while (pos < content.length && (content[pos] === ' ' || content[pos] === '\t')) pos++;
+  };
+
+  // Whitespace, newlines and comments, as allowed inside arrays and between statements
+  const skipWhitespaceAndComments = () => {
+    while (pos < content.length) {
+      const char = content[pos];
+      if (char === ' ' || char === '\t' || char === '\r' || char === '\n') {
+        pos++;
+      } else if (char === '#') {
+        while (pos < content.length && content[pos] !== '\n') pos++;
+      } else {
+        break;
+      }
+    }
+  };
+
+  const expectLineEnd = () => {
+    skipWhitespace();
+    if (content[pos] === '#') {
+      while (pos < content.length && content[pos] !== '\n') pos++;
+    }
+    if (content[pos] === '\r') pos++;
+    if (pos < content.length && content[pos] !== '\n') {
+      error(`unexpected "${content[pos]}"`);
+    }
+    pos++;
+  };
+
+  const parseBasicString = (): string => {
+    const multiline = content.startsWith('"""', pos);
+    pos += multiline ? 3 : 1;
+    if (multiline && content[pos] === '\n') pos++;
+    else if (multiline && content.startsWith('\r\n', pos)) pos += 2;
+
+    let result = '';
+    while (pos < content.length) {
+      if (multiline ? content.startsWith('"""', pos) : content[pos] === '"') {
+        pos += multiline ? 3 : 1;
+        return result;
+      }
+      const char = content[pos];
+      if (!multiline && char === '\n') error('unterminated string');
+      if (char === '\\') {
+        const next = content[pos + 1];
+        const escapes: { [key: string]: string } = { 'b': '\b', 't': '\t', 'n': '\n', 'f': '\f', 'r': '\r', '"': '"', '\\': '\\' };
+        if (next in escapes) {
+          result += escapes[next];
+          pos += 2;
+        } else if (next === 'u' || next === 'U') {
+          const length = next === 'u' ? 4 : 8;
+          result += String.fromCodePoint(parseInt(content.substr(pos + 2, length), 16));
+          pos += 2 + length;
+        } else if (multiline && /\s/.test(next)) {
+          // Line-ending backslash trims the following whitespace
+          pos++;
+          while (pos < content.length && /\s/.test(content[pos])) pos++;
+        } else {
+          error(`invalid escape "\\${next}"`);
+        }
+      } else {
+        result += char;
+        pos++;
+      }
+    }
+    return error('unterminated string');
+  };
+
+  const parseLiteralString = (): string => {
+    const multiline = content.startsWith("'''", pos);
+    pos += multiline ? 3 : 1;
+    if (multiline && content[pos] === '\n') pos++;
+    else if (multiline && content.startsWith('\r\n', pos)) pos += 2;
+
+    const end = content.indexOf(multiline ? "'''" : "'", pos);
+    if (end === -1 || (!multiline && content.slice(pos, end).includes('\n'))) {
+      error('unterminated string');
+    }
+    const result = content.slice(pos, end);
+    pos = end + (multiline ? 3 : 1);
+    return result;
+  };
+
+  const parseKey = (): string[] => {
+    const parts: string[] = [];
+    while (true) {
+      skipWhitespace();
+      if (content[pos] === '"') {
+        parts.push(parseBasicString());
+      } else if (content[pos] === "'") {
+        parts.push(parseLiteralString());
+      } else {
+        const match = /^[A-Za-z0-9_-]+/.exec(content.slice(pos));
+        if (!match) error('expected a key');
+        parts.push(match![0]);
+        pos += match![0].length;
+      }
+      skipWhitespace();
+      if (content[pos] !== '.') return parts;
+      pos++;
+    }
+  };
+
+  const parseValue = (): any => {
+    const char = content[pos];
+    if (char === '"') return parseBasicString();
+    if (char === "'") return parseLiteralString();
+
+    if (char === '[') {
+      pos++;
+      const items: any[] = [];
+      while (true) {
+        skipWhitespaceAndComments();
+        if (content[pos] === ']') {
+          pos++;
+          return items;
+        }
+        items.push(parseValue());
+        skipWhitespaceAndComments();
+        if (content[pos] === ',') {
+          pos++;
+        } else if (content[pos] !== ']') {
+          error('expected "," or "]" in array');
+        }
+      }
+    }
+
+    if (char === '{') {
+      pos++;
+      const table: any = {};
+      skipWhitespace();
+      if (content[pos] === '}') {
+        pos++;
+        return table;
+      }
+      while (true) {
+        const key = parseKey();
+        if (content[pos] !== '=') error('expected "=" in inline table');
+        pos++;
+        skipWhitespace();
+        setDotted(table, key, parseValue());
+        skipWhitespace();
+        if (content[pos] === ',') {
+          pos++;
+        } else if (content[pos] === '}') {
+          pos++;
+          return table;
+        } else {
+          error('expected "," or "}" in inline table');
+        }
+      }
+    }
+
+    // Bare values: booleans, numbers, dates
+    const match = /^[^\s,\]}#]+/.exec(content.slice(pos));
+    if (!match) error('expected a value');
+    const raw = match![0];
+    pos += raw.length;
+
+    if (raw === 'true') return true;
+    if (raw === 'false') return false;
+    if (/^[+-]?(inf|nan)$/.test(raw)) return raw.includes('nan') ? NaN : (raw.startsWith('-') ? -Infinity : Infinity);
+    const numeric = raw.replace(/_/g, '');
+    if (/^[+-]?(0x[0-9a-fA-F]+|0o[0-7]+|0b[01]+)$/.test(numeric)) {
+      const sign = numeric.startsWith('-') ? -1 : 1;
+      const unsigned = numeric.replace(/^[+-]/, '');
+      const radix = unsigned[1] === 'x' ? 16 : unsigned[1] === 'o' ? 8 : 2;
+      return sign * parseInt(unsigned.slice(2), radix);
+    }
+    if (/^[+-]?\d+(\.\d+)?([eE][+-]?\d+)?$/.test(numeric)) return Number(numeric);
+
+    // Dates and times, possibly with a space-separated time part
+    if (/^\d{4}-\d{2}-\d{2}$/.test(raw) && /^ \d{2}:/.test(content.slice(pos))) {
+      const time = /^ [^\s,\]}#]+/.exec(content.slice(pos))![0];
+      pos += time.length;
+      return raw + time;
+    }
+    if (/^\d{4}-\d{2}-\d{2}|^\d{2}:\d{2}/.test(raw)) return raw;
+
+    return error(`invalid value "${raw}"`);
+  };
+
+  function setDotted(table: any, key: string[], value: any): void {
+    let target = table;
+    for (const part of key.slice(0, -1)) {
+      if (target[part] === undefined) target[part] = {};
+      target = target[part];
+      if (typeof target !== 'object' || Array.isArray(target)) error(`key "${key.join('.')}" conflicts with a value`);
+    }
+    target[key[key.length - 1]] = value;
+  }
+
+  // Walk to a table header, creating tables along the way
+  const openTable = (key: string[], isArray: boolean): any => {
+    let target = root;
+    key.forEach((part, index) => {
+      const isLast = index === key.length - 1;
+      if (isLast && isArray) {
+        if (target[part] === undefined) target[part] = [];
+        if (!Array.isArray(target[part])) error(`"${key.join('.')}" is not an array of tables`);
+        const table = {};
+        target[part].push(table);
+        target = table;
+        return;
+      }
+      if (target[part] === undefined) target[part] = {};
+      target = target[part];
+      // Headers below an array of tables refer to its last element
+      if (Array.isArray(target)) target = target[target.length - 1];
+      if (typeof target !== 'object') error(`"${key.join('.')}" conflicts with a value`);
+    });
+    return target;
+  };
+
+  while (true) {
+    skipWhitespaceAndComments();
+    if (pos >= content.length) break;
+
+    if (content[pos] === '[') {
+      const isArray = content[pos + 1] === '[';
+      pos += isArray ? 2 : 1;
+      const key = parseKey();
+      if (content[pos] !== ']' || (isArray && content[pos + 1] !== ']')) error('unterminated table header');
+      pos += isArray ? 2 : 1;
+      current = openTable(key, isArray);
+      expectLineEnd();
+    } else {
+      const key = parseKey();
+      if (content[pos] !== '=') error('expected "="');
+      pos++;
+      skipWhitespace();
+      setDotted(current, key, parseValue());
+      expectLineEnd();
+    }
+  }
+
+  return root;
+}
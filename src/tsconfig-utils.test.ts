@@ -0,0 +1,125 @@
+import { clearTsConfigCache, findTsConfigForFile, getTsConfigAliasCandidates, loadTsConfig, parseJsonWithComments } from './tsconfig-utils';
+import { clearResolverCache } from './module-resolver';
+import { scanDirectory } from './file-utils';
+import { setConfig } from './global-state';
+import { FileNode } from './types';
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+describe('parseJsonWithComments', () => {
+  it('should drop comments and trailing commas outside strings only', () => {
+    const content = `{
+      // line comment
+      "compilerOptions": { /* block */ "paths": { "a,]": ["src/a,]", "http://x/*", ], }, },
+      "exclude": ["// not a comment", "/* nor this */",],
+    }`;
+    expect(parseJsonWithComments(content)).toEqual({
+      compilerOptions: { paths: { 'a,]': ['src/a,]', 'http://x/*'] } },
+      exclude: ['// not a comment', '/* nor this */']
+    });
+  });
+
+  it('should keep escaped quotes inside strings', () => {
+    expect(parseJsonWithComments('{ "a": "say \\"hi,\\" }", }')).toEqual({ a: 'say "hi," }' });
+  });
+});
+
+describe('tsconfig aliases', () => {
+  let root: string;
+
+  const write = (relativePath: string, content: string = '') => {
+    const filePath = path.join(root, relativePath);
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, content);
+  };
+  const at = (relativePath: string) => path.join(root, relativePath);
+
+  beforeAll(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'filescope-tsconfig-'));
+
+    // Root config extends a package config (by directory) and a relative one (without .json)
+    write('node_modules/@acme/tsconfig/tsconfig.json', '{ "compilerOptions": { "moduleResolution": "Bundler", "module": "CommonJS" } }');
+    write('config/tsconfig.paths.json', `{
+      // Aliases shared by the apps, relative to the baseUrl of the config extending this one
+      "compilerOptions": {
+        "module": "ESNext",
+        "paths": {
+          "@/*": ["src/*"],
+          "~lib/*": ["lib/*",],
+        },
+      },
+    }`);
+    write('tsconfig.json', '{ "extends": ["@acme/tsconfig", "./config/tsconfig.paths"], "compilerOptions": { "baseUrl": "." } }');
+    write('src/app.ts', 'import { Button } from "@/components/Button";\nimport { db } from "~lib/db";\nimport React from "react";\n');
+    write('src/components/Button.tsx', 'export const Button = () => null;\n');
+    write('lib/db.ts', 'export const db = {};\n');
+
+    // A package with only a baseUrl
+    write('packages/legacy/tsconfig.json', '{ "compilerOptions": { "baseUrl": "src" } }');
+    write('packages/legacy/src/main.ts', 'import { format } from "utils/format";\n');
+    write('packages/legacy/src/utils/format.ts', 'export const format = 1;\n');
+
+    // A JavaScript package configured through jsconfig.json
+    write('packages/web/jsconfig.json', '{ "compilerOptions": { "paths": { "@ui/*": ["./ui/*"] } } }');
+    write('packages/web/index.js', 'import { Card } from "@ui/Card";\n');
+    write('packages/web/ui/Card.js', 'export const Card = 1;\n');
+  });
+
+  afterAll(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  beforeEach(() => {
+    clearTsConfigCache();
+    clearResolverCache();
+    setConfig({ baseDirectory: root, excludePatterns: ['**/node_modules'], version: '1.0.0' });
+  });
+
+  it('should merge the extends chain, with later and own options winning', () => {
+    const config = loadTsConfig(at('tsconfig.json'))!;
+    expect(config.baseUrl).toBe(root);
+    expect(config.paths).toEqual({ '@/*': ['src/*'], '~lib/*': ['lib/*'] });
+    // With a baseUrl, paths are relative to it rather than to the config that declared them
+    expect(config.pathsBasePath).toBe(root);
+    expect(config.moduleResolution).toBe('bundler');
+    expect(config.module).toBe('esnext');
+  });
+
+  it('should find the nearest tsconfig or jsconfig without leaving the project', () => {
+    expect(findTsConfigForFile(at('src/components/Button.tsx'), root)?.configPath).toBe(at('tsconfig.json'));
+    expect(findTsConfigForFile(at('packages/legacy/src/main.ts'), root)?.configPath).toBe(at('packages/legacy/tsconfig.json'));
+    expect(findTsConfigForFile(at('packages/web/index.js'), root)?.configPath).toBe(at('packages/web/jsconfig.json'));
+    expect(findTsConfigForFile(at('packages/web/ui/Card.js'), at('packages/web/ui'))).toBeNull();
+  });
+
+  it('should list alias candidates for wildcard paths, baseUrl lookups and jsconfig paths', () => {
+    expect(getTsConfigAliasCandidates('@/components/Button', at('src/app.ts'), root)).toEqual([
+      at('src/components/Button'),
+      at('@/components/Button')
+    ]);
+    expect(getTsConfigAliasCandidates('utils/format', at('packages/legacy/src/main.ts'), root)).toEqual([
+      at('packages/legacy/src/utils/format')
+    ]);
+    expect(getTsConfigAliasCandidates('@ui/Card', at('packages/web/index.js'), root)).toEqual([at('packages/web/ui/Card')]);
+    expect(getTsConfigAliasCandidates('./local', at('src/app.ts'), root)).toEqual([]);
+  });
+
+  it('should resolve aliased imports to local files instead of packages in scans', async () => {
+    const files = new Map<string, FileNode>();
+    const collect = (node: FileNode) => {
+      if (!node.isDirectory) files.set(path.relative(root, node.path).split(path.sep).join('/'), node);
+      node.children?.forEach(collect);
+    };
+    collect(await scanDirectory(root));
+
+    const app = files.get('src/app.ts')!;
+    expect(app.dependencies).toEqual([at('src/components/Button.tsx'), at('lib/db.ts')]);
+    expect(app.packageDependencies!.map(pkg => pkg.name)).toEqual(['react']);
+    expect(files.get('packages/legacy/src/main.ts')!.dependencies).toEqual([at('packages/legacy/src/utils/format.ts')]);
+    expect(files.get('packages/legacy/src/main.ts')!.packageDependencies).toEqual([]);
+    expect(files.get('packages/web/index.js')!.dependencies).toEqual([at('packages/web/ui/Card.js')]);
+    expect(files.get('packages/web/index.js')!.packageDependencies).toEqual([]);
+  });
+});
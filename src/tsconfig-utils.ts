@@ -0,0 +1,289 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { log } from './logger.js';
+import { JsonObject, asJsonObject } from './json-utils.js';
+
+/**
+ * The subset of a resolved tsconfig/jsconfig that matters for import resolution.
+ * All paths are absolute.
+ */
+export interface TsConfigInfo {
+  configPath: string;                   // The tsconfig.json/jsconfig.json that was loaded
+  baseUrl?: string;                     // compilerOptions.baseUrl, resolved against its defining config
+  paths?: { [pattern: string]: string[] }; // compilerOptions.paths, as written
+  pathsBasePath?: string;               // Directory the `paths` targets are relative to
+  moduleResolution?: string;            // compilerOptions.moduleResolution, lower-cased
+  module?: string;                      // compilerOptions.module, lower-cased
+}
+
+const CONFIG_FILE_NAMES = ['tsconfig.json', 'jsconfig.json'];
+
+// Parsed configs keyed by config path, and the nearest config keyed by directory
+const configCache = new Map<string, TsConfigInfo | null>();
+const nearestConfigCache = new Map<string, string | null>();
+
+/**
+ * Clears cached tsconfig lookups. Called at the start of every full scan so
+ * edits to tsconfig.json between scans are picked up.
+ */
+export function clearTsConfigCache(): void {
+  configCache.clear();
+  nearestConfigCache.clear();
+}
+
+/**
+ * Parses JSON with comments and trailing commas, as allowed in tsconfig files.
+ * Both are removed in one pass that skips string contents.
+ */
+export function parseJsonWithComments(content: string): unknown {
+  let result = '';
+  let inString = false;
+  let i = 0;
+
+  while (i < content.length) {
+    const char = content[i];
+    const next = content[i + 1];
+
+    if (inString) {
+      result += char;
+      if (char === '\\') {
+        result += next ?? '';
+        i += 2;
+        continue;
+      }
+      if (char === '"') {
+        inString = false;
+      }
+      i++;
+    } else if (char === '"') {
+      inString = true;
+      result += char;
+      i++;
+    } else if (char === '/' && next === '/') {
+      while (i < content.length && content[i] !== '\n') i++;
+    } else if (char === '/' && next === '*') {
+      i += 2;
+      while (i < content.length && !(content[i] === '*' && content[i + 1] === '/')) i++;
+      i += 2;
+    } else if (char === '}' || char === ']') {
+      // Drop a trailing comma before the closing bracket; the output so far ends outside any string
+      let end = result.length;
+      while (end > 0 && /\s/.test(result[end - 1])) end--;
+      if (result[end - 1] === ',') {
+        result = result.slice(0, end - 1) + result.slice(end);
+      }
+      result += char;
+      i++;
+    } else {
+      result += char;
+      i++;
+    }
+  }
+
+  return JSON.parse(result);
+}
+
+// Resolve the target of an `extends` entry to a config file path
+function resolveExtendsPath(extendsValue: string, configDir: string): string | null {
+  if (extendsValue.startsWith('.') || path.isAbsolute(extendsValue)) {
+    const candidate = path.resolve(configDir, extendsValue);
+    if (fs.existsSync(candidate) && fs.statSync(candidate).isFile()) return candidate;
+    if (fs.existsSync(candidate + '.json')) return candidate + '.json';
+    return null;
+  }
+
+  // Package reference, e.g. "@tsconfig/node18/tsconfig.json" or "@tsconfig/node18"
+  let dir = configDir;
+  while (true) {
+    const candidate = path.join(dir, 'node_modules', extendsValue);
+    if (fs.existsSync(candidate)) {
+      if (fs.statSync(candidate).isFile()) return candidate;
+      const nested = path.join(candidate, 'tsconfig.json');
+      if (fs.existsSync(nested)) return nested;
+    }
+    if (fs.existsSync(candidate + '.json')) return candidate + '.json';
+
+    const parent = path.dirname(dir);
+    if (parent === dir) return null;
+    dir = parent;
+  }
+}
+
+/**
+ * Loads a tsconfig/jsconfig file and follows its `extends` chain.
+ * Options from the extending config win over those it extends.
+ */
+export function loadTsConfig(configPath: string, seen: Set<string> = new Set()): TsConfigInfo | null {
+  const normalizedConfigPath = path.normalize(configPath);
+  if (configCache.has(normalizedConfigPath)) {
+    return configCache.get(normalizedConfigPath)!;
+  }
+
+  if (seen.has(normalizedConfigPath)) {
+    log(`[tsconfig] Circular extends detected at ${normalizedConfigPath}`);
+    return null;
+  }
+  seen.add(normalizedConfigPath);
+
+  let raw: JsonObject;
+  try {
+    raw = asJsonObject(parseJsonWithComments(fs.readFileSync(normalizedConfigPath, 'utf-8'))) ?? {};
+  } catch (error) {
+    log(`[tsconfig] Failed to read ${normalizedConfigPath}: ${error}`);
+    configCache.set(normalizedConfigPath, null);
+    return null;
+  }
+
+  const configDir = path.dirname(normalizedConfigPath);
+  const info: TsConfigInfo = { configPath: normalizedConfigPath };
+
+  // Apply extended configs first (later entries in an array win), then our own options
+  const extendsList = (Array.isArray(raw.extends) ? raw.extends : [raw.extends])
+    .filter((extendsValue): extendsValue is string => typeof extendsValue === 'string' && extendsValue !== '');
+  for (const extendsValue of extendsList) {
+    const parentPath = resolveExtendsPath(extendsValue, configDir);
+    if (!parentPath) {
+      log(`[tsconfig] Could not resolve extends "${extendsValue}" from ${normalizedConfigPath}`);
+      continue;
+    }
+    const parent = loadTsConfig(parentPath, seen);
+    if (parent) {
+      if (parent.baseUrl !== undefined) info.baseUrl = parent.baseUrl;
+      if (parent.paths !== undefined) {
+        info.paths = parent.paths;
+        info.pathsBasePath = parent.pathsBasePath;
+      }
+      if (parent.moduleResolution !== undefined) info.moduleResolution = parent.moduleResolution;
+      if (parent.module !== undefined) info.module = parent.module;
+    }
+  }
+
+  const compilerOptions = asJsonObject(raw.compilerOptions) ?? {};
+  if (typeof compilerOptions.baseUrl === 'string') {
+    info.baseUrl = path.resolve(configDir, compilerOptions.baseUrl);
+  }
+  const paths = asJsonObject(compilerOptions.paths);
+  if (paths) {
+    info.paths = {};
+    for (const [pattern, targets] of Object.entries(paths)) {
+      info.paths[pattern] = Array.isArray(targets) ? targets.filter((target): target is string => typeof target === 'string') : [];
+    }
+    info.pathsBasePath = configDir;
+  }
+  if (typeof compilerOptions.moduleResolution === 'string') {
+    info.moduleResolution = compilerOptions.moduleResolution.toLowerCase();
+  }
+  if (typeof compilerOptions.module === 'string') {
+    info.module = compilerOptions.module.toLowerCase();
+  }
+
+  // Without a baseUrl, `paths` are relative to the config that declared them
+  if (info.paths && info.baseUrl) {
+    info.pathsBasePath = info.baseUrl;
+  }
+
+  configCache.set(normalizedConfigPath, info);
+  return info;
+}
+
+/**
+ * Finds the nearest tsconfig.json/jsconfig.json for a file, searching upwards
+ * from the file's directory but never above the project base directory.
+ */
+export function findTsConfigForFile(filePath: string, baseDir: string): TsConfigInfo | null {
+  const root = path.normalize(baseDir);
+  let dir = path.dirname(path.normalize(filePath));
+  const visited: string[] = [];
+
+  while (true) {
+    if (nearestConfigCache.has(dir)) {
+      const cached = nearestConfigCache.get(dir)!;
+      visited.forEach(v => nearestConfigCache.set(v, cached));
+      return cached ? loadTsConfig(cached) : null;
+    }
+    visited.push(dir);
+
+    for (const name of CONFIG_FILE_NAMES) {
+      const candidate = path.join(dir, name);
+      if (fs.existsSync(candidate)) {
+        visited.forEach(v => nearestConfigCache.set(v, candidate));
+        return loadTsConfig(candidate);
+      }
+    }
+
+    const parent = path.dirname(dir);
+    if (dir === root || parent === dir || !dir.startsWith(root)) {
+      visited.forEach(v => nearestConfigCache.set(v, null));
+      return null;
+    }
+    dir = parent;
+  }
+}
+
+// Match an import against a `paths` key, returning the text captured by `*`
+function matchPathPattern(pattern: string, importPath: string): string | null {
+  const starIndex = pattern.indexOf('*');
+  if (starIndex === -1) {
+    return pattern === importPath ? '' : null;
+  }
+
+  const prefix = pattern.substring(0, starIndex);
+  const suffix = pattern.substring(starIndex + 1);
+  if (importPath.length >= prefix.length + suffix.length &&
+      importPath.startsWith(prefix) &&
+      importPath.endsWith(suffix)) {
+    return importPath.substring(prefix.length, importPath.length - suffix.length);
+  }
+  return null;
+}
+
+/**
+ * Returns the candidate locations (without extension probing) for a bare
+ * import specifier according to the governing tsconfig's `paths` and `baseUrl`.
+ * Candidates are ordered the way TypeScript tries them; an empty array means
+ * the import is not aliased.
+ */
+export function getTsConfigAliasCandidates(importPath: string, currentFilePath: string, baseDir: string): string[] {
+  if (importPath.startsWith('.') || path.isAbsolute(importPath)) {
+    return [];
+  }
+
+  const config = findTsConfigForFile(currentFilePath, baseDir);
+  if (!config) {
+    return [];
+  }
+
+  const candidates: string[] = [];
+
+  if (config.paths && config.pathsBasePath) {
+    // TypeScript picks the matching pattern with the longest prefix before `*`
+    let bestPattern: string | null = null;
+    let bestCapture = '';
+    let bestPrefixLength = -1;
+
+    for (const pattern of Object.keys(config.paths)) {
+      const capture = matchPathPattern(pattern, importPath);
+      if (capture === null) continue;
+
+      const prefixLength = pattern.includes('*') ? pattern.indexOf('*') : Number.MAX_SAFE_INTEGER;
+      if (prefixLength > bestPrefixLength) {
+        bestPattern = pattern;
+        bestCapture = capture;
+        bestPrefixLength = prefixLength;
+      }
+    }
+
+    if (bestPattern) {
+      for (const target of config.paths[bestPattern] || []) {
+        candidates.push(path.resolve(config.pathsBasePath, target.replace('*', bestCapture)));
+      }
+      log(`[tsconfig] ${importPath} matched paths pattern "${bestPattern}" in ${config.configPath}`);
+    }
+  }
+
+  if (config.baseUrl) {
+    candidates.push(path.resolve(config.baseUrl, importPath));
+  }
+
+  return candidates;
+}
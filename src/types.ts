@@ -12,14 +12,54 @@ export interface FileWatchingConfig {
   watchForChanged: boolean;       // Watch for file modifications
 }
 
+// What scans do with symbolic links: skip them, walk their targets, or record them as link nodes
+export type SymlinkPolicy = 'ignore' | 'follow' | 'link';
+
+// Scan pipeline configuration
+export interface ScanConfig {
+  concurrency?: number;           // Files read and resolved at once (default 32)
+  workerThreads?: number;         // Worker threads that parse imports; 0 parses on the main thread (default)
+  symlinks?: SymlinkPolicy;       // How symbolic links are scanned (default 'ignore')
+}
+
 // Configuration type for the application
 export interface Config {
   baseDirectory: string;
   excludePatterns: string[];
   fileWatching?: FileWatchingConfig;
+  moduleResolution?: ModuleResolutionStrategy | 'auto'; // How JS/TS imports are resolved ('auto' follows tsconfig)
+  includePaths?: string[];        // Extra C/C++ include directories, relative to the project root
+  compileCommandsPath?: string;   // compile_commands.json location, if not in the root or build/
+  languageAnalyzers?: string[];   // Modules exporting extra LanguageAnalyzers, relative to the project root
+  scan?: ScanConfig;
+  respectIgnoreFiles?: boolean;   // Honor .gitignore, .ignore, .filescopeignore and .git/info/exclude (default true)
+  testPatterns?: string[];        // Globs of test files, relative to the project root (default: common test layouts)
   version: string;
 }
 
+// Module resolution strategies for JS/TS imports, mirroring TypeScript's moduleResolution
+export type ModuleResolutionStrategy = 'node10' | 'node16' | 'nodenext' | 'bundler';
+
+// How a module is imported by a file
+export type ImportKind = 'static' | 'side-effect' | 'dynamic' | 'require' | 're-export' | 'type-only' | 'asset';
+
+// A resolved local dependency together with how it was imported
+export interface DependencyEdge {
+  path: string;              // Resolved path of the imported file
+  kind: ImportKind;          // How the file is imported
+  symbols?: string[];        // Imported names ('default' for default imports, '*' for namespace imports)
+  speculative?: boolean;     // Matched by a computed import pattern, so possibly never loaded
+}
+
+// Kinds of external dependency that are not installed packages
+export type ExternalDependencyCategory = 'stdlib' | 'system-header';
+
+// A module provided by the language or platform rather than the project or a package
+export interface ExternalDependency {
+  name: string;                         // Module or header name (e.g. 'os' or 'stdio.h')
+  category: ExternalDependencyCategory; // Where the module comes from
+}
+
 // Define concrete classes rather than just interfaces to ensure proper compilation
 export class FileNode {
   path: string = '';
@@ -27,11 +67,18 @@ export class FileNode {
   isDirectory: boolean = false;
   children?: FileNode[];
   dependencies?: string[];   // Outgoing dependencies (local files this file imports)
+  dependencyEdges?: DependencyEdge[]; // Outgoing dependencies with their import kind (one entry per path and kind)
   packageDependencies?: PackageDependency[]; // Outgoing dependencies (package files this file imports)
+  externalDependencies?: ExternalDependency[]; // Outgoing dependencies outside the project that are not packages (e.g. the standard library)
+  dynamicImportPatterns?: string[]; // Absolute globs of computed imports, e.g. `/app/locales/*.json`, expanded into speculative edges
   dependents?: string[];     // Incoming dependencies (files that import this file)
   importance?: number;       // 0-10 scale
   summary?: string;          // Human-readable summary of the file
   mermaidDiagram?: MermaidDiagram; // Optional Mermaid diagram for this node
+  contentHash?: string;      // SHA-1 of the content when the file was last analyzed (files with a language analyzer only)
+  size?: number;             // Size in bytes when the file was last scanned
+  mtimeMs?: number;          // Modification time when the file was last scanned
+  symlinkTarget?: string;    // Canonical target of a symbolic link recorded as a link node (scan.symlinks 'link')
 }
 
 // New type for package dependencies with version information
@@ -41,6 +88,8 @@ export class PackageDependency {
   path: string = '';         // Full resolved path
   scope?: string;            // Package scope (e.g., '@types' for '@types/node')
   isDevDependency?: boolean; // Whether this is a dev dependency
+  importKind?: ImportKind;   // How the package is imported
+  symbols?: string[];        // Names imported from the package
   
   // Helper to check for unresolved template literals
   private static isUnresolvedTemplateLiteral(str: string): boolean {
@@ -220,6 +269,7 @@ export class MermaidDiagramConfig {
   style: 'default' | 'dependency' | 'directory' | 'hybrid' | 'package-deps' = 'default';
   maxDepth?: number;         // Maximum depth for directory trees
   minImportance?: number;    // Only show files above this importance (0-10)
+  excludeEdgeKinds?: ImportKind[]; // Dependency edge kinds to leave out (e.g. 'type-only')
   showDependencies?: boolean; // Whether to show dependency relationships
   showPackageDeps?: boolean; // Whether to show package dependencies
   packageGrouping?: boolean; // Whether to group packages by scope
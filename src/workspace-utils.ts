@@ -0,0 +1,197 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { log } from './logger.js';
+import { JsonObject, asJsonObject } from './json-utils.js';
+
+/**
+ * A package that is part of the project's npm/yarn/pnpm workspace
+ */
+export interface WorkspacePackage {
+  name: string;      // The package name from its package.json
+  dir: string;       // Absolute path of the package directory
+  packageJson: JsonObject; // The parsed package.json
+}
+
+// Workspace packages keyed by project root
+const workspaceCache = new Map<string, WorkspacePackage[]>();
+
+/**
+ * Clears cached workspace discovery. Called at the start of every full scan.
+ */
+export function clearWorkspaceCache(): void {
+  workspaceCache.clear();
+}
+
+function readJson(filePath: string): JsonObject | null {
+  try {
+    return asJsonObject(JSON.parse(fs.readFileSync(filePath, 'utf-8'))) ?? null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Reads the `packages` list from a pnpm-workspace.yaml file. Only the simple
+ * block-list form used by pnpm is supported.
+ */
+export function parsePnpmWorkspacePackages(content: string): string[] {
+  const patterns: string[] = [];
+  let inPackages = false;
+
+  for (const rawLine of content.split(/\r?\n/)) {
+    const line = rawLine.replace(/\s+#.*$/, '');
+    if (!line.trim() || line.trim().startsWith('#')) continue;
+
+    if (/^packages\s*:/.test(line)) {
+      inPackages = true;
+      // Inline flow sequence: packages: ['a/*', 'b']
+      const inline = line.match(/^packages\s*:\s*\[(.*)\]/);
+      if (inline) {
+        patterns.push(...inline[1].split(',').map(item => item.trim().replace(/^['"]|['"]$/g, '')).filter(Boolean));
+        inPackages = false;
+      }
+      continue;
+    }
+
+    if (inPackages) {
+      const item = line.match(/^\s*-\s*(.+)$/);
+      if (item) {
+        patterns.push(item[1].trim().replace(/^['"]|['"]$/g, ''));
+      } else if (!/^\s/.test(line)) {
+        inPackages = false;
+      }
+    }
+  }
+
+  return patterns;
+}
+
+// Match one path segment against a workspace glob segment (`*` and `?`)
+function segmentToRegExp(segment: string): RegExp {
+  const escaped = segment.replace(/[.+^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '[^/]*').replace(/\?/g, '[^/]');
+  return new RegExp(`^${escaped}$`);
+}
+
+function listSubdirectories(dir: string): string[] {
+  try {
+    return fs.readdirSync(dir, { withFileTypes: true })
+      .filter(entry => entry.isDirectory() && entry.name !== 'node_modules' && !entry.name.startsWith('.'))
+      .map(entry => path.join(dir, entry.name));
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Expands a workspace glob such as `packages/*` or `apps/**` to directories.
+ * Also used for Cargo workspace `members`.
+ */
+export function expandWorkspacePattern(baseDir: string, pattern: string): string[] {
+  const segments = pattern.replace(/^\.\//, '').replace(/\/+$/, '').split('/').filter(Boolean);
+  let current = [baseDir];
+
+  for (const segment of segments) {
+    const next: string[] = [];
+    for (const dir of current) {
+      if (segment === '**') {
+        // Zero or more directories
+        const stack = [dir];
+        while (stack.length > 0) {
+          const candidate = stack.pop()!;
+          next.push(candidate);
+          stack.push(...listSubdirectories(candidate));
+        }
+      } else if (/[*?]/.test(segment)) {
+        const regex = segmentToRegExp(segment);
+        next.push(...listSubdirectories(dir).filter(sub => regex.test(path.basename(sub))));
+      } else {
+        const candidate = path.join(dir, segment);
+        if (fs.existsSync(candidate)) next.push(candidate);
+      }
+    }
+    current = next;
+  }
+
+  return current;
+}
+
+/**
+ * Finds the packages of the workspace rooted at `baseDir`, from the root
+ * package.json `workspaces` field and pnpm-workspace.yaml. The root package
+ * itself is included so self-references resolve.
+ */
+export function getWorkspacePackages(baseDir: string): WorkspacePackage[] {
+  const root = path.normalize(baseDir);
+  if (workspaceCache.has(root)) {
+    return workspaceCache.get(root)!;
+  }
+
+  const patterns: string[] = [];
+  const rootPackageJson = readJson(path.join(root, 'package.json'));
+  if (rootPackageJson) {
+    // An array, or Yarn's { packages: [...], nohoist: [...] } form
+    const workspaces = rootPackageJson.workspaces;
+    const workspacePatterns = Array.isArray(workspaces) ? workspaces : asJsonObject(workspaces)?.packages;
+    if (Array.isArray(workspacePatterns)) {
+      patterns.push(...workspacePatterns.filter((pattern): pattern is string => typeof pattern === 'string'));
+    }
+  }
+
+  try {
+    const pnpmWorkspace = fs.readFileSync(path.join(root, 'pnpm-workspace.yaml'), 'utf-8');
+    patterns.push(...parsePnpmWorkspacePackages(pnpmWorkspace));
+  } catch {
+    // Not a pnpm workspace
+  }
+
+  const included = new Set<string>();
+  const excluded = new Set<string>();
+  for (const pattern of patterns) {
+    if (pattern.startsWith('!')) {
+      expandWorkspacePattern(root, pattern.slice(1)).forEach(dir => excluded.add(dir));
+    } else {
+      expandWorkspacePattern(root, pattern).forEach(dir => included.add(dir));
+    }
+  }
+
+  const packages: WorkspacePackage[] = [];
+  if (rootPackageJson && typeof rootPackageJson.name === 'string') {
+    packages.push({ name: rootPackageJson.name, dir: root, packageJson: rootPackageJson });
+  }
+
+  for (const dir of included) {
+    if (excluded.has(dir) || dir === root) continue;
+    const packageJson = readJson(path.join(dir, 'package.json'));
+    if (packageJson && typeof packageJson.name === 'string') {
+      packages.push({ name: packageJson.name, dir, packageJson });
+    }
+  }
+
+  if (packages.length > 1) {
+    log(`[workspace] Found ${packages.length} workspace packages: ${packages.map(pkg => pkg.name).join(', ')}`);
+  }
+
+  workspaceCache.set(root, packages);
+  return packages;
+}
+
+/**
+ * Finds the workspace package a bare specifier refers to, returning the
+ * package and the subpath within it ('.' for the package root)
+ */
+export function findWorkspacePackage(specifier: string, baseDir: string): { pkg: WorkspacePackage; subpath: string } | null {
+  let best: WorkspacePackage | null = null;
+  for (const pkg of getWorkspacePackages(baseDir)) {
+    if ((specifier === pkg.name || specifier.startsWith(pkg.name + '/')) &&
+        (!best || pkg.name.length > best.name.length)) {
+      best = pkg;
+    }
+  }
+
+  if (!best) {
+    return null;
+  }
+
+  const rest = specifier.slice(best.name.length);
+  return { pkg: best, subpath: rest ? '.' + rest : '.' };
+}